@@ -30,6 +30,11 @@ export class AudioManager {
   private isFullyLoaded: boolean = false;
   private isMobile: boolean = false;
 
+  // MVP 18: Nut Rush event music
+  private isEventMusic: boolean = false;
+  private readonly EVENT_MUSIC_RATE = 1.25; // Faster tempo during the rush
+  private readonly EVENT_MUSIC_BOOST = 1.5; // Music volume multiplier during the rush
+
   constructor() {
     // Detect mobile for iOS-specific audio handling
     this.isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent) ||
@@ -284,6 +289,17 @@ export class AudioManager {
       volume: 0.35,
       loop: true,
     });
+
+    // MVP 18: Nut Rush event stingers
+    this.loadSound('event_start', {
+      src: ['/sounds/mixkit-medieval-show-fanfare-announcement-226.wav'],
+      volume: 0.6,
+    });
+
+    this.loadSound('event_end', {
+      src: ['/sounds/mixkit-completion-of-a-level-2063.wav'],
+      volume: 0.5,
+    });
   }
 
   /**
@@ -459,6 +475,36 @@ export class AudioManager {
     }
   }
 
+  /**
+   * MVP 18: Nut Rush music - fanfare, then the music loop plays faster and louder
+   */
+  startEventMusic(): void {
+    this.isEventMusic = true;
+    this.playSound('ui', 'event_start');
+    this.playMusic();
+
+    const music = this.sounds.get('game_music');
+    if (music) {
+      music.rate(this.EVENT_MUSIC_RATE);
+      music.volume(this.calculateEffectiveVolume('music'));
+    }
+  }
+
+  /**
+   * MVP 18: Return to normal background music after Nut Rush
+   */
+  stopEventMusic(): void {
+    if (!this.isEventMusic) return;
+    this.isEventMusic = false;
+    this.playSound('ui', 'event_end');
+
+    const music = this.sounds.get('game_music');
+    if (music) {
+      music.rate(1.0);
+      music.volume(this.calculateEffectiveVolume('music'));
+    }
+  }
+
   /**
    * MVP 11: Start both ambient sounds and music (layered approach)
    * Ambient provides nature sounds, music adds emotional atmosphere
@@ -504,7 +550,9 @@ export class AudioManager {
    * Calculate effective volume considering category and master volume
    */
   private calculateEffectiveVolume(category: 'sfx' | 'ambient' | 'music'): number {
-    return this.volumes[category] * this.volumes.master;
+    // MVP 18: Music is boosted during Nut Rush
+    const eventBoost = category === 'music' && this.isEventMusic ? this.EVENT_MUSIC_BOOST : 1;
+    return Math.min(1, this.volumes[category] * this.volumes.master * eventBoost);
   }
 
   /**
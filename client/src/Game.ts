@@ -3,7 +3,7 @@ import * as THREE from 'three';
 // Additional test comment for IDE integration
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
-import { createTerrain, setTerrainMesh } from './terrain.js';
+import { createTerrain, setTerrainMesh, setTerrainSeed, updateTerrainMesh } from './terrain.js';
 import { createForestFromServer, bushPositions } from './forest.js';
 import { getTerrainHeight } from './terrain.js';
 import { AudioManager } from './AudioManager.js';
@@ -28,6 +28,8 @@ import { AccessoryRegistry } from './services/AccessoryRegistry.js'; // MVP 17:
 
 import { TutorialOverlay } from './TutorialOverlay.js';
 import { getPlayerTitle, shouldPredatorsTargetPlayer } from '@shared/PlayerRanks';
+import { BinaryCodec, SUPPORTED_BINARY_PROTOCOL_VERSIONS, isBinaryMessageType } from '@shared/BinaryProtocol';
+import { ServerMessage, ServerMessageOf, validateServerMessage } from '@shared/MessageSchema';
 import { TipsManager } from './TipsManager.js'; // MVP 14: Contextual tips
 import { OverlayManager, OverlayPriority } from './OverlayManager.js'; // MVP 14: Overlay queue
 import { TipCard } from './TipCard.js'; // MVP 14 Phase 9: Dismissible tips
@@ -78,6 +80,8 @@ export class Game {
 
   public sessionToken: string = ''; // MVP 6: Player session token
   public username: string = ''; // MVP 6: Player username
+  // MVP 18: Forest shard to join (from ?forest= invite link, then pinned to the shard the server assigned)
+  private forestId: string | null = new URLSearchParams(window.location.search).get('forest');
   public turnstileToken: string | null = null; // MVP 7.1: Cloudflare Turnstile bot protection token
   private characterGroundOffset = 0; // Offset from character pivot to feet
   private characterCollisionRadius = 0.3; // MVP 9: Reduced for tighter player collisions (was 0.5)
@@ -101,6 +105,11 @@ export class Game {
 
   // Multiplayer properties
   private websocket: WebSocket | null = null;
+  // MVP 18: Binary protocol for hot-path messages (server confirms version in world_state)
+  private binaryCodec: BinaryCodec | null = null;
+  private binaryProtocolVersion: number = 0; // 0 = send JSON
+  private resumeToken: string | null = null; // MVP 18: Session resume - sent back on reconnect to keep our world
+  private lastEventSeq: number = 0; // MVP 18: Last broadcast seen (server replays anything newer on resume)
   private playerId: string = '';
   private remotePlayers: Map<string, THREE.Group> = new Map();
 
@@ -109,7 +118,8 @@ export class Game {
 
   // Entity interpolation with velocity-based extrapolation - industry standard for smooth multiplayer
   private remotePlayerBuffers: Map<string, Array<{ position: THREE.Vector3; quaternion: THREE.Quaternion; velocity?: THREE.Vector3; timestamp: number }>> = new Map();
-  private INTERPOLATION_DELAY = 150; // 150ms - Render 1.5x behind server updates (100ms) for smooth interpolation
+  private interestEntities: Set<string> = new Set(); // MVP 18: 'player:<id>' / 'npc:<id>' the server currently streams to us
+  private INTERPOLATION_DELAY = 400; // 400ms - Render 2x behind server snapshots (200ms alarm tick) so two always bracket the render time
   private MAX_BUFFER_SIZE = 10; // Larger buffer for smoother interpolation (10 updates = 1 second history)
   private remotePlayerMixers: Map<string, THREE.AnimationMixer> = new Map();
   private remotePlayerActions: Map<string, { [key: string]: THREE.AnimationAction }> = new Map();
@@ -204,6 +214,9 @@ export class Game {
   private displayedScore: number = 0; // MVP 5: Animated score for tweening effect
   private mouse: THREE.Vector2 = new THREE.Vector2();
   private walnutLabels: Map<string, HTMLElement> = new Map(); // Labels for walnuts
+  // MVP 18: Optimistic pickups awaiting server confirmation (restored on find_rejected)
+  private pendingFinds: Map<string, { ownerId: string; walnutType: string; position: { x: number; y: number; z: number }; points: number; timestamp: number }> = new Map();
+  private readonly PENDING_FIND_TIMEOUT = 10000; // Drop unconfirmed entries after 10 seconds
   private labelsContainer: HTMLElement | null = null;
 
   // MVP 3: Proximity indicator properties
@@ -212,6 +225,8 @@ export class Game {
 
   // MVP 3: Navigation landmarks
   private landmarks: Map<string, THREE.Vector3> = new Map(); // Landmark name -> position
+  // MVP 18: Objects placed before terrainSeed arrived (re-grounded when the seed is applied)
+  private terrainAnchoredObjects: Array<{ object: THREE.Object3D; offset: number }> = [];
 
   // Forest synchronization
   private forestCreated: boolean = false;
@@ -227,7 +242,9 @@ export class Game {
   // MVP 4: Leaderboard system
   private leaderboardVisible: boolean = false;
   private leaderboardUpdateInterval: number = 0;
-  private currentLeaderboardTab: 'weekly' | 'alltime' = 'weekly'; // MVP 9: Default to weekly
+  private currentLeaderboardTab: 'daily' | 'weekly' | 'alltime' = 'weekly'; // MVP 9: Default to weekly (MVP 18: + daily)
+  private currentLeaderboardCategory: 'score' | 'knockouts' | 'trees' | 'found' | 'hidden' | 'kd' = 'score'; // MVP 18: Category boards
+  private raidLogVisible: boolean = false; // MVP 18: Raid log panel (next to the leaderboard)
 
   // MVP 4: Chat and Emotes
   private playerChatLabels: Map<string, HTMLElement> = new Map(); // Chat labels for players
@@ -272,6 +289,26 @@ export class Game {
   private lastInventoryFullMessageTime: number = 0; // Throttle "inventory full" messages
   private readonly INVENTORY_FULL_MESSAGE_COOLDOWN = 2000; // 2 seconds between messages
 
+  // MVP 18: Power-ups (server-validated - local state only mirrors server for HUD)
+  private powerUps: Map<string, { charges: number; cooldownEndsAt: number; activeEndsAt: number }> = new Map();
+  private scentMarkers: Array<{ x: number; z: number; expiresAt: number }> = []; // ScentSniff minimap markers
+
+  // MVP 18: "My Stash" journal (growsAt converted to the local clock on arrival)
+  private stash: ServerMessageOf<'stash_update'>['walnuts'] = [];
+  private stashVisible: boolean = false;
+  private stashInitialized = false;
+  private stashMarkers: Map<string, HTMLElement> = new Map(); // walnutId -> world label (minimap pin drawn from this.stash)
+  private powerUpHudLastText: string = ''; // Dirty check for power-up HUD
+  private readonly FAST_DIG_DURATION = 400; // Dig animation with FastDig (normal: 1000ms) - server enforces the same dig times
+
+  // MVP 18: Participation multiplier (server-computed, display only)
+  private scoreMultiplier: number = 0; // 0 = not received yet (no level-up toast on join)
+
+  // MVP 18: World events (Nut Rush) - server decides start/end, client shows countdown
+  private activeEvent: { eventType: string; endsAt: number; pointsMultiplier: number } | null = null;
+  private eventBannerLastText: string = ''; // Dirty check for banner countdown
+  private readonly NUT_RUSH_SKY_TINT = 0xffb347; // Warm golden-orange sky
+
   // MVP 9: Track tree-dropped walnut IDs (projectileId -> serverWalnutId)
   private treeWalnutProjectiles: Map<string, string> = new Map();
 
@@ -318,6 +355,7 @@ export class Game {
 
   // MVP 16: Initialization guards to prevent double-initialization
   private leaderboardInitialized = false;
+  private raidLogInitialized = false;
   private chatEmotesInitialized = false;
   private settingsInitialized = false;
 
@@ -531,6 +569,12 @@ export class Game {
       // MVP 4: Initialize leaderboard
       this.initLeaderboard();
 
+      // MVP 18: Initialize raid log
+      this.initRaidLog();
+
+      // MVP 18: Initialize "My Stash" journal
+      this.initStash();
+
       // MVP 4: Initialize quick chat and emotes
       this.initChatAndEmotes();
 
@@ -975,6 +1019,17 @@ export class Game {
         this.eatWalnut();
       }
 
+      // MVP 18: Power-ups with 1/2/3 keys
+      if (e.key === '1') {
+        this.usePowerUp('ScentSniff');
+      }
+      if (e.key === '2') {
+        this.usePowerUp('FastDig');
+      }
+      if (e.key === '3') {
+        this.usePowerUp('DecoyNut');
+      }
+
       // MVP 5: Mute toggle with M key
       if (e.key === 'm' || e.key === 'M') {
         this.audioManager.toggleMute();
@@ -1087,8 +1142,9 @@ export class Game {
   private triggerSelfDestruct(): void {
     if (this.isDead) return;
 
+    // MVP 18: Local-only - the server ignores client-reported deaths
     console.log('💥 Self destruct initiated');
-    this.takeDamage(1000, 'self_destruct');
+    this.onDeath();
   }
 
   /**
@@ -1148,7 +1204,19 @@ export class Game {
       });
     }
 
-
+    // MVP 18: Power-up buttons (desktop HUD bar and mobile action column share data-powerup)
+    document.querySelectorAll<HTMLButtonElement>('.powerup-btn').forEach(button => {
+      button.addEventListener('click', (event) => {
+        event.stopPropagation(); // Don't treat as a walnut click
+        if (navigator.vibrate) {
+          navigator.vibrate(50);
+        }
+        const powerUpType = button.dataset.powerup;
+        if (powerUpType) {
+          this.usePowerUp(powerUpType);
+        }
+      });
+    });
 
     // CRITICAL: Initialize button states immediately (don't wait for server)
     this.updateMobileButtons();
@@ -1364,6 +1432,9 @@ export class Game {
     // CRITICAL FIX: Always update HUD, not just during animation
     // This ensures score displays even when not animating (displayedScore === playerScore)
     this.updateWalnutHUD();
+    this.updatePowerUpHUD(); // MVP 18: Cooldown countdowns
+    this.updateEventBanner(); // MVP 18: Nut Rush countdown
+    this.updateStashMarkers(); // MVP 18: Stash markers and growth countdowns
 
     // MVP 3: Update walnut labels
     this.updateWalnutLabels();
@@ -1814,6 +1885,20 @@ export class Game {
     }
 
     // MVP 16 FIX: Clear local state to prevent duplicates (zombie NPCs/players)
+    this.clearNetworkEntities();
+    this.resumeToken = null; // MVP 18: New credentials = new session
+
+    // Reset connection attempts
+    this.connectionAttempts = 0;
+
+    // Connect again (will pick up new token from localStorage)
+    await this.connectWebSocket();
+  }
+
+  /**
+   * MVP 16: Remove all server-driven NPCs and remote players (server resends them after a reconnect/resync)
+   */
+  private clearNetworkEntities(): void {
     // 1. Clear NPCs
     this.npcs.forEach((mesh) => {
       this.scene.remove(mesh);
@@ -1849,12 +1934,7 @@ export class Game {
     });
     this.remotePlayerHealthBars.clear();
     this.remotePlayerBuffers.clear();
-
-    // Reset connection attempts
-    this.connectionAttempts = 0;
-
-    // Connect again (will pick up new token from localStorage)
-    await this.connectWebSocket();
+    this.interestEntities.clear();
   }
 
   // Multiplayer methods
@@ -1901,9 +1981,19 @@ export class Game {
     if (accessToken) {
       wsParams.set('accessToken', accessToken);
     }
+    if (this.forestId) {
+      wsParams.set('forestId', this.forestId);
+    }
     if (this.turnstileToken) {
       wsParams.set('turnstileToken', this.turnstileToken);
     }
+    // MVP 18: Offer binary protocol versions (server falls back to JSON if none match)
+    wsParams.set('binaryProtocol', SUPPORTED_BINARY_PROTOCOL_VERSIONS.join(','));
+    // MVP 18: Resume our session instead of rejoining (server falls back to a full sync if it can't)
+    if (this.resumeToken) {
+      wsParams.set('resumeToken', this.resumeToken);
+      wsParams.set('lastEventSeq', String(this.lastEventSeq));
+    }
 
     const wsUrl = apiUrl.replace('http:', 'ws:').replace('https:', 'wss:') +
       `/ws?${wsParams.toString()}`;
@@ -1911,6 +2001,10 @@ export class Game {
 
     try {
       this.websocket = new WebSocket(wsUrl);
+      // MVP 18: Fresh string tables per socket; keep sending JSON until the server confirms
+      this.websocket.binaryType = 'arraybuffer';
+      this.binaryCodec = new BinaryCodec();
+      this.binaryProtocolVersion = 0;
 
 
       // Set connection timeout
@@ -1945,8 +2039,17 @@ export class Game {
 
       this.websocket.onmessage = (event) => {
         try {
-          const data = JSON.parse(event.data);
-          this.handleMessage(data);
+          // MVP 18: Binary frames carry hot-path messages (same shape as JSON)
+          const data = event.data instanceof ArrayBuffer
+            ? this.binaryCodec!.decode(event.data)
+            : JSON.parse(event.data);
+          // MVP 18: Drop anything that doesn't match the shared message schema
+          const validation = validateServerMessage(data);
+          if (!validation.ok) {
+            console.warn(`⚠️ Dropped invalid server message: ${validation.error}`);
+            return;
+          }
+          this.handleMessage(validation.message);
         } catch (error) {
         }
       };
@@ -2026,6 +2129,14 @@ export class Game {
 
   private sendMessage(message: any) {
     if (this.websocket && this.websocket.readyState === WebSocket.OPEN) {
+      // MVP 18: Binary encoding for hot-path messages once negotiated (JSON fallback)
+      if (this.binaryProtocolVersion > 0 && this.binaryCodec && isBinaryMessageType(message.type)) {
+        const frame = this.binaryCodec.encode(message, this.binaryProtocolVersion);
+        if (frame) {
+          this.websocket.send(frame);
+          return;
+        }
+      }
       this.websocket.send(JSON.stringify(message));
     }
   }
@@ -2095,14 +2206,52 @@ export class Game {
     }
   }
 
-  private async handleMessage(data: any): Promise<void> {
-    // Validate message structure
-    if (!data || typeof data.type !== 'string') {
-      return;
+  private async handleMessage(data: ServerMessage): Promise<void> {
+    // MVP 18: Track the replay cursor for session resume
+    if (typeof data.eventSeq === 'number') {
+      this.lastEventSeq = data.eventSeq;
     }
 
     switch (data.type) {
       case 'world_state':
+        // MVP 18: Session resume token for seamless reconnects
+        if (typeof data.resumeToken === 'string') {
+          this.resumeToken = data.resumeToken;
+        }
+
+        // MVP 18: Remember assigned forest shard so reconnects land in the same forest
+        // and the address bar doubles as an invite link for friends
+        if (typeof data.forestId === 'string') {
+          this.forestId = data.forestId;
+          const inviteUrl = new URL(window.location.href);
+          inviteUrl.searchParams.set('forest', data.forestId);
+          window.history.replaceState(null, '', inviteUrl.toString());
+        }
+
+        // MVP 18: Server accepted binary protocol - switch hot-path sends over
+        if (typeof data.protocolVersion === 'number') {
+          this.binaryProtocolVersion = SUPPORTED_BINARY_PROTOCOL_VERSIONS.includes(data.protocolVersion)
+            ? data.protocolVersion
+            : 0;
+        }
+
+        // MVP 18: "While you were away" - cycle settlement paid out on this join
+        if (data.awaySummary && data.awaySummary.totalPoints > 0) {
+          this.showSettlementSummary(data.awaySummary, 'While you were away');
+        }
+
+        // MVP 18: Join mid-event (quietly - no fanfare toast)
+        if (data.activeEvent) {
+          this.startWorldEvent(data.activeEvent, false);
+        } else if (this.activeEvent) {
+          this.endWorldEvent();
+        }
+
+        // MVP 18: Match server terrain before placing the forest on it
+        if (typeof data.terrainSeed === 'number') {
+          this.applyTerrainSeed(data.terrainSeed);
+        }
+
         // Create forest from server data (only once)
         if (!this.forestCreated && Array.isArray(data.forestObjects)) {
           // MVP 5.5: Pass collision system to add tree collisions
@@ -2135,7 +2284,8 @@ export class Game {
                 ownerId: walnut.ownerId,
                 walnutType: walnutType,
                 position: walnut.location,
-                points: points
+                points: walnut.isDecoy ? 0 : points,
+                isDecoy: walnut.isDecoy // MVP 18: Server only sends this flag for our own decoys
               });
             }
           }
@@ -2167,14 +2317,15 @@ export class Game {
 
         // MVP 12: Handle initial title data and show welcome message if first join
         if (data.titleId && data.titleName) {
-          this.playerTitleName = data.titleName;
+          const titleName = data.titleName;
+          this.playerTitleName = titleName;
 
           // Show welcome overlay if this is first join
           if (data.isFirstJoin) {
             this.overlayManager.enqueue(
               'welcome',
               OverlayPriority.MEDIUM,
-              () => this.rankOverlay.showWelcome(data.titleName),
+              () => this.rankOverlay.showWelcome(titleName),
               3000 // Duration from RankOverlay
             );
           } else {
@@ -2204,6 +2355,24 @@ export class Game {
         }
         break;
 
+      case 'walnut_revealed':
+        // MVP 18: Another player's hidden walnut came within discovery range
+        this.createRemoteWalnut({
+          walnutId: data.walnutId,
+          ownerId: data.ownerId,
+          walnutType: data.walnutType,
+          position: data.position,
+          points: data.points
+        });
+        break;
+
+      case 'walnut_concealed':
+        // MVP 18: Walnut moved out of discovery range - server will reveal it again when we return
+        if (data.walnutId) {
+          this.removeWalnut(data.walnutId);
+        }
+        break;
+
       case 'walnut_found':
         // Another player found a walnut - remove it locally
         if (data.walnutId && data.finderId !== this.playerId) {
@@ -2291,6 +2460,10 @@ export class Game {
         if (data.tree && data.walnutId) {
           await this.handleTreeGrowth(data);
         }
+        // MVP 18: One of ours grew - refresh the stash journal
+        if (data.ownerId === this.playerId && (this.stashVisible || this.stashMarkers.size > 0)) {
+          this.requestStash();
+        }
         break;
 
       case 'existing_players':
@@ -2359,22 +2532,31 @@ export class Game {
         break;
 
 
+      case 'hide_confirmed':
+        // MVP 18: Server accepted our hide - swap the placeholder for the server's walnut id and spot
+        this.renameWalnut(data.clientWalnutId, data.walnutId);
+        this.walnuts.get(data.walnutId)?.position.set(data.position.x, data.position.y, data.position.z);
+        if (this.stashVisible) {
+          this.requestStash();
+        }
+        break;
+
       case 'hide_rejected':
         // MVP 16: Server rejected hide (e.g. rate limit). Rollback optimistic update.
-        if (data.walnutId) {
+        if (data.clientWalnutId) {
           console.warn(`⚠️ Hide rejected by server: ${data.reason}`);
 
           // Remove from local map and scene
-          const walnutGroup = this.walnuts.get(data.walnutId);
+          const walnutGroup = this.walnuts.get(data.clientWalnutId);
           if (walnutGroup) {
             this.scene.remove(walnutGroup);
-            this.walnuts.delete(data.walnutId);
+            this.walnuts.delete(data.clientWalnutId);
 
             // Remove label
-            const label = this.walnutLabels.get(data.walnutId);
+            const label = this.walnutLabels.get(data.clientWalnutId);
             if (label) {
               label.remove();
-              this.walnutLabels.delete(data.walnutId);
+              this.walnutLabels.delete(data.clientWalnutId);
             }
 
             // Despawn VFX (particles) is not easily reversible, but acceptable minor glitch
@@ -2384,15 +2566,98 @@ export class Game {
               this.toastManager.error("You're hiding walnuts too fast! Slow down.", 3000);
             } else if (data.reason === 'no_walnuts') {
               this.toastManager.error("You don't have any walnuts!", 3000);
+            } else if (data.reason === 'no_bush') {
+              this.toastManager.error("There's no bush here to hide in!", 3000);
+            } else if (data.reason === 'obstructed') {
+              this.toastManager.error("You can't hide a walnut there!", 3000);
+            } else if (data.reason === 'too_far') {
+              this.toastManager.error('Too far away to hide a walnut there!', 3000);
+            }
+          }
+        }
+        break;
+
+      case 'find_rejected':
+        // MVP 18: Server rejected pickup. Rollback optimistic removal.
+        if (data.walnutId) {
+          console.warn(`⚠️ Find rejected by server: ${data.reason}`);
+
+          const pending = this.pendingFinds.get(data.walnutId);
+          this.pendingFinds.delete(data.walnutId);
+
+          // Walnut is gone for everyone if it no longer exists or someone else got it first
+          if (pending && data.reason !== 'not_found' && data.reason !== 'already_found') {
+            this.createRemoteWalnut({
+              walnutId: data.walnutId,
+              ownerId: pending.ownerId,
+              walnutType: pending.walnutType,
+              position: pending.position,
+              points: pending.points
+            });
+          }
+
+          // Notify user
+          if (data.reason === 'too_far') {
+            this.toastManager.error('Too far away to pick that up!', 3000);
+          } else if (data.reason === 'already_found') {
+            this.toastManager.warning('Someone beat you to that walnut!', 3000);
+          } else if (data.reason === 'immune') {
+            this.toastManager.warning("You can't pick up your own dropped walnut yet!", 3000);
+          } else if (data.reason === 'still_digging') {
+            this.toastManager.warning('Still digging - one walnut at a time!', 2000);
+          }
+        }
+        break;
+
+      case 'snapshot':
+        // MVP 18: Fixed-tick delta snapshot - only players/NPCs that changed since our last ack
+        if (typeof data.seq === 'number') {
+          this.sendMessage({ type: 'snapshot_ack', seq: data.seq });
+        }
+        if (Array.isArray(data.players)) {
+          for (const playerData of data.players) {
+            if (this.validatePlayerData(playerData) && playerData.squirrelId !== this.playerId) {
+              this.updateRemotePlayer(playerData.squirrelId, playerData.position, playerData.rotationY, playerData.animation, playerData.velocity, playerData.animationStartTime, playerData.moveType, playerData.characterId, playerData.health, playerData.accessoryId);
             }
           }
         }
+        if (Array.isArray(data.npcs)) {
+          for (const npcData of data.npcs) {
+            this.updateNPC(npcData.npcId, npcData.position, npcData.rotationY, npcData.animation, npcData.velocity, npcData.behavior, npcData.health, npcData.accessoryId);
+          }
+        }
         break;
 
       case 'heartbeat':
         // Heartbeat response - connection is alive
         break;
 
+      case 'session_resumed':
+        // MVP 18: Server reattached our session - missed broadcasts follow, no world dump
+        this.binaryProtocolVersion = SUPPORTED_BINARY_PROTOCOL_VERSIONS.includes(data.protocolVersion)
+          ? data.protocolVersion
+          : 0;
+        // The server forgot our interest set - hide everything until it re-enters (with fresh positions)
+        for (const key of Array.from(this.interestEntities)) {
+          const separator = key.indexOf(':');
+          this.interestEntities.delete(key);
+          this.applyInterest(key.slice(0, separator), key.slice(separator + 1), false);
+        }
+        break;
+
+      case 'state_resync':
+        // MVP 18: Server woke from hibernation without our old state - drop entities and string tables,
+        // the full join sync (world_state, players, NPCs) follows on this socket
+        this.clearNetworkEntities();
+        this.binaryCodec = new BinaryCodec();
+        this.binaryProtocolVersion = 0;
+        break;
+
+      case 'ping':
+        // MVP 18: Server measures round-trip time for lag-compensated hits - echo immediately
+        this.sendMessage({ type: 'pong', serverTime: data.serverTime });
+        break;
+
       case 'chat_message':
         // Received chat message from another player
         if (data.playerId && data.message && data.playerId !== this.playerId) {
@@ -2451,9 +2716,26 @@ export class Game {
 
       case 'predators_update':
         // MVP 12: Predator system - batch update for all predators
+        // MVP 18: Only the predators in our area of interest
         this.updatePredators(data.predators);
         break;
 
+      case 'interest_enter':
+        // MVP 18: Server started streaming this entity to us
+        if (data.kind && data.id) {
+          this.interestEntities.add(`${data.kind}:${data.id}`);
+          this.applyInterest(data.kind, data.id, true, data.position, data.rotationY);
+        }
+        break;
+
+      case 'interest_leave':
+        // MVP 18: Server stopped streaming this entity to us
+        if (data.kind && data.id) {
+          this.interestEntities.delete(`${data.kind}:${data.id}`);
+          this.applyInterest(data.kind, data.id, false);
+        }
+        break;
+
       case 'predator_annoyance_update':
         // MVP 12: Update wildebeest annoyance bar
         if (data.predatorId && typeof data.annoyanceLevel === 'number') {
@@ -2580,8 +2862,18 @@ export class Game {
             if (this.vfxManager && this.character) {
               this.vfxManager.spawnParticles('sparkle', this.character.position, 15);
             }
+
+            // MVP 18: Server-resolved predator attack
+            if (data.predatorType) {
+              this.showPredatorAttackFeedback(data.predatorType, data.damage);
+            }
           } else {
             // Remote player or NPC took damage - update their health in userData
+            // MVP 18: Server confirmed our walnut hit (projectiles are simulated server-side)
+            if (data.attackerId === this.playerId) {
+              this.toastManager.success('HIT!');
+            }
+
             const remotePlayer = this.remotePlayers.get(data.targetId);
             if (remotePlayer) {
               remotePlayer.userData.health = data.newHealth;
@@ -2619,6 +2911,19 @@ export class Game {
         }
         break;
 
+      case 'walnuts_stolen':
+        // MVP 18: Aerial predator stole walnuts (server-authoritative inventory)
+        if (data.targetId === this.playerId && typeof data.newInventory === 'number') {
+          this.walnutInventory = data.newInventory;
+          this.updateWalnutHUD();
+          this.updateMobileButtons();
+          const predatorName = typeof data.predatorType === 'string'
+            ? data.predatorType.charAt(0).toUpperCase() + data.predatorType.slice(1)
+            : 'Predator';
+          this.toastManager.warning(`🦅 ${predatorName} stole ${data.amount} walnut${data.amount === 1 ? '' : 's'}!`, 2500);
+        }
+        break;
+
       case 'throw_event':
         // MVP 8: Someone threw a walnut - spawn projectile
         if (data.throwerId && data.fromPosition && data.toPosition) {
@@ -2627,6 +2932,20 @@ export class Game {
         break;
 
       case 'player_death':
+        // MVP 18: Deaths are server-decided - this is the only place the local player dies
+        if (data.victimId === this.playerId && !this.isDead) {
+          // Server already dropped our walnuts at the death position
+          this.walnutInventory = 0;
+          this.updateWalnutHUD();
+          this.serverRespawnPosition = null; // MVP 18: Wait for this death's respawn point
+          this.onDeath();
+        }
+
+        // MVP 18: Assist credit (server awarded the points via score_update)
+        if (Array.isArray(data.assistIds) && data.assistIds.includes(this.playerId)) {
+          this.toastManager.success('Assist!', 2000);
+        }
+
         // Server broadcasts when a player dies
         if (data.victimId && data.killerId) {
           // If it's a remote player dying, play their death animation
@@ -2668,6 +2987,13 @@ export class Game {
             this.health = data.health;
             this.updateHealthUI();
           }
+          // MVP 18: Server picks the respawn point - snap there now, or when our own respawn runs
+          if (data.position && Number.isFinite(data.position.x) && Number.isFinite(data.position.z)) {
+            this.serverRespawnPosition = { x: data.position.x, z: data.position.z };
+            if (!this.isDead) {
+              this.moveToServerRespawnPosition();
+            }
+          }
         } else {
           // MVP 9 FIX: Remote player respawned - update their health
           const remotePlayer = this.remotePlayers.get(data.playerId);
@@ -2696,12 +3022,155 @@ export class Game {
         }
         break;
 
+      case 'cycle_settlement':
+        // MVP 18: Daily cycle ended while we were playing
+        if (data.totalPoints > 0) {
+          this.showSettlementSummary(data, 'Forest cycle complete');
+        }
+        break;
+
+      case 'first_finder':
+        // MVP 18: First to N finds this cycle (bonus paid at cycle end)
+        this.toastManager.success(`🥇 First to find ${data.findCount} walnuts! +${data.bonusPoints} bonus at cycle end`, 4000);
+        break;
+
+      case 'multiplier_update':
+        // MVP 18: Participation multiplier changed (join, level up, daily reset)
+        if (typeof data.multiplier === 'number') {
+          const increased = this.scoreMultiplier > 0 && data.multiplier > this.scoreMultiplier;
+          this.scoreMultiplier = data.multiplier;
+          this.updateMultiplierDisplay(data.nextStepInSeconds);
+          if (increased) {
+            this.toastManager.success(`⏱️ Points multiplier up: x${data.multiplier.toFixed(1)}!`);
+          }
+        }
+        break;
+
+      case 'event_started':
+        // MVP 18: Nut Rush began (scheduled or admin-triggered)
+        this.startWorldEvent(data, true);
+        break;
+
+      case 'event_ended':
+        // MVP 18: Nut Rush over
+        if (this.activeEvent) {
+          this.endWorldEvent();
+          this.toastManager.info(data.reason === 'cancelled' ? '🌰 Nut Rush cancelled' : '🌰 Nut Rush is over!');
+        }
+        break;
+
+      case 'powerup_state':
+        // MVP 18: Full power-up sync on join/reconnect/daily reset
+        if (data.powerUps) {
+          for (const [powerUpType, state] of Object.entries(data.powerUps as Record<string, any>)) {
+            this.applyPowerUpState(powerUpType, state.charges, state.cooldownRemaining, state.activeRemaining);
+          }
+        }
+        break;
+
+      case 'powerup_activated':
+        // MVP 18: Server accepted use_powerup
+        this.applyPowerUpState(data.powerUpType, data.charges, data.cooldownRemaining, data.activeRemaining);
+        this.audioManager.playSound('ui', 'button_click');
+
+        if (data.powerUpType === 'ScentSniff') {
+          const expiresAt = Date.now() + (data.activeRemaining || 0);
+          const sniffed = Array.isArray(data.sniffedWalnuts) ? data.sniffedWalnuts : [];
+          this.scentMarkers = sniffed.map((w: any) => ({ x: w.position.x, z: w.position.z, expiresAt }));
+          this.toastManager.info(sniffed.length > 0 ? `👃 You smell ${sniffed.length} hidden walnut${sniffed.length === 1 ? '' : 's'} nearby!` : '👃 No hidden walnuts nearby...');
+        } else if (data.powerUpType === 'FastDig') {
+          this.toastManager.info(`⛏️ Fast Dig active for ${Math.round(data.activeRemaining / 1000)}s!`);
+        } else if (data.powerUpType === 'DecoyNut' && data.decoy) {
+          this.createRemoteWalnut({
+            walnutId: data.decoy.walnutId,
+            ownerId: this.playerId,
+            walnutType: 'buried',
+            position: data.decoy.position,
+            points: 0,
+            isDecoy: true
+          });
+          this.toastManager.info('🎭 Decoy planted!');
+        }
+        break;
+
+      case 'powerup_rejected':
+        // MVP 18: Server rejected use_powerup (no charges, cooldown) - resync HUD
+        if (data.reason === 'no_charges') {
+          this.toastManager.warning('No charges left - power-ups refill daily!');
+        } else if (data.reason === 'cooldown') {
+          this.toastManager.warning('Power-up on cooldown!');
+          const existing = this.powerUps.get(data.powerUpType);
+          if (existing && typeof data.cooldownRemaining === 'number') {
+            existing.cooldownEndsAt = Date.now() + data.cooldownRemaining;
+          }
+        }
+        break;
+
+      case 'decoy_found':
+        // MVP 18: We dug up someone's DecoyNut
+        if (data.penalty > 0) {
+          this.toastManager.error(`🎭 It was a decoy! -${data.penalty} points`, 3000);
+        } else {
+          this.toastManager.info('🎭 It was a decoy!');
+        }
+        break;
+
+      case 'walnut_raided':
+        // MVP 18: Someone dug up one of our hidden walnuts
+        this.toastManager.warning(`🐿️ ${data.finderName} found your ${data.hiddenIn === 'bush' ? 'bush' : 'buried'} walnut!`);
+        if (this.raidLogVisible) {
+          this.updateRaidLog();
+        }
+        if (this.stashVisible || this.stashMarkers.has(data.walnutId)) {
+          this.requestStash();
+        }
+        break;
+
+      case 'stash_update': {
+        // MVP 18: Our walnuts this cycle - shift growth times onto our clock
+        const clockOffset = Date.now() - data.serverTime;
+        this.stash = data.walnuts.map(walnut => ({
+          ...walnut,
+          growsAt: walnut.growsAt === null ? null : walnut.growsAt + clockOffset
+        }));
+
+        // Drop markers for walnuts that are no longer hidden
+        for (const [walnutId, label] of this.stashMarkers) {
+          if (!this.stash.some(walnut => walnut.walnutId === walnutId && walnut.status === 'hidden')) {
+            label.remove();
+            this.stashMarkers.delete(walnutId);
+          }
+        }
+        this.renderStash();
+        break;
+      }
+
+      case 'decoy_triggered':
+        // MVP 18: Someone fell for our DecoyNut
+        this.removeWalnut(data.walnutId);
+        this.toastManager.success(`🎭 ${data.finderName || 'Someone'} fell for your decoy!`);
+        break;
+
+      case 'position_correction':
+        // MVP 18: Server rejected our movement (speed/teleport check) - snap back to server position
+        if (data.position && this.character) {
+          console.warn(`⚠️ Position corrected by server: ${data.reason}`);
+          this.character.position.set(data.position.x, data.position.y, data.position.z);
+          if (typeof data.rotationY === 'number') {
+            this.character.rotation.y = data.rotationY;
+          }
+          this.velocity.set(0, 0, 0);
+        }
+        break;
+
       case 'throw_rejected':
         // MVP 8: Server rejected throw (cooldown or no ammo)
         if (data.reason === 'cooldown') {
           this.toastManager.warning('Throw on cooldown!');
         } else if (data.reason === 'no_ammo') {
           this.toastManager.warning('No walnuts to throw!');
+        } else if (data.reason === 'invalid_position') {
+          this.toastManager.warning('Throw rejected!');
         }
         break;
 
@@ -2724,6 +3193,11 @@ export class Game {
         }
         break;
 
+      case 'error':
+        // MVP 18: Server rejected one of our messages (schema mismatch) - repeated errors get us disconnected
+        console.warn(`⚠️ Server rejected ${data.messageType ?? 'message'}: ${data.message} (${data.strikes} strikes)`);
+        break;
+
       case 'score_restored':
         // Server restored competitive score when exiting Carefree mode
         if (typeof data.score === 'number') {
@@ -2944,6 +3418,9 @@ export class Game {
         }
       });
 
+      // MVP 18: Hidden until the server streams this player to us (interest_enter)
+      remoteCharacter.visible = this.interestEntities.has(`player:${playerId}`);
+
       // Store all character data
       this.remotePlayers.set(playerId, remoteCharacter);
       this.remotePlayerMixers.set(playerId, remoteMixer);
@@ -3051,8 +3528,8 @@ export class Game {
       // Add new state and maintain buffer - industry standard cleanup
       buffer.push(newState);
 
-      // Remove states older than interpolation window + safety margin
-      const cutoffTime = newState.timestamp - (this.INTERPOLATION_DELAY + 100);
+      // Remove states older than interpolation window + one snapshot interval
+      const cutoffTime = newState.timestamp - (this.INTERPOLATION_DELAY + 200);
       while (buffer.length > 2 && buffer[0].timestamp < cutoffTime) {
         buffer.shift();
       }
@@ -3346,7 +3823,9 @@ export class Game {
   private updateNPCNameLabels(): void {
     for (const [npcId, label] of this.npcNameLabels) {
       const npc = this.npcs.get(npcId);
-      if (npc) {
+      if (npc && !npc.visible) {
+        label.style.display = 'none'; // MVP 18: Out of our area of interest
+      } else if (npc) {
         // MVP 9: Dynamic height adjustment based on distance to camera
         const distanceToCamera = this.camera.position.distanceTo(npc.position);
         let nameLabelYOffset = 2.5; // Default position above NPC's head
@@ -3563,6 +4042,9 @@ export class Game {
         }
       });
 
+      // MVP 18: Hidden until the server streams this NPC to us (interest_enter)
+      npcCharacter.visible = this.interestEntities.has(`npc:${npcId}`);
+
       // Store NPC data
       this.npcs.set(npcId, npcCharacter);
       this.npcMixers.set(npcId, npcMixer);
@@ -3959,7 +4441,6 @@ export class Game {
     const now = Date.now();
     const NEARBY_DISTANCE = 20.0; // Distance threshold for "nearby" sounds
     const NEARBY_SOUND_COOLDOWN = 5000; // 5 seconds between "nearby" sounds per predator
-    const ATTACK_COOLDOWN = 5000; // 5 seconds cooldown (generous - player can escape)
 
     // Update or create each predator
     predatorsData.forEach((data: any) => {
@@ -4035,43 +4516,7 @@ export class Game {
             cooldowns.nearby = now;
           }
 
-          // Predator attack (generous cooldown so player can escape)
-          if (data.state === 'attacking' && data.targetId === this.playerId && now - cooldowns.attack > ATTACK_COOLDOWN) {
-            const soundName = isAerial ? 'flying_predator_attack' : 'ground_predator_attack';
-            this.audioManager.playSound('combat', soundName);
-            cooldowns.attack = now;
-
-            // Reuse bump effect (spin + shake + particles) like player collisions
-            this.triggerBumpEffect();
-
-            // Additional screen shake for impactful hit
-            if (isAerial) {
-              // Aerial predators: Steal walnut + 10 HP damage
-              if (this.vfxManager) {
-                this.vfxManager.screenShake(0.2, 0.4);
-              }
-              this.toastManager.error('🦅 Aerial Attack! -1 walnut, -10 HP!', 2000);
-
-              // Apply damage
-              this.takeDamage(10, data.id);
-
-              // Steal walnut (if player has any)
-              if (this.walnutInventory > 0) {
-                this.walnutInventory = Math.max(0, this.walnutInventory - 1);
-                this.updateWalnutHUD();
-                this.updateMobileButtons();
-              }
-            } else {
-              // Ground predators: 30 HP damage (heavier hit)
-              if (this.vfxManager) {
-                this.vfxManager.screenShake(0.3, 0.6);
-              }
-              this.toastManager.error('🐃 Wildebeest Attack! -30 HP!', 2000);
-
-              // Apply damage
-              this.takeDamage(30, data.id);
-            }
-          }
+          // MVP 18: Attack damage/steals are server-authoritative (see entity_damaged / walnuts_stolen)
         }
 
         // Update animation based on state
@@ -4116,6 +4561,41 @@ export class Game {
     toRemove.forEach(id => this.removePredator(id));
   }
 
+  /**
+   * MVP 18: Show/hide an entity as it enters/leaves our server-side area of interest
+   * Out-of-interest entities get no updates, so they're hidden instead of frozen in place
+   */
+  private applyInterest(kind: string, id: string, inInterest: boolean, position?: { x: number; y: number; z: number }, rotationY?: number): void {
+    if (kind === 'predator') {
+      // Predators are (re)created by predators_update
+      if (!inInterest) {
+        this.removePredator(id);
+      }
+      return;
+    }
+
+    const entity = kind === 'player' ? this.remotePlayers.get(id) : this.npcs.get(id);
+    if (!entity) {
+      return; // Still loading - created with the right visibility
+    }
+
+    entity.visible = inInterest;
+    if (inInterest && position) {
+      // Snap to the server position instead of interpolating across the gap
+      const groundY = this.positionRemotePlayerOnGround(entity, position.x, position.z);
+      entity.position.set(position.x, groundY, position.z);
+      const quaternion = new THREE.Quaternion().setFromEuler(new THREE.Euler(0, rotationY ?? 0, 0));
+      entity.quaternion.copy(quaternion);
+
+      const state = { position: entity.position.clone(), quaternion, timestamp: Date.now() };
+      if (kind === 'player') {
+        this.remotePlayerBuffers.set(id, [state]);
+      } else {
+        this.npcInterpolationBuffers.set(id, [state]);
+      }
+    }
+  }
+
   /**
    * MVP 12: Remove predator from scene
    */
@@ -4198,31 +4678,17 @@ export class Game {
   /**
    * MVP 8: Handle projectile hitting an entity
    * This is called when ProjectileManager detects a hit
+   * MVP 18: Visual only - the server simulates the same throw and decides damage (entity_damaged)
+   * and where the walnut ends up (walnut_dropped)
    */
   private onProjectileHit(data: { projectileId: string; ownerId: string; targetId: string; position: THREE.Vector3; mesh: THREE.Group }): void {
 
     // MVP 11: Play hit sound
     this.audioManager.playSound('combat', 'walnut_hit');
 
-    // MVP 8: Send hit to server for validation and scoring (only if we're the attacker)
-    if (data.ownerId === this.playerId && this.websocket && this.websocket.readyState === WebSocket.OPEN) {
-      this.sendMessage({
-        type: 'player_hit',
-        targetId: data.targetId,
-        damage: this.PROJECTILE_DAMAGE,
-        position: data.position
-      });
-
-      // Show local feedback immediately (optimistic)
-      this.toastManager.success('HIT!');
-    }
-
     // MVP 8: Apply effects immediately (optimistic) - server will broadcast authoritative damage
     // This provides instant feedback while waiting for server validation
     if (data.targetId === this.playerId) {
-      // Client-side optimistic damage (server will send authoritative update)
-      this.takeDamage(this.PROJECTILE_DAMAGE, data.ownerId);
-
       // Visual/audio feedback
       this.triggerHitEffects();
 
@@ -4280,15 +4746,6 @@ export class Game {
     // MVP 12: Check if target is a wildebeest predator
     const predator = this.predators.get(data.targetId);
     if (predator && predator.userData?.type === 'wildebeest') {
-      // Send hit to server (only if we're the attacker)
-      if (data.ownerId === this.playerId && this.websocket && this.websocket.readyState === WebSocket.OPEN) {
-        this.sendMessage({
-          type: 'predator_hit',
-          predatorId: data.targetId,
-          damage: this.PROJECTILE_DAMAGE
-        });
-      }
-
       // Play hit animation if available
       if (this.predatorActions.has(data.targetId)) {
         const actions = this.predatorActions.get(data.targetId);
@@ -4311,62 +4768,14 @@ export class Game {
       }
     }
 
-    // BEST PRACTICE: Transform projectile mesh into pickup walnut (no destroy/recreate)
-    const walnutId = `dropped-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-    // MVP 8 FIX: Explicitly set all coordinates (not just Y) to prevent drift at close range
-    // At close range with fast projectiles, mesh position must match hit position exactly
-    const terrainHeight = getTerrainHeight(data.position.x, data.position.z);
-    const finalPosition = new THREE.Vector3(
-      data.position.x,
-      terrainHeight + (this.WALNUT_SIZE / 2), // Radius offset so bottom touches ground
-      data.position.z
-    );
-    data.mesh.position.copy(finalPosition);
-
-    // Stop spinning animation (projectile was spinning in flight)
-    data.mesh.rotation.set(0, 0, 0);
-
-    // Update metadata to convert from projectile to pickup
-    data.mesh.userData.id = walnutId;
-    data.mesh.userData.ownerId = 'game';
-    data.mesh.userData.type = 'ground';
-    data.mesh.userData.points = 1;
-    data.mesh.userData.clickPosition = data.mesh.position.clone();
-
-    // MVP 8 FIX: Add settling delay so walnut is visible before being pickupable
-    // Prevents instant auto-pickup at close range (looks like walnut disappeared)
-    data.mesh.userData.settlingUntil = Date.now() + 500; // 0.5 second visual settling time
-
-    // MVP 8: Immunity removed - thrower should be able to pick up (advantage over stunned target)
-    // Target is stunned for 1.5s anyway, so they can't pick it up during that time
-
-    // Add to walnuts registry (mesh already in scene from projectile)
-    this.walnuts.set(walnutId, data.mesh);
-
-    // Add label
-    const label = this.createLabel('Dropped Walnut (1 pt)', '#CD853F');
-    this.walnutLabels.set(walnutId, label);
-
-    // Notify server to sync with other clients
-    this.sendMessage({
-      type: 'spawn_dropped_walnut',
-      walnutId: walnutId, // CRITICAL FIX: Send OUR ID so server echoes it back (was missing, caused pickup bug)
-      position: {
-        x: data.mesh.position.x,
-        y: data.mesh.position.y,
-        z: data.mesh.position.z
-      }
-      // No immunity - settling delay handles visual timing instead
-    });
-
-    // TODO Phase 3: Apply damage to target
-    // TODO Phase 3: Send hit message to server for validation
+    // MVP 18: Server sends walnut_dropped at its own impact point - remove the flying walnut
+    this.scene.remove(data.mesh);
   }
 
   /**
    * MVP 8: Handle projectile missing (hit ground)
    * MVP 9: Also handles tree-dropped walnuts (reuses server ID, doesn't notify server)
+   * MVP 18: Thrown walnuts are visual only - the server sends walnut_dropped where its simulation landed
    * BEST PRACTICE: Transform projectile mesh into pickup walnut (no destroy/recreate)
    */
   private onProjectileMiss(data: { projectileId: string; ownerId: string; position: THREE.Vector3; mesh: THREE.Group }): void {
@@ -4375,17 +4784,17 @@ export class Game {
     this.audioManager.playSound('combat', 'walnut_miss');
 
     // MVP 9: Check if this is a tree walnut (has server-provided ID)
-    const isTreeWalnut = this.treeWalnutProjectiles.has(data.projectileId);
-    const walnutId = isTreeWalnut
-      ? this.treeWalnutProjectiles.get(data.projectileId)!
-      : `dropped-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const walnutId = this.treeWalnutProjectiles.get(data.projectileId);
+    if (!walnutId) {
+      // MVP 18: Thrown walnut - remove it, the pickup arrives via walnut_dropped
+      this.scene.remove(data.mesh);
+      return;
+    }
 
     // Cleanup tree walnut tracking
-    if (isTreeWalnut) {
-      this.treeWalnutProjectiles.delete(data.projectileId);
-    }
+    this.treeWalnutProjectiles.delete(data.projectileId);
 
-    // CRITICAL FIX: Explicitly set mesh position (same approach as onProjectileHit)
+    // CRITICAL FIX: Explicitly set mesh position
     // This ensures correct positioning for glow/pickup detection
     // Previously relied on ProjectileManager's position, but didn't verify/correct it
     const terrainHeight = getTerrainHeight(data.position.x, data.position.z);
@@ -4418,21 +4827,7 @@ export class Game {
     const label = this.createLabel('Dropped Walnut (1 pt)', '#CD853F');
     this.walnutLabels.set(walnutId, label);
 
-    // MVP 9: Only notify server for player-thrown walnuts, NOT tree walnuts
-    // (Server already knows about tree walnuts, notified all clients)
-    if (!isTreeWalnut) {
-      this.sendMessage({
-        type: 'spawn_dropped_walnut',
-        walnutId: walnutId, // Send OUR ID so server echoes it back
-        position: {
-          x: data.mesh.position.x,
-          y: data.mesh.position.y,
-          z: data.mesh.position.z
-        }
-        // No immunity for misses
-      });
-    }
-
+    // Server already knows about tree walnuts (no need to notify)
   }
 
   /**
@@ -4531,26 +4926,49 @@ export class Game {
       health: this.health
     });
 
-    // Check if player died
-    if (this.health <= 0) {
-      this.onDeath(attackerId);
-    }
+    // MVP 18: No local death at 0 health - wait for the server's player_death
 
     // Update health bar UI (will implement later)
     this.updateHealthUI();
   }
 
   /**
-   * MVP 8 Phase 3: Heal local player
-   * @param amount - Amount of health to restore
-   * @param fromEating - True if healing is from eating a walnut (plays healthboost sound), false for passive regen
+   * MVP 18: Effects for a server-resolved predator hit on the local player
+   * (health/inventory already applied from entity_damaged / walnuts_stolen)
    */
-  private heal(amount: number, fromEating: boolean = false): void {
-    if (this.isDead) return;
+  private showPredatorAttackFeedback(predatorType: string, damage: number): void {
+    const isAerial = predatorType === 'cardinal' || predatorType === 'toucan';
+    this.audioManager.playSound('combat', isAerial ? 'flying_predator_attack' : 'ground_predator_attack');
 
-    const oldHealth = this.health;
-    this.health = Math.min(this.MAX_HEALTH, this.health + amount);
-    const actualHeal = this.health - oldHealth;
+    // Reuse bump effect (spin + shake + particles) like player collisions
+    this.triggerBumpEffect();
+    if (this.vfxManager) {
+      this.vfxManager.screenShake(isAerial ? 0.2 : 0.3, isAerial ? 0.4 : 0.6);
+      if (this.character && damage > 0) {
+        const damagePosition = this.character.position.clone();
+        damagePosition.y += 2; // Show above player head
+        this.vfxManager.showDamageFloater(damage, damagePosition);
+      }
+    }
+
+    if (isAerial) {
+      this.toastManager.error(`🦅 Aerial Attack! -${damage} HP!`, 2000);
+    } else {
+      this.toastManager.error(`🐃 Wildebeest Attack! -${damage} HP!`, 2000);
+    }
+  }
+
+  /**
+   * MVP 8 Phase 3: Heal local player
+   * @param amount - Amount of health to restore
+   * @param fromEating - True if healing is from eating a walnut (plays healthboost sound), false for passive regen
+   */
+  private heal(amount: number, fromEating: boolean = false): void {
+    if (this.isDead) return;
+
+    const oldHealth = this.health;
+    this.health = Math.min(this.MAX_HEALTH, this.health + amount);
+    const actualHeal = this.health - oldHealth;
 
     if (actualHeal > 0) {
       // MVP 11: Only play health boost sound when eating walnuts, not passive regen
@@ -4651,6 +5069,7 @@ export class Game {
    */
   private respawnTimerId: number | null = null;
   private respawnCountdownInterval: number | null = null;
+  private serverRespawnPosition: { x: number; z: number } | null = null; // MVP 18: Respawn point from the server's player_respawn
   // MVP 16: Pause control for death screen
   private respawnPaused: boolean = false;
   private respawnTimeRemaining: number = 0;
@@ -4659,7 +5078,7 @@ export class Game {
    * MVP 16: Handle player death with new death screen
    * Fixed 10-second respawn timer with skip button
    */
-  private onDeath(killerId: string): void {
+  private onDeath(): void {
 
     this.isDead = true;
 
@@ -4738,25 +5157,6 @@ export class Game {
       this.showDeathOverlay();
     }
 
-    // Drop all walnuts at death location
-    if (this.walnutInventory > 0 && this.character) {
-      const dropPosition = this.character.position.clone();
-
-      this.sendMessage({
-        type: 'player_died',
-        killerId: killerId,
-        position: {
-          x: dropPosition.x,
-          y: dropPosition.y,
-          z: dropPosition.z
-        },
-        walnuts: this.walnutInventory
-      });
-
-      this.walnutInventory = 0;
-      this.updateWalnutHUD();
-    }
-
     // Start respawn timer (10 seconds)
     this.respawnTimerId = window.setTimeout(() => {
       this.respawn();
@@ -5168,13 +5568,9 @@ export class Game {
       this.health = this.MAX_HEALTH;
       this.isDead = false;
 
-      // Teleport to random spawn position (same as respawn() does)
+      // MVP 18: Move to the server's respawn point (same as respawn() does)
       if (this.character) {
-        const spawnX = (Math.random() - 0.5) * 300; // -150 to 150
-        const spawnZ = (Math.random() - 0.5) * 300; // -150 to 150
-        const spawnY = getTerrainHeight(spawnX, spawnZ) + 2; // 2 units above ground
-
-        this.character.position.set(spawnX, spawnY, spawnZ);
+        this.moveToServerRespawnPosition();
         // Explicitly reset rotation to ensure consistent orientation
         this.character.rotation.set(0, Math.PI, 0);
         this.velocity.set(0, 0, 0);
@@ -5228,6 +5624,19 @@ export class Game {
     }
   }
 
+  /**
+   * MVP 18: Place the local player at the server-chosen respawn point
+   * Does nothing until player_respawn has arrived - it snaps us there when it does
+   */
+  private moveToServerRespawnPosition(): void {
+    if (!this.character || !this.serverRespawnPosition) return;
+
+    const { x, z } = this.serverRespawnPosition;
+    this.character.position.set(x, getTerrainHeight(x, z) + 2, z); // 2 units above ground
+    this.velocity.set(0, 0, 0);
+    this.serverRespawnPosition = null;
+  }
+
   /**
    * MVP 16: Respawn player after death
    * Enhanced with random teleport and fade effects
@@ -5247,19 +5656,9 @@ export class Game {
     this.health = this.MAX_HEALTH;
     this.isDead = false;
 
-    // MVP 8 UX: Teleport to random location (avoid spawn camping)
+    // MVP 18: Teleport to the respawn point the server picked (the server ignores positions anywhere else)
     if (this.character) {
-      // Generate random spawn position within terrain bounds
-      const spawnX = (Math.random() - 0.5) * 300; // -150 to 150
-      const spawnZ = (Math.random() - 0.5) * 300; // -150 to 150
-      const spawnY = getTerrainHeight(spawnX, spawnZ) + 2; // 2 units above ground
-
-
-
-      this.character.position.set(spawnX, spawnY, spawnZ);
-
-      // Reset velocity
-      this.velocity.set(0, 0, 0);
+      this.moveToServerRespawnPosition();
 
       // BEST PRACTICE: Use centralized animation reset
       this.resetAnimationState();
@@ -5758,7 +6157,10 @@ export class Game {
       }
 
       // Add floating text label above the landmark (1.3x higher to clear tree canopy)
-      this.createLandmarkLabel(name, x, terrainY + 39, z);
+      const labelSprite = this.createLandmarkLabel(name, x, terrainY + 39, z);
+
+      // MVP 18: Re-ground if the forest's terrain seed arrives later
+      this.terrainAnchoredObjects.push({ object: tree, offset: 0 }, { object: labelSprite, offset: 39 });
     } catch (error) {
       console.error(`❌ Error creating landmark ${name}: `, error);
     }
@@ -5767,7 +6169,7 @@ export class Game {
   /**
    * Create a floating text label above a landmark (sprite-based, cartoony style)
    */
-  private createLandmarkLabel(text: string, x: number, y: number, z: number): void {
+  private createLandmarkLabel(text: string, x: number, y: number, z: number): THREE.Sprite {
     // Extract just the first letter
     const label = text.charAt(0);
 
@@ -5842,6 +6244,29 @@ export class Game {
     sprite.scale.set(6, 6, 1); // Smaller, more subtle
 
     this.scene.add(sprite);
+    return sprite;
+  }
+
+  /**
+   * MVP 18: Apply the forest's terrain seed (shared TerrainHeight with server)
+   * Reshapes the terrain mesh and re-grounds landmarks created at startup
+   */
+  private applyTerrainSeed(seed: number): void {
+    if (!setTerrainSeed(seed)) {
+      return;
+    }
+
+    if (this.terrain) {
+      updateTerrainMesh(this.terrain);
+    }
+
+    for (const { object, offset } of this.terrainAnchoredObjects) {
+      object.position.y = getTerrainHeight(object.position.x, object.position.z) + offset;
+    }
+
+    for (const position of this.landmarks.values()) {
+      position.y = getTerrainHeight(position.x, position.z);
+    }
   }
 
   // INDUSTRY STANDARD: Asset caching methods with proper SkinnedMesh cloning
@@ -6045,6 +6470,42 @@ export class Game {
     }
   }
 
+  /**
+   * MVP 18: Show end-of-cycle settlement (unfound walnut + first finder bonuses)
+   */
+  private showSettlementSummary(summary: { unfoundWalnuts: number; firstFinderBonus: number; totalPoints: number; cycles?: number }, heading: string): void {
+    const parts: string[] = [];
+    if (summary.unfoundWalnuts > 0) {
+      parts.push(`${summary.unfoundWalnuts} of your hidden walnut${summary.unfoundWalnuts === 1 ? '' : 's'} stayed hidden`);
+    }
+    if (summary.firstFinderBonus > 0) {
+      parts.push('you were the first finder');
+    }
+    const cyclesText = summary.cycles && summary.cycles > 1 ? ` (${summary.cycles} cycles)` : '';
+    const message = `${heading}${cyclesText}: ${parts.join(' and ')}!`;
+
+    this.overlayManager.enqueue(
+      'cycle_settlement',
+      OverlayPriority.MEDIUM,
+      () => this.bonusOverlay.show(message, summary.totalPoints, 0),
+      4000 // Duration from BonusOverlay
+    );
+  }
+
+  /**
+   * MVP 18: Show participation multiplier next to score
+   */
+  private updateMultiplierDisplay(nextStepInSeconds: number | null): void {
+    const multiplierEl = document.getElementById('player-multiplier');
+    if (!multiplierEl) return;
+
+    multiplierEl.textContent = `x${this.scoreMultiplier.toFixed(1)}`;
+    multiplierEl.classList.toggle('boosted', this.scoreMultiplier > 1.0);
+    multiplierEl.title = nextStepInSeconds
+      ? `Points multiplier - next +0.1x after ${Math.ceil(nextStepInSeconds / 60)} more min of active play`
+      : 'Points multiplier - maxed out!';
+  }
+
   /**
    * Update score display with visual feedback for Carefree mode
    */
@@ -6297,7 +6758,9 @@ export class Game {
   private updateRemotePlayerNameLabels(): void {
     for (const [playerId, label] of this.remotePlayerNameLabels) {
       const player = this.remotePlayers.get(playerId);
-      if (player) {
+      if (player && !player.visible) {
+        label.style.display = 'none'; // MVP 18: Out of our area of interest
+      } else if (player) {
         // MVP 9: Dynamic height adjustment based on distance to camera
         const distanceToCamera = this.camera.position.distanceTo(player.position);
         let nameLabelYOffset = 2.5; // Default position above player's head
@@ -6321,7 +6784,9 @@ export class Game {
   private updateRemotePlayerHealthBars(): void {
     for (const [playerId, healthBar] of this.remotePlayerHealthBars) {
       const player = this.remotePlayers.get(playerId);
-      if (player) {
+      if (player && !player.visible) {
+        healthBar.container.style.display = 'none'; // MVP 18: Out of our area of interest
+      } else if (player) {
         // MVP 9: Dynamic height adjustment based on distance to camera
         const distanceToCamera = this.camera.position.distanceTo(player.position);
         let healthBarYOffset = 2.0; // Default position below username
@@ -6351,7 +6816,9 @@ export class Game {
   private updateNPCHealthBars(): void {
     for (const [npcId, healthBar] of this.npcHealthBars) {
       const npc = this.npcs.get(npcId);
-      if (npc) {
+      if (npc && !npc.visible) {
+        healthBar.container.style.display = 'none'; // MVP 18: Out of our area of interest
+      } else if (npc) {
         // MVP 9: Dynamic height adjustment based on distance to camera
         const distanceToCamera = this.camera.position.distanceTo(npc.position);
         let healthBarYOffset = 2.0; // Default position below username
@@ -7067,8 +7534,43 @@ export class Game {
       ctx.fill();
     }
 
+    // MVP 18: Draw ScentSniff markers (pulsing orange rings until the sniff wears off)
+    this.scentMarkers = this.scentMarkers.filter(marker => now < marker.expiresAt);
+    const scentPulse = 3 + Math.sin(now / 150) * 1.5;
+    for (const marker of this.scentMarkers) {
+      const pos = worldToMinimap(marker.x, marker.z);
+
+      // Only draw if within bounds
+      if (pos.x < 0 || pos.x > size || pos.y < 0 || pos.y > size) continue;
+
+      ctx.strokeStyle = '#FFA500'; // Orange
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(pos.x, pos.y, scentPulse, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    // MVP 18: Draw our marked stash walnuts (gold pins, only we know where they are)
+    for (const walnutId of this.stashMarkers.keys()) {
+      const walnut = this.stash.find(w => w.walnutId === walnutId);
+      if (!walnut) continue;
+      const pos = worldToMinimap(walnut.position.x, walnut.position.z);
+
+      // Only draw if within bounds
+      if (pos.x < 0 || pos.x > size || pos.y < 0 || pos.y > size) continue;
+
+      ctx.fillStyle = '#FFD700'; // Gold
+      ctx.beginPath();
+      ctx.arc(pos.x, pos.y, 4, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.strokeStyle = '#8B4513'; // Walnut brown
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+    }
+
     // Draw remote players
     for (const [_playerId, remotePlayer] of this.remotePlayers) {
+      if (!remotePlayer.visible) continue; // MVP 18: Stale position outside our area of interest
       const pos = worldToMinimap(remotePlayer.position.x, remotePlayer.position.z);
 
       // Only draw if within minimap bounds
@@ -7086,6 +7588,7 @@ export class Game {
 
     // MVP 7: Draw NPCs on minimap (Gray for bots)
     for (const [_npcId, npc] of this.npcs) {
+      if (!npc.visible) continue; // MVP 18: Stale position outside our area of interest
       const pos = worldToMinimap(npc.position.x, npc.position.z);
 
       // Only draw if within minimap bounds
@@ -7254,7 +7757,8 @@ export class Game {
     const playerPos = this.character.position.clone();
     const terrainY = getTerrainHeight(playerPos.x, playerPos.z);
 
-    const walnutId = `player - ${this.playerId} -${Date.now()} `;
+    // MVP 18: Placeholder id - server sends the real walnut id back in hide_confirmed
+    const walnutId = `pending-hide-${Date.now()}`;
     const BUSH_PROXIMITY_THRESHOLD = 2; // Units - player must be very close to bush to hide in it
 
     let walnutGroup: THREE.Group;
@@ -7314,8 +7818,7 @@ export class Game {
     // MULTIPLAYER: Send to server for sync
     this.sendMessage({
       type: 'walnut_hidden',
-      walnutId: walnutId,
-      ownerId: this.playerId,
+      clientWalnutId: walnutId,
       walnutType: walnutGroup.userData.type,
       position: {
         x: walnutGroup.position.x,
@@ -7583,6 +8086,145 @@ export class Game {
     this.toastManager.success('+25 HP!');
   }
 
+  /**
+   * MVP 18: Show world event banner, event music and sky tint
+   */
+  private startWorldEvent(data: { eventType: string; remainingMs: number; pointsMultiplier: number }, announce: boolean): void {
+    const wasActive = this.activeEvent !== null;
+    this.activeEvent = {
+      eventType: data.eventType,
+      endsAt: Date.now() + data.remainingMs,
+      pointsMultiplier: data.pointsMultiplier
+    };
+
+    document.getElementById('event-banner')?.classList.remove('hidden');
+    const multiplierEl = document.getElementById('event-banner-multiplier');
+    if (multiplierEl) {
+      multiplierEl.textContent = `${data.pointsMultiplier}x`;
+    }
+    this.eventBannerLastText = '';
+
+    if (!wasActive) {
+      this.audioManager.startEventMusic();
+      this.skyManager?.setSkyTint(this.NUT_RUSH_SKY_TINT);
+    }
+    if (announce) {
+      this.toastManager.success(`🌰 NUT RUSH! Walnuts are raining from the trees - ${data.pointsMultiplier}x points!`, 5000);
+    }
+  }
+
+  /**
+   * MVP 18: Hide world event banner and restore music/sky
+   */
+  private endWorldEvent(): void {
+    this.activeEvent = null;
+    document.getElementById('event-banner')?.classList.add('hidden');
+    this.audioManager.stopEventMusic();
+    this.skyManager?.setSkyTint(null);
+  }
+
+  /**
+   * MVP 18: Update event countdown (called every frame, DOM only touched once per second)
+   * Server sends event_ended - banner just sits at 0:00 until it arrives
+   */
+  private updateEventBanner(): void {
+    if (!this.activeEvent) return;
+
+    const remainingSeconds = Math.max(0, Math.ceil((this.activeEvent.endsAt - Date.now()) / 1000));
+    const text = `${Math.floor(remainingSeconds / 60)}:${String(remainingSeconds % 60).padStart(2, '0')}`;
+    if (text === this.eventBannerLastText) return;
+    this.eventBannerLastText = text;
+
+    const countdownEl = document.getElementById('event-banner-countdown');
+    if (countdownEl) {
+      countdownEl.textContent = text;
+    }
+  }
+
+  /**
+   * MVP 18: Request a power-up activation (server validates charges/cooldown)
+   * Local checks only avoid pointless requests - server state is authoritative
+   */
+  private usePowerUp(powerUpType: string): void {
+    if (this.isDead) {
+      this.toastManager.warning('Cannot use power-ups while dead!');
+      return;
+    }
+
+    const state = this.powerUps.get(powerUpType);
+    if (state) {
+      if (state.charges <= 0) {
+        this.toastManager.warning('No charges left - power-ups refill daily!');
+        return;
+      }
+      const cooldownRemaining = state.cooldownEndsAt - Date.now();
+      if (cooldownRemaining > 0) {
+        this.toastManager.warning(`Power-up ready in ${Math.ceil(cooldownRemaining / 1000)}s`);
+        return;
+      }
+    }
+
+    this.sendMessage({
+      type: 'use_powerup',
+      powerUpType
+    });
+  }
+
+  /**
+   * MVP 18: Store server power-up state (remaining times converted to local timestamps)
+   */
+  private applyPowerUpState(powerUpType: string, charges: number, cooldownRemaining: number, activeRemaining: number): void {
+    const now = Date.now();
+    this.powerUps.set(powerUpType, {
+      charges,
+      cooldownEndsAt: now + (cooldownRemaining || 0),
+      activeEndsAt: now + (activeRemaining || 0)
+    });
+  }
+
+  /**
+   * MVP 18: Check if a timed power-up (ScentSniff, FastDig) is currently running
+   */
+  private isPowerUpActive(powerUpType: string): boolean {
+    const state = this.powerUps.get(powerUpType);
+    return !!state && Date.now() < state.activeEndsAt;
+  }
+
+  /**
+   * MVP 18: Update power-up buttons (charges, cooldown countdown, active glow)
+   * Called every frame - only touches DOM when the displayed text changes
+   */
+  private updatePowerUpHUD(): void {
+    if (this.powerUps.size === 0) return;
+
+    const now = Date.now();
+    const display: Record<string, { text: string; ready: boolean; active: boolean }> = {};
+    for (const [powerUpType, state] of this.powerUps) {
+      const cooldownRemaining = state.cooldownEndsAt - now;
+      display[powerUpType] = {
+        text: cooldownRemaining > 0 ? `${Math.ceil(cooldownRemaining / 1000)}s` : `${state.charges}`,
+        ready: state.charges > 0 && cooldownRemaining <= 0,
+        active: now < state.activeEndsAt
+      };
+    }
+
+    const displayText = JSON.stringify(display);
+    if (displayText === this.powerUpHudLastText) return;
+    this.powerUpHudLastText = displayText;
+
+    document.querySelectorAll<HTMLElement>('.powerup-btn').forEach(button => {
+      const info = button.dataset.powerup ? display[button.dataset.powerup] : undefined;
+      if (!info) return;
+
+      const status = button.querySelector('.powerup-status');
+      if (status) {
+        status.textContent = info.text;
+      }
+      button.style.opacity = info.ready || info.active ? '1' : '0.5';
+      button.classList.toggle('active', info.active);
+    });
+  }
+
 
 
   /**
@@ -7654,6 +8296,30 @@ export class Game {
     });
   }
 
+  /**
+   * MVP 18: Re-key a walnut (and its label/glow) under a new id
+   */
+  private renameWalnut(oldId: string, newId: string): void {
+    const walnutGroup = this.walnuts.get(oldId);
+    if (!walnutGroup) return;
+
+    walnutGroup.userData.id = newId;
+    this.walnuts.delete(oldId);
+    this.walnuts.set(newId, walnutGroup);
+
+    const label = this.walnutLabels.get(oldId);
+    if (label) {
+      this.walnutLabels.delete(oldId);
+      this.walnutLabels.set(newId, label);
+    }
+
+    const bushGlow = this.bushGlows.get(oldId);
+    if (bushGlow) {
+      this.bushGlows.delete(oldId);
+      this.bushGlows.set(newId, bushGlow);
+    }
+  }
+
   /**
    * MVP 3: Remove a walnut from the world (when found)
    */
@@ -7904,6 +8570,20 @@ export class Game {
       this.toastManager.success(`+ ${points} points!`);
     }
 
+    // MVP 18: Remember walnut so it can be restored if the server rejects the find
+    for (const [pendingId, pending] of this.pendingFinds) {
+      if (now - pending.timestamp > this.PENDING_FIND_TIMEOUT) {
+        this.pendingFinds.delete(pendingId);
+      }
+    }
+    this.pendingFinds.set(walnutId, {
+      ownerId: walnutGroup.userData.ownerId,
+      walnutType: walnutGroup.userData.type,
+      position: { x: walnutGroup.position.x, y: walnutGroup.position.y, z: walnutGroup.position.z },
+      points: points,
+      timestamp: now
+    });
+
     // Remove the walnut from the world
     this.removeWalnut(walnutId);
 
@@ -7912,14 +8592,16 @@ export class Game {
     // Play eat animation for ~1 second, blocks movement briefly
     if (this.actions['eat']) {
       const eatAction = this.actions['eat'];
-      eatAction.timeScale = 1.0; // Normal speed
+      // MVP 18: FastDig power-up plays the dig faster
+      const isFastDig = this.isPowerUpActive('FastDig');
+      eatAction.timeScale = isFastDig ? 1000 / this.FAST_DIG_DURATION : 1.0;
 
       // Stop current movement (eating should feel deliberate)
       this.velocity.set(0, 0, 0);
 
       // Use ACTION priority with movement blocking (same as manual eat)
       // Fixed 1s duration - animation plays, then player can continue if W still held
-      this.requestAnimation('eat', this.ANIM_PRIORITY_ACTION, 1000, true);
+      this.requestAnimation('eat', this.ANIM_PRIORITY_ACTION, isFastDig ? this.FAST_DIG_DURATION : 1000, true);
     }
 
     // MULTIPLAYER: Send to server for sync
@@ -7944,6 +8626,7 @@ export class Game {
     walnutType: string;
     position: { x: number; y: number; z: number };
     points: number;
+    isDecoy?: boolean; // MVP 18: Only ever set for our own DecoyNuts
   }): void {
     // Don't create if already exists
     if (this.walnuts.has(data.walnutId)) {
@@ -7963,7 +8646,7 @@ export class Game {
     switch (data.walnutType) {
       case 'buried':
         walnutGroup = this.createBuriedWalnutVisual(position);
-        labelText = data.ownerId === this.playerId ? 'Your Buried Walnut (3 pts)' : `Buried Walnut(3 pts)`;
+        labelText = data.isDecoy ? 'Your Decoy Nut' : data.ownerId === this.playerId ? 'Your Buried Walnut (3 pts)' : `Buried Walnut(3 pts)`;
         labelColor = '#8B4513';
         break;
 
@@ -8078,38 +8761,45 @@ export class Game {
       }
     });
 
-    // MVP 9: Tab switching for All-Time vs Weekly
-    const weeklyTab = leaderboardDiv.querySelector('[data-tab="weekly"]') as HTMLElement;
-    const alltimeTab = leaderboardDiv.querySelector('[data-tab="alltime"]') as HTMLElement;
-
-    if (weeklyTab && alltimeTab) {
+    // MVP 9: Tab switching for All-Time vs Weekly (MVP 18: + Daily)
+    const tabs = Array.from(leaderboardDiv.querySelectorAll<HTMLElement>('.leaderboard-tab'));
 
-      // Set weekly as default active tab
-      weeklyTab.classList.add('active');
+    if (tabs.length > 0) {
+      for (const tab of tabs) {
+        const tabType = tab.dataset.tab as 'daily' | 'weekly' | 'alltime';
 
-      // Weekly tab pointerdown handler
-      weeklyTab.addEventListener('click', () => {
+        // Set weekly as default active tab
+        tab.classList.toggle('active', tabType === this.currentLeaderboardTab);
 
-        if (this.currentLeaderboardTab !== 'weekly') {
-          this.currentLeaderboardTab = 'weekly';
-          weeklyTab.classList.add('active');
-          alltimeTab.classList.remove('active');
-          this.updateLeaderboard();
-        }
-      });
+        tab.addEventListener('click', () => {
+          if (this.currentLeaderboardTab !== tabType) {
+            this.currentLeaderboardTab = tabType;
+            for (const other of tabs) {
+              other.classList.toggle('active', other === tab);
+            }
+            this.updateLeaderboard();
+          }
+        });
+      }
+    } else {
+      console.error('❌ [initLeaderboard] Tab elements not found');
+    }
 
-      // All-time tab pointerdown handler
-      alltimeTab.addEventListener('click', () => {
+    // MVP 18: Category switching (score, knockouts, trees, found, hidden, K/D)
+    const categoryTabs = Array.from(leaderboardDiv.querySelectorAll<HTMLElement>('.leaderboard-category'));
+    for (const categoryTab of categoryTabs) {
+      const category = categoryTab.dataset.category as Game['currentLeaderboardCategory'];
+      categoryTab.classList.toggle('active', category === this.currentLeaderboardCategory);
 
-        if (this.currentLeaderboardTab !== 'alltime') {
-          this.currentLeaderboardTab = 'alltime';
-          alltimeTab.classList.add('active');
-          weeklyTab.classList.remove('active');
+      categoryTab.addEventListener('click', () => {
+        if (this.currentLeaderboardCategory !== category) {
+          this.currentLeaderboardCategory = category;
+          for (const other of categoryTabs) {
+            other.classList.toggle('active', other === categoryTab);
+          }
           this.updateLeaderboard();
         }
       });
-    } else {
-      console.error('❌ [initLeaderboard] Tab elements not found');
     }
 
     // Click/tap outside to dismiss leaderboard (user-requested feature)
@@ -8150,8 +8840,9 @@ export class Game {
     try {
       // MVP 9/16: Fetch leaderboard data based on selected tab (weekly or all-time)
       const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:8787';
-      const leaderboardType = this.currentLeaderboardTab; // 'weekly' or 'alltime'
-      const endpoint = `${apiUrl}/api/leaderboard/top?limit=10&type=${leaderboardType}`;
+      const leaderboardType = this.currentLeaderboardTab; // 'daily', 'weekly' or 'alltime'
+      const category = this.currentLeaderboardCategory; // MVP 18
+      const endpoint = `${apiUrl}/api/leaderboard/top?limit=10&type=${leaderboardType}&category=${category}`;
 
 
 
@@ -8181,6 +8872,7 @@ export class Game {
               ? (this.username ? `You (${this.username})` : 'You')
               : (entry.displayName || entry.playerId), // MVP 17: Show display name
             score: entry.score,
+            value: entry.value ?? entry.score, // MVP 18: Stat the selected category ranks by
             isAuthenticated: entry.isAuthenticated || false, // MVP 16: Auth status
             emailVerified: entry.emailVerified || false, // MVP 16: Verification status
             characterId: entry.characterId || 'squirrel' // MVP 16: Character used
@@ -8224,7 +8916,7 @@ export class Game {
         li.innerHTML = `
             <span class="leaderboard-rank">#${index + 1}</span>
             <span class="leaderboard-name">${badge}${entry.displayName}</span>
-            <span class="leaderboard-score">${entry.score}</span>
+            <span class="leaderboard-score">${this.formatLeaderboardValue(entry.value)}</span>
           `;
 
         leaderboardList.appendChild(li);
@@ -8245,7 +8937,7 @@ export class Game {
 
 
 
-          const rankResponse = await fetch(`${apiUrl}/api/leaderboard/player?playerId=${effectivePlayerId}&type=${this.currentLeaderboardTab}`);
+          const rankResponse = await fetch(`${apiUrl}/api/leaderboard/player?playerId=${effectivePlayerId}&type=${this.currentLeaderboardTab}&category=${category}`);
           if (rankResponse.ok) {
             const playerEntry = await rankResponse.json();
 
@@ -8273,7 +8965,7 @@ export class Game {
               playerLi.innerHTML = `
                   <span class="leaderboard-rank">#${playerEntry.rank}</span>
                   <span class="leaderboard-name">${playerBadge}You (${this.username || 'Player'})</span>
-                  <span class="leaderboard-score">${playerEntry.score}</span>
+                  <span class="leaderboard-score">${this.formatLeaderboardValue(playerEntry.value ?? playerEntry.score)}</span>
                 `;
 
               leaderboardList.appendChild(playerLi);
@@ -8310,6 +9002,293 @@ export class Game {
     }
   }
 
+  /**
+   * MVP 18: Leaderboard value for the selected category (K/D is a ratio, everything else a count)
+   */
+  private formatLeaderboardValue(value: number): string {
+    return this.currentLeaderboardCategory === 'kd' ? value.toFixed(2) : String(value);
+  }
+
+  /**
+   * MVP 18: Initialize the raid log panel (who dug up our hidden walnuts)
+   */
+  private initRaidLog(): void {
+    if (this.raidLogInitialized) {
+      return;
+    }
+
+    const toggleButton = document.getElementById('raid-log-toggle');
+    const raidLogDiv = document.getElementById('raid-log');
+    if (!toggleButton || !raidLogDiv) {
+      console.error('❌ [initRaidLog] Raid log elements not found in DOM');
+      return;
+    }
+
+    toggleButton.classList.remove('hidden');
+
+    toggleButton.addEventListener('click', () => {
+      this.raidLogVisible = !this.raidLogVisible;
+      if (this.raidLogVisible) {
+        raidLogDiv.classList.remove('hidden');
+        this.updateRaidLog();
+      } else {
+        raidLogDiv.classList.add('hidden');
+      }
+    });
+
+    // Click/tap outside to dismiss (same as leaderboard)
+    const dismissRaidLog = (event: Event) => {
+      const target = event.target as HTMLElement;
+      if (this.raidLogVisible &&
+        !raidLogDiv.contains(target) &&
+        !toggleButton.contains(target)) {
+        this.raidLogVisible = false;
+        raidLogDiv.classList.add('hidden');
+      }
+    };
+    document.addEventListener('click', dismissRaidLog);
+    document.addEventListener('touchend', dismissRaidLog);
+
+    this.raidLogInitialized = true;
+  }
+
+  /**
+   * MVP 18: Fetch and render our raid log from PlayerIdentity
+   */
+  private async updateRaidLog(): Promise<void> {
+    const raidLogList = document.getElementById('raid-log-list');
+    if (!raidLogList) return;
+
+    const showMessage = (message: string) => {
+      raidLogList.innerHTML = '';
+      const li = document.createElement('li');
+      li.className = 'raid-log-empty';
+      li.textContent = message;
+      raidLogList.appendChild(li);
+    };
+
+    if (!this.username || this.username === 'Anonymous') {
+      showMessage('Pick a username to keep a raid log.');
+      return;
+    }
+
+    try {
+      const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:8787';
+      const response = await fetch(`${apiUrl}/api/identity?action=getRaids&username=${encodeURIComponent(this.username)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionToken: this.sessionToken })
+      });
+      if (!response.ok) {
+        console.error(`❌ Raid log fetch failed (${response.status} ${response.statusText})`);
+        showMessage('Raid log unavailable right now.');
+        return;
+      }
+
+      const data = await response.json() as {
+        raids: Array<{ walnutId: string; hiddenIn: 'buried' | 'bush'; finderName: string; points: number; timestamp: number }>;
+      };
+      if (data.raids.length === 0) {
+        showMessage('Nobody has found your walnuts yet.');
+        return;
+      }
+
+      raidLogList.innerHTML = '';
+      for (const raid of data.raids) {
+        const li = document.createElement('li');
+
+        const name = document.createElement('span');
+        name.className = 'raid-log-name';
+        // textContent - finder names are player-chosen
+        name.textContent = `${raid.hiddenIn === 'bush' ? '🌿' : '🕳️'} ${raid.finderName}`;
+
+        const time = document.createElement('span');
+        time.className = 'raid-log-time';
+        time.textContent = this.formatRaidTime(raid.timestamp);
+
+        const points = document.createElement('span');
+        points.className = 'raid-log-points';
+        // Points the finder earned - the owner's score is untouched
+        points.textContent = `+${raid.points} pts`;
+        points.title = `${raid.finderName} earned ${raid.points} points`;
+
+        li.append(name, time, points);
+        raidLogList.appendChild(li);
+      }
+    } catch (error) {
+      console.error('❌ Failed to update raid log:', error);
+      showMessage('Raid log unavailable right now.');
+    }
+  }
+
+  /**
+   * MVP 18: Short relative time for raid log entries ("just now", "5m ago", "3h ago", "2d ago")
+   */
+  private formatRaidTime(timestamp: number): string {
+    const minutes = Math.floor((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ago`;
+    return `${Math.floor(hours / 24)}d ago`;
+  }
+
+  /**
+   * MVP 18: Initialize the "My Stash" journal (every walnut we hid this cycle)
+   */
+  private initStash(): void {
+    if (this.stashInitialized) {
+      return;
+    }
+
+    const toggleButton = document.getElementById('stash-toggle');
+    const stashDiv = document.getElementById('stash-journal');
+    if (!toggleButton || !stashDiv) {
+      console.error('❌ [initStash] Stash journal elements not found in DOM');
+      return;
+    }
+
+    toggleButton.classList.remove('hidden');
+
+    toggleButton.addEventListener('click', () => {
+      this.stashVisible = !this.stashVisible;
+      if (this.stashVisible) {
+        stashDiv.classList.remove('hidden');
+        this.requestStash();
+      } else {
+        stashDiv.classList.add('hidden');
+      }
+    });
+
+    // Click/tap outside to dismiss (same as leaderboard)
+    const dismissStash = (event: Event) => {
+      const target = event.target as HTMLElement;
+      if (this.stashVisible &&
+        !stashDiv.contains(target) &&
+        !toggleButton.contains(target)) {
+        this.stashVisible = false;
+        stashDiv.classList.add('hidden');
+      }
+    };
+    document.addEventListener('click', dismissStash);
+    document.addEventListener('touchend', dismissStash);
+
+    this.stashInitialized = true;
+  }
+
+  /**
+   * MVP 18: Ask the server for our stash (answered with stash_update)
+   */
+  private requestStash(): void {
+    this.sendMessage({ type: 'stash_request' });
+  }
+
+  /**
+   * MVP 18: Render the stash journal from the last stash_update
+   */
+  private renderStash(): void {
+    const stashList = document.getElementById('stash-list');
+    if (!stashList) return;
+
+    stashList.innerHTML = '';
+
+    if (this.stash.length === 0) {
+      const li = document.createElement('li');
+      li.className = 'stash-empty';
+      li.textContent = 'You haven\'t hidden any walnuts this cycle.';
+      stashList.appendChild(li);
+      return;
+    }
+
+    for (const walnut of this.stash) {
+      const li = document.createElement('li');
+
+      const type = document.createElement('span');
+      type.className = 'stash-type';
+      type.textContent = walnut.hiddenIn === 'bush' ? '🌿 Bush' : '🕳️ Buried';
+
+      const status = document.createElement('span');
+      status.className = `stash-status stash-status-${walnut.status}`;
+      status.dataset.walnutId = walnut.walnutId;
+      status.textContent = this.getStashStatusText(walnut);
+
+      li.append(type, status);
+
+      // Only walnuts still in the ground can be marked
+      if (walnut.status === 'hidden') {
+        const markerButton = document.createElement('button');
+        markerButton.className = 'stash-marker-btn';
+        markerButton.classList.toggle('active', this.stashMarkers.has(walnut.walnutId));
+        markerButton.textContent = '📍';
+        markerButton.title = 'Show on minimap and in the world';
+        markerButton.addEventListener('click', () => {
+          this.toggleStashMarker(walnut.walnutId);
+          markerButton.classList.toggle('active', this.stashMarkers.has(walnut.walnutId));
+        });
+        li.appendChild(markerButton);
+      }
+
+      stashList.appendChild(li);
+    }
+  }
+
+  /**
+   * MVP 18: Status line for a stash entry ("grows in 0:42", "found by X", ...)
+   */
+  private getStashStatusText(walnut: ServerMessageOf<'stash_update'>['walnuts'][number]): string {
+    if (walnut.status === 'grown') return '🌳 Grew into a tree';
+    if (walnut.status === 'found') return `Found by ${walnut.foundByName || 'someone'}`;
+    if (walnut.growsAt === null) return 'Hidden';
+
+    const remainingSeconds = Math.ceil((walnut.growsAt - Date.now()) / 1000);
+    if (remainingSeconds <= 0) return '🌱 Ready to grow';
+    return `🌱 Grows in ${Math.floor(remainingSeconds / 60)}:${String(remainingSeconds % 60).padStart(2, '0')}`;
+  }
+
+  /**
+   * MVP 18: Show/hide the owner-only minimap pin and world marker for one of our walnuts
+   */
+  private toggleStashMarker(walnutId: string): void {
+    const existing = this.stashMarkers.get(walnutId);
+    if (existing) {
+      existing.remove();
+      this.stashMarkers.delete(walnutId);
+      return;
+    }
+
+    this.stashMarkers.set(walnutId, this.createLabel('📍', '#FFD700'));
+  }
+
+  /**
+   * MVP 18: Per-frame stash upkeep - world markers follow the camera, countdowns tick
+   */
+  private updateStashMarkers(): void {
+    if (this.stashMarkers.size === 0 && !this.stashVisible) return;
+
+    for (const [walnutId, label] of this.stashMarkers) {
+      const walnut = this.stash.find(w => w.walnutId === walnutId);
+      if (!walnut) continue;
+
+      const text = `📍 ${this.getStashStatusText(walnut)}`;
+      if (label.textContent !== text) {
+        label.textContent = text;
+      }
+      this.updateLabelPosition(label, new THREE.Vector3(walnut.position.x, walnut.position.y + 1.5, walnut.position.z));
+    }
+
+    if (this.stashVisible) {
+      const statusEls = document.querySelectorAll<HTMLElement>('#stash-list .stash-status-hidden');
+      for (const statusEl of statusEls) {
+        const walnut = this.stash.find(w => w.walnutId === statusEl.dataset.walnutId);
+        if (!walnut) continue;
+        const text = this.getStashStatusText(walnut);
+        if (statusEl.textContent !== text) {
+          statusEl.textContent = text;
+        }
+      }
+    }
+  }
+
   /**
    * Initialize quick chat and emote systems
    */
@@ -4,6 +4,14 @@ import { VFXManager } from './VFXManager';
 import { AudioManager } from './AudioManager';
 import { CollisionSystem } from './CollisionSystem';
 import { getTerrainHeight } from './terrain.js';
+import {
+  PROJECTILE_GRAVITY,
+  PROJECTILE_FLIGHT_TIME,
+  PROJECTILE_HIT_RADIUS,
+  PROJECTILE_MAX_LIFETIME,
+  PROJECTILE_WALNUT_RADIUS,
+  getArcVelocity
+} from '@shared/ProjectilePhysics';
 
 /**
  * MVP 8: ProjectileManager
@@ -40,14 +48,15 @@ export class ProjectileManager {
   private collisionSystem: CollisionSystem | null = null;
 
   // Physics constants
-  private readonly GRAVITY = -9.8; // m/s²
-  private readonly FLIGHT_TIME = 0.5; // seconds (faster = flatter trajectory for easier hits)
-  private readonly MAX_LIFETIME = 5.0; // seconds (cleanup timeout)
-  private readonly HIT_RADIUS = 0.8; // units (collision detection radius - increased for easier hits)
+  // MVP 18: Arc parameters shared with the server simulation (shared/ProjectilePhysics.ts)
+  private readonly GRAVITY = PROJECTILE_GRAVITY; // m/s²
+  private readonly FLIGHT_TIME = PROJECTILE_FLIGHT_TIME; // seconds (faster = flatter trajectory for easier hits)
+  private readonly MAX_LIFETIME = PROJECTILE_MAX_LIFETIME; // seconds (cleanup timeout)
+  private readonly HIT_RADIUS = PROJECTILE_HIT_RADIUS; // units (collision detection radius - increased for easier hits)
   private readonly NEAR_MISS_RADIUS = 2.0; // units (radius for near-miss detection)
 
   // Ground physics constants (INDUSTRY STANDARD: Coulomb friction model + static threshold)
-  private readonly WALNUT_RADIUS = 0.06; // units
+  private readonly WALNUT_RADIUS = PROJECTILE_WALNUT_RADIUS; // units
   private readonly MAX_BOUNCES = 2;
   private readonly BOUNCE_DAMPING = 0.25;
   private readonly BOUNCE_THRESHOLD = 0.3; // m/s - minimum Y velocity to bounce
@@ -233,20 +242,9 @@ export class ProjectileManager {
     to: THREE.Vector3,
     flightTime: number
   ): THREE.Vector3 {
-    // Calculate horizontal displacement
-    const dx = to.x - from.x;
-    const dz = to.z - from.z;
-    const dy = to.y - from.y;
-
-    // Horizontal velocity (constant)
-    const vx = dx / flightTime;
-    const vz = dz / flightTime;
-
-    // Vertical velocity (accounting for gravity)
-    // vy = (dy - 0.5 * g * t²) / t
-    const vy = (dy - 0.5 * this.GRAVITY * flightTime * flightTime) / flightTime;
-
-    return new THREE.Vector3(vx, vy, vz);
+    // MVP 18: Same arc the server simulates
+    const velocity = getArcVelocity(from, to, flightTime);
+    return new THREE.Vector3(velocity.x, velocity.y, velocity.z);
   }
 
   /**
@@ -7,6 +7,7 @@
  * Features:
  * - Fixed sun position (warm, friendly atmosphere)
  * - 1-2 drifting clouds with random respawn
+ * - Event sky tint (MVP 18: golden sky during Nut Rush)
  * - Industry-standard THREE.Sprite billboard rendering
  */
 
@@ -43,6 +44,13 @@ export class SkyManager {
   private readonly CLOUD_SCALE_MIN = 60;
   private readonly CLOUD_SCALE_MAX = 100;
 
+  // MVP 18: Event sky tint (fades between normal sky and event color)
+  private readonly BASE_SKY_COLOR = new THREE.Color(0x87ceeb); // Matches Game scene background
+  private readonly TINT_FADE_SPEED = 0.5; // Full fade in 2 seconds
+  private tintColor: THREE.Color | null = null;
+  private tintAmount: number = 0; // 0 = normal sky, 1 = fully tinted
+  private tintTarget: number = 0;
+
   constructor(scene: THREE.Scene, textureLoader: THREE.TextureLoader) {
     this.scene = scene;
     this.textureLoader = textureLoader;
@@ -151,6 +159,8 @@ export class SkyManager {
   update(delta: number): void {
     const deltaMs = delta * 1000;
 
+    this.updateSkyTint(delta);
+
     // Update each cloud
     for (const cloud of this.clouds) {
       if (cloud.isActive) {
@@ -172,6 +182,43 @@ export class SkyManager {
     }
   }
 
+  /**
+   * MVP 18: Fade the sky toward an event color (null fades back to normal)
+   */
+  setSkyTint(color: THREE.ColorRepresentation | null): void {
+    if (color !== null) {
+      this.tintColor = new THREE.Color(color);
+      this.tintTarget = 1;
+    } else {
+      this.tintTarget = 0;
+    }
+  }
+
+  /**
+   * MVP 18: Blend scene background and cloud color toward the tint target
+   */
+  private updateSkyTint(delta: number): void {
+    if (this.tintAmount === this.tintTarget || !this.tintColor) return;
+
+    const step = this.TINT_FADE_SPEED * delta;
+    this.tintAmount = this.tintTarget > this.tintAmount
+      ? Math.min(this.tintTarget, this.tintAmount + step)
+      : Math.max(this.tintTarget, this.tintAmount - step);
+
+    if (this.scene.background instanceof THREE.Color) {
+      this.scene.background.copy(this.BASE_SKY_COLOR).lerp(this.tintColor, this.tintAmount);
+    }
+
+    const white = new THREE.Color(0xffffff);
+    const cloudColor = white.lerp(this.tintColor, this.tintAmount * 0.5);
+    for (const cloud of this.clouds) {
+      cloud.sprite.material.color.copy(cloudColor);
+    }
+    if (this.sun) {
+      this.sun.material.opacity = 0.9 + this.tintAmount * 0.1;
+    }
+  }
+
   /**
    * Spawn a cloud at the left edge with random properties
    */
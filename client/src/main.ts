@@ -475,6 +475,12 @@ async function main() {
       } else {
         console.log('ℹ️ [main.ts] control-guide element not found (expected - using contextual tips instead)');
       }
+
+      // MVP 18: Show power-up bar on desktop (mobile uses buttons in #mobile-actions)
+      const powerUpHud = document.getElementById('powerup-hud');
+      if (powerUpHud) {
+        powerUpHud.classList.remove('hidden');
+      }
     }
 
     // Show settings button after game starts
@@ -29,6 +29,10 @@ export class WebSocketService {
   public isConnecting: boolean = false;
   private accessToken: string | null = null;
 
+  // MVP 18: Session resume - reconnects reattach to our server-side connection and replay missed events
+  private resumeToken: string | null = null;
+  private lastEventSeq: number = 0;
+
   // Event handlers
   public onConnected?: () => void;
   public onDisconnected?: () => void;
@@ -39,6 +43,7 @@ export class WebSocketService {
   public onPlayerUpdate?: (player: RemotePlayer) => void;
   public onWorldState?: (data: any) => void;
   public onExistingPlayers?: (players: RemotePlayer[]) => void;
+  public onSessionResumed?: (missedEvents: number) => void;
 
   constructor(
     private squirrelId: string,
@@ -48,6 +53,7 @@ export class WebSocketService {
 
   setAccessToken(token: string | null): void {
     this.accessToken = token;
+    this.resumeToken = null; // MVP 18: New credentials = new session
   }
 
   // Connect to WebSocket server
@@ -68,6 +74,10 @@ export class WebSocketService {
         if (this.accessToken) {
           wsParams.set('accessToken', this.accessToken);
         }
+        if (this.resumeToken) {
+          wsParams.set('resumeToken', this.resumeToken);
+          wsParams.set('lastEventSeq', String(this.lastEventSeq));
+        }
 
         const url = `${this.serverUrl.replace('http:', 'ws:').replace('https:', 'wss:')}/ws?${wsParams.toString()}`;
         this.socket = new WebSocket(url);
@@ -145,13 +155,26 @@ export class WebSocketService {
 
   // Handle incoming messages
   private handleMessage(message: WebSocketMessage): void {
+    // MVP 18: Replay cursor for session resume
+    if (typeof message.eventSeq === 'number') {
+      this.lastEventSeq = message.eventSeq;
+    }
+
     this.onMessage?.(message);
 
     switch (message.type) {
       case 'world_state':
+        if (typeof message.resumeToken === 'string') {
+          this.resumeToken = message.resumeToken;
+        }
         this.onWorldState?.(message);
         break;
 
+      case 'session_resumed':
+        // Missed events follow as normal messages - no world_state on resume
+        this.onSessionResumed?.(message.missedEvents || 0);
+        break;
+
       case 'existing_players':
         this.onExistingPlayers?.(message.players || []);
         break;
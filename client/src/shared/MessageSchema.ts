@@ -0,0 +1,584 @@
+/**
+ * MVP 18: WebSocket Message Schema
+ *
+ * Every message exchanged between the client (Game.ts) and ForestManager, described once.
+ * The runtime validators and the TypeScript message unions come from the same definitions,
+ * so a field can't be checked one way and typed another.
+ *
+ * ⚠️ IMPORTANT: MANUAL SYNC REQUIRED ⚠️
+ * This file exists in TWO locations:
+ * - workers/shared/MessageSchema.ts (MASTER - source of truth)
+ * - client/src/shared/MessageSchema.ts (COPY - must manually sync)
+ *
+ * When you modify this file, you MUST copy changes to the other location.
+ * Both files must stay identical or valid messages will be rejected by the other side.
+ *
+ * Design:
+ * - Hand-rolled validators (no dependencies - runs in Workers and the browser)
+ * - Extra fields are allowed, so adding a field never breaks an older peer
+ * - Binary frames decode to the same shapes as JSON (BinaryProtocol.ts), so both are validated the same way
+ * - Deep payloads the receiver only passes along (mapState, forest objects) are typed loosely
+ * - Values (ranges, ownership, cooldowns) are still the handlers' job - this only checks shapes
+ */
+
+// ===== Field validators =====
+
+/**
+ * One field of a message: checks a value and carries its TypeScript type
+ */
+export interface Field<T, Optional extends boolean = false> {
+  readonly optional: Optional;
+  /** Error description for an invalid value (null = valid) */
+  check(value: unknown, path: string): string | null;
+  /** Type-only marker (never set at runtime) */
+  readonly __type?: T;
+}
+
+type FieldType<F> = F extends Field<infer T, boolean> ? T : never;
+
+type MessageShape = Record<string, Field<unknown, boolean>>;
+
+/**
+ * Longest id accepted from a client (squirrel/walnut/predator ids)
+ */
+export const MAX_ID_LENGTH = 128;
+
+/**
+ * Longest chat message accepted from a client
+ */
+export const MAX_CHAT_LENGTH = 200;
+
+/**
+ * Longest accessory selection accepted from a client (Wardrobe sends a small JSON string)
+ */
+export const MAX_ACCESSORY_LENGTH = 1024;
+
+function field<T>(check: (value: unknown, path: string) => string | null): Field<T> {
+  return { optional: false, check };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Finite number (NaN/Infinity can't come from JSON, but can from a bad binary decode)
+ */
+export function num(): Field<number> {
+  return field((value, path) => typeof value === 'number' && Number.isFinite(value)
+    ? null
+    : `${path}: expected number, got ${describe(value)}`);
+}
+
+/**
+ * Non-negative integer (sequence numbers, counts)
+ */
+export function count(): Field<number> {
+  return field((value, path) => typeof value === 'number' && Number.isInteger(value) && value >= 0
+    ? null
+    : `${path}: expected non-negative integer, got ${describe(value)}`);
+}
+
+export function str(maxLength: number = Infinity): Field<string> {
+  return field((value, path) => {
+    if (typeof value !== 'string') {
+      return `${path}: expected string, got ${describe(value)}`;
+    }
+    return value.length <= maxLength ? null : `${path}: longer than ${maxLength} characters`;
+  });
+}
+
+export function bool(): Field<boolean> {
+  return field((value, path) => typeof value === 'boolean' ? null : `${path}: expected boolean, got ${describe(value)}`);
+}
+
+/**
+ * One of a fixed set of strings
+ */
+export function oneOf<T extends string>(...values: T[]): Field<T> {
+  return field((value, path) => typeof value === 'string' && (values as string[]).includes(value)
+    ? null
+    : `${path}: expected one of ${values.join('|')}`);
+}
+
+export function vec3(): Field<{ x: number; y: number; z: number }> {
+  return obj({ x: num(), y: num(), z: num() });
+}
+
+export function array<T>(item: Field<T, boolean>, maxLength: number = Infinity): Field<T[]> {
+  return field((value, path) => {
+    if (!Array.isArray(value)) {
+      return `${path}: expected array, got ${describe(value)}`;
+    }
+    if (value.length > maxLength) {
+      return `${path}: more than ${maxLength} items`;
+    }
+    for (let i = 0; i < value.length; i++) {
+      const error = item.check(value[i], `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  });
+}
+
+export function obj<S extends MessageShape>(shape: S): Field<ShapeType<S>> {
+  return field((value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return `${path}: expected object, got ${describe(value)}`;
+    }
+    return checkShape(shape, value as Record<string, unknown>, path);
+  });
+}
+
+/**
+ * Object used as a map (e.g. power-up type → state)
+ */
+export function record<T>(item: Field<T, boolean>): Field<Record<string, T>> {
+  return field((value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return `${path}: expected object, got ${describe(value)}`;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      const error = item.check(entry, `${path}.${key}`);
+      if (error) return error;
+    }
+    return null;
+  });
+}
+
+/**
+ * Anything (payloads passed through without inspection)
+ */
+export function unchecked(): Field<any> {
+  return field(() => null);
+}
+
+/**
+ * Field may be missing
+ */
+export function optional<T>(inner: Field<T, boolean>): Field<T, true> {
+  return {
+    optional: true,
+    check: (value, path) => value === undefined ? null : inner.check(value, path)
+  };
+}
+
+/**
+ * Field may be null
+ */
+export function nullable<T>(inner: Field<T, boolean>): Field<T | null> {
+  return field((value, path) => value === null ? null : inner.check(value, path));
+}
+
+// ===== Message types =====
+
+type RequiredKeys<S> = { [K in keyof S]: S[K] extends Field<unknown, true> ? never : K }[keyof S];
+type OptionalKeys<S> = Exclude<keyof S, RequiredKeys<S>>;
+
+type ShapeType<S> = {
+  [K in RequiredKeys<S>]: FieldType<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: FieldType<S[K]>;
+};
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type MessageUnion<M, Envelope> = {
+  [Type in keyof M & string]: Flatten<{ type: Type } & ShapeType<M[Type]> & ShapeType<Envelope>>;
+}[keyof M & string];
+
+function checkShape(shape: MessageShape, value: Record<string, unknown>, path: string): string | null {
+  for (const key of Object.keys(shape)) {
+    const fieldValue = value[key];
+    if (fieldValue === undefined && !shape[key].optional) {
+      return `${path}.${key}: missing`;
+    }
+    const error = shape[key].check(fieldValue, `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Keeps the literal message names/field types while checking every entry is a shape
+ */
+function defineMessages<M extends Record<string, MessageShape>>(messages: M): M {
+  return messages;
+}
+
+// ===== Client → server =====
+
+const id = () => str(MAX_ID_LENGTH);
+
+export const CLIENT_MESSAGES = defineMessages({
+  player_update: {
+    position: vec3(),
+    rotationY: optional(num()),
+    velocity: optional(vec3()),
+    timestamp: optional(num()),
+    animation: optional(str(64)),
+    animationStartTime: optional(num()),
+    moveType: optional(str(32))
+  },
+  update_accessory: { accessoryId: str(MAX_ACCESSORY_LENGTH) },
+  set_carefree_mode: { enabled: bool() },
+  heartbeat: { timestamp: optional(num()) },
+  pong: { serverTime: num() },
+  snapshot_ack: { seq: count() },
+  walnut_hidden: {
+    clientWalnutId: id(), // Placeholder until hide_confirmed carries the server id
+    walnutType: oneOf('buried', 'bush'),
+    position: vec3(),
+    points: optional(num()),
+    timestamp: optional(num())
+  },
+  walnut_found: {
+    walnutId: id(),
+    finderId: optional(id()),
+    points: optional(num()),
+    timestamp: optional(num()),
+    isAuthenticated: optional(bool()),
+    emailVerified: optional(bool())
+  },
+  use_powerup: { powerUpType: str(32) },
+  stash_request: {},
+  chat_message: { playerId: id(), message: str(MAX_CHAT_LENGTH) },
+  player_emote: { playerId: id(), emote: str(32) },
+  player_throw: {
+    fromPosition: vec3(),
+    toPosition: vec3(),
+    targetId: optional(id()),
+    visiblePredators: optional(array(id(), 16))
+  },
+  player_eat: {},
+  // Advisory only - the server decides these itself (kept so older clients aren't struck for sending them)
+  spawn_dropped_walnut: {},
+  player_hit: {},
+  predator_hit: {},
+  player_died: {},
+  player_damaged: {},
+  player_healed: {},
+  player_respawn: {}
+});
+
+export type ClientMessageType = keyof typeof CLIENT_MESSAGES & string;
+export type ClientMessage = MessageUnion<typeof CLIENT_MESSAGES, {}>;
+export type ClientMessageOf<T extends ClientMessageType> = Extract<ClientMessage, { type: T }>;
+
+// ===== Hot-path entries =====
+// Players, NPCs and predators as sent in snapshots and batches - BinaryProtocol.ts encodes exactly these fields
+
+const PLAYER_STATE = {
+  squirrelId: str(),
+  position: vec3(),
+  rotationY: num(),
+  characterId: optional(str()),
+  health: optional(num()),
+  score: optional(num()),
+  animation: optional(str()),
+  animationStartTime: optional(num()),
+  velocity: optional(vec3()),
+  moveType: optional(str()),
+  accessoryId: optional(str()),
+  timestamp: optional(num()), // Client send time (latency compensation)
+  isCarefree: optional(bool())
+};
+
+const NPC_STATE = {
+  npcId: str(),
+  position: vec3(),
+  rotationY: num(),
+  velocity: optional(obj({ x: num(), z: num() })), // NPCs move on the ground plane only
+  animation: optional(str()),
+  behavior: optional(str()),
+  health: optional(num()),
+  accessoryId: optional(str())
+};
+
+const PREDATOR_STATE = {
+  id: str(),
+  type: str(),
+  position: vec3(),
+  rotationY: num(),
+  state: str(),
+  targetId: optional(nullable(str()))
+};
+
+export type PlayerState = ShapeType<typeof PLAYER_STATE>;
+export type NpcState = ShapeType<typeof NPC_STATE>;
+export type PredatorState = ShapeType<typeof PREDATOR_STATE>;
+
+// ===== Server → client =====
+
+/**
+ * Fields any server message may carry
+ */
+const SERVER_ENVELOPE = {
+  eventSeq: optional(count()) // Broadcasts logged for session resume
+};
+
+export const SERVER_MESSAGES = defineMessages({
+  // Join / session
+  world_state: {
+    forestId: str(),
+    terrainSeed: num(),
+    mapState: array(unchecked()),
+    forestObjects: array(unchecked()),
+    spawnPosition: vec3(),
+    spawnRotationY: num(),
+    titleId: optional(str()),
+    titleName: optional(str()),
+    isFirstJoin: optional(bool()),
+    isCarefree: optional(bool()),
+    activeEvent: unchecked(),
+    awaySummary: unchecked(),
+    protocolVersion: count(),
+    resumeToken: str()
+  },
+  session_resumed: { eventSeq: count(), missedEvents: count(), protocolVersion: count() },
+  state_resync: {},
+  heartbeat: { timestamp: optional(num()), serverTime: num() },
+  ping: { serverTime: num() },
+  pong: { timestamp: optional(num()) }, // Legacy
+  error: { reason: str(), message: str(), messageType: optional(str()), strikes: count() },
+
+  // Players
+  existing_players: { players: array(unchecked()) },
+  player_joined: {
+    squirrelId: str(),
+    position: vec3(),
+    rotationY: num(),
+    characterId: str(),
+    username: str(),
+    accessoryId: optional(str())
+  },
+  player_leave: { squirrelId: str(), username: optional(str()), characterId: optional(str()) },
+  player_disconnected: { squirrelId: str(), username: optional(str()), characterId: optional(str()) },
+  player_reconnected: {
+    squirrelId: str(),
+    position: optional(vec3()),
+    rotationY: optional(num()),
+    characterId: optional(str()),
+    accessoryId: optional(str())
+  },
+  player_update: PLAYER_STATE, // Legacy (replaced by snapshot)
+  snapshot: { seq: count(), serverTime: num(), players: array(obj(PLAYER_STATE)), npcs: array(obj(NPC_STATE)) },
+  interest_enter: {
+    kind: oneOf('player', 'npc', 'predator'),
+    id: str(),
+    position: optional(vec3()),
+    rotationY: optional(num())
+  },
+  interest_leave: { kind: oneOf('player', 'npc', 'predator'), id: str() },
+  chat_message: { playerId: str(), message: str() },
+  player_emote: { playerId: str(), emote: str() },
+  player_accessory_changed: { squirrelId: str(), accessoryId: str() },
+  player_mode_changed: { squirrelId: str(), isCarefree: bool() },
+  position_correction: { position: vec3(), rotationY: optional(num()), reason: str() },
+
+  // NPCs and predators
+  npc_spawned: {
+    npc: obj({
+      id: str(),
+      characterId: str(),
+      username: str(),
+      position: vec3(),
+      rotationY: num(),
+      animation: str(),
+      accessoryId: optional(str())
+    })
+  },
+  npc_update: { // Legacy (replaced by snapshot)
+    npcId: str(),
+    position: vec3(),
+    rotationY: num(),
+    animation: optional(str()),
+    velocity: optional(vec3()),
+    behavior: optional(str()),
+    health: optional(num()),
+    accessoryId: optional(str())
+  },
+  npc_updates_batch: { npcs: array(obj(NPC_STATE)) }, // Legacy (replaced by snapshot)
+  npc_despawned: { npcId: str() },
+  npc_throw: {
+    npcId: str(),
+    npcName: optional(str()),
+    fromPosition: vec3(),
+    toPosition: vec3(),
+    targetId: str(),
+    timestamp: optional(num())
+  },
+  predators_update: { predators: array(obj(PREDATOR_STATE)) },
+  predator_annoyance_update: { predatorId: str(), annoyanceLevel: num(), fleeing: optional(bool()) },
+  predators_distracted: { predatorIds: array(str()), throwerId: optional(str()) },
+  predator_despawn: { predatorId: str() },
+
+  // Walnuts and trees
+  walnut_hidden: { walnutId: str(), ownerId: str(), walnutType: str(), position: vec3(), points: num() },
+  walnut_revealed: { walnutId: str(), ownerId: str(), walnutType: str(), position: vec3(), points: num() },
+  walnut_concealed: { walnutId: str() },
+  walnut_found: {
+    walnutId: str(),
+    finderId: str(),
+    finderName: optional(str()),
+    points: optional(num()),
+    isNPC: optional(bool())
+  },
+  walnut_dropped: {
+    walnutId: str(),
+    position: vec3(),
+    immunePlayerId: optional(str()),
+    immuneUntil: optional(num())
+  },
+  hide_confirmed: { clientWalnutId: str(), walnutId: str(), position: vec3() },
+  hide_rejected: { reason: str(), clientWalnutId: optional(str()) },
+  find_rejected: { reason: str(), walnutId: str() },
+  walnut_raided: {
+    walnutId: str(),
+    hiddenIn: oneOf('buried', 'bush'),
+    finderName: str(),
+    points: num(),
+    forestId: str(),
+    timestamp: num()
+  },
+  tree_walnut_drop: { treePosition: vec3(), groundPosition: optional(vec3()), walnutId: str(), ownerId: optional(str()) },
+  tree_grown: {
+    tree: unchecked(),
+    walnutId: str(),
+    ownerId: optional(str()),
+    originalPosition: optional(vec3()),
+    newPosition: optional(vec3())
+  },
+  stash_update: {
+    walnuts: array(obj({
+      walnutId: str(),
+      hiddenIn: oneOf('buried', 'bush'),
+      position: vec3(),
+      hiddenAt: num(),
+      status: oneOf('hidden', 'found', 'grown'),
+      foundByName: optional(str()),
+      growsAt: nullable(num()) // When a still-hidden walnut becomes eligible to grow (null once found or grown)
+    })),
+    serverTime: num()
+  },
+  decoy_found: { walnutId: str(), penalty: num() },
+  decoy_triggered: { walnutId: str(), finderName: optional(str()) },
+
+  // Combat
+  throw_event: {
+    throwerId: str(),
+    fromPosition: vec3(),
+    toPosition: vec3(),
+    targetId: optional(str()),
+    projectileId: optional(str()),
+    timestamp: optional(num())
+  },
+  throw_rejected: { reason: str() },
+  eat_rejected: { reason: str() },
+  entity_damaged: {
+    targetId: str(),
+    attackerId: optional(str()),
+    predatorType: optional(str()),
+    damage: num(),
+    newHealth: num(),
+    position: optional(vec3())
+  },
+  entity_healed: { playerId: str(), healing: num(), newHealth: num() },
+  walnuts_stolen: {
+    targetId: str(),
+    predatorId: optional(str()),
+    predatorType: optional(str()),
+    amount: num(),
+    newInventory: num()
+  },
+  player_death: {
+    victimId: str(),
+    killerId: optional(str()),
+    assistIds: optional(array(str())),
+    deathPosition: optional(vec3())
+  },
+  player_respawn: {
+    playerId: str(),
+    position: optional(vec3()),
+    health: optional(num()),
+    invulnerableUntil: optional(num()),
+    walnutInventory: optional(num())
+  },
+
+  // Player status
+  inventory_update: { walnutCount: num() },
+  health_update: { playerId: str(), health: num(), maxHealth: optional(num()) },
+  score_update: { score: num(), reason: optional(str()) },
+  rank_up: { titleId: optional(str()), titleName: str(), description: str() },
+  tree_growing_bonus: { points: num(), count: num(), message: str() },
+  multiplier_update: { multiplier: num(), participationSeconds: optional(num()), nextStepInSeconds: nullable(num()) },
+  carefree_mode_updated: { isCarefree: bool(), message: optional(str()) },
+  score_restored: { score: num(), rank: optional(str()), titleId: optional(str()), message: optional(str()) },
+
+  // Power-ups
+  powerup_state: { powerUps: record(obj({ charges: num(), cooldownRemaining: num(), activeRemaining: num() })) },
+  powerup_activated: {
+    powerUpType: str(),
+    charges: num(),
+    cooldownRemaining: num(),
+    activeRemaining: num(),
+    sniffedWalnuts: optional(array(obj({ walnutId: str(), position: obj({ x: num(), z: num() }) }))),
+    decoy: optional(obj({ walnutId: str(), position: vec3() }))
+  },
+  powerup_rejected: { powerUpType: str(), reason: str(), cooldownRemaining: optional(num()) },
+
+  // Cycle and world events
+  cycle_settlement: { unfoundWalnuts: num(), unfoundBonus: num(), firstFinderBonus: num(), totalPoints: num() },
+  first_finder: { findCount: num(), bonusPoints: num() },
+  event_started: { eventType: oneOf('nut_rush'), remainingMs: num(), durationMs: num(), pointsMultiplier: num() },
+  event_ended: { eventType: oneOf('nut_rush'), reason: str(), nextEventInMs: optional(num()) }
+});
+
+export type ServerMessageType = keyof typeof SERVER_MESSAGES & string;
+export type ServerMessage = MessageUnion<typeof SERVER_MESSAGES, typeof SERVER_ENVELOPE>;
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+// ===== Validation =====
+
+export type ValidationResult<M> =
+  | { ok: true; message: M }
+  | { ok: false; error: string; messageType?: string };
+
+function validate<M>(
+  messages: Record<string, MessageShape>,
+  envelope: MessageShape,
+  value: unknown
+): ValidationResult<M> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, error: `message: expected object, got ${describe(value)}` };
+  }
+  const message = value as Record<string, unknown>;
+  if (typeof message.type !== 'string') {
+    return { ok: false, error: 'type: missing' };
+  }
+  if (!Object.prototype.hasOwnProperty.call(messages, message.type)) {
+    return { ok: false, error: 'type: unknown message type', messageType: message.type.slice(0, MAX_ID_LENGTH) };
+  }
+
+  const error = checkShape(envelope, message, message.type) ?? checkShape(messages[message.type], message, message.type);
+  if (error) {
+    return { ok: false, error, messageType: message.type };
+  }
+  return { ok: true, message: message as M };
+}
+
+/**
+ * Check a decoded client → server message (ForestManager rejects anything that fails)
+ */
+export function validateClientMessage(value: unknown): ValidationResult<ClientMessage> {
+  return validate<ClientMessage>(CLIENT_MESSAGES, {}, value);
+}
+
+/**
+ * Check a decoded server → client message (Game.ts drops anything that fails)
+ */
+export function validateServerMessage(value: unknown): ValidationResult<ServerMessage> {
+  return validate<ServerMessage>(SERVER_MESSAGES, SERVER_ENVELOPE, value);
+}
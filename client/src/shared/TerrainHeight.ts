@@ -0,0 +1,69 @@
+/**
+ * MVP 18: Deterministic Terrain Height
+ *
+ * Pure, seedable terrain height function shared by client and server.
+ * Server AI, hit checks and placement use the same ground the client renders.
+ *
+ * ⚠️ IMPORTANT: MANUAL SYNC REQUIRED ⚠️
+ * This file exists in TWO locations:
+ * - workers/shared/TerrainHeight.ts (MASTER - source of truth)
+ * - client/src/shared/TerrainHeight.ts (COPY - must manually sync)
+ *
+ * When you modify this file, you MUST copy changes to the other location.
+ * Both files must stay identical or server and client will disagree on ground level.
+ *
+ * Design:
+ * - Plain math only (no THREE.js, DOM or Workers APIs)
+ * - terrainSeed shifts the noise sampling window (seed 0 = original terrain)
+ * - Client heightfield cache (terrain.ts) is only a speed-up on top of this function
+ */
+
+/**
+ * Lowest terrain height (keeps characters above the ground plane)
+ */
+export const TERRAIN_MIN_HEIGHT = 0.5;
+
+/**
+ * How far a seed can shift the noise window in world units (±50)
+ * Kept small so seeded terrain stays as smooth as the original
+ */
+const SEED_OFFSET_RANGE = 100;
+
+// Perlin-like noise function from Three.js terrain example
+function noise(nx: number, ny: number): number {
+  return Math.sin(2 * nx) * Math.cos(2 * ny) * 5 + Math.sin(nx * ny) * 3;
+}
+
+/**
+ * Derive noise window offsets from a terrain seed
+ * Pure arithmetic so every JS engine gets the same offsets
+ */
+export function getTerrainSeedOffsets(seed: number): { x: number; z: number } {
+  if (!seed) {
+    return { x: 0, z: 0 };
+  }
+  const fractX = Math.abs(seed * 0.6180339887) % 1; // Golden ratio
+  const fractZ = Math.abs(seed * 0.7548776662) % 1; // Plastic number
+  return {
+    x: (fractX - 0.5) * SEED_OFFSET_RANGE,
+    z: (fractZ - 0.5) * SEED_OFFSET_RANGE
+  };
+}
+
+/**
+ * Get terrain height at a world position
+ *
+ * @param x - World X coordinate
+ * @param z - World Z coordinate
+ * @param seed - Forest terrainSeed (sent to clients in world_state)
+ * @returns Terrain height at (x, z), never below TERRAIN_MIN_HEIGHT
+ */
+export function getTerrainHeightAt(x: number, z: number, seed: number = 0): number {
+  const offsets = getTerrainSeedOffsets(seed);
+  const nx = (x + offsets.x) * 0.02; // Reduced frequency for smoother terrain
+  const nz = (z + offsets.z) * 0.02;
+  let height = noise(nx, nz) * 0.5 + 2; // Reduced amplitude and base height
+  height += noise(nx * 2, nz * 2) * 0.3;
+  height += noise(nx * 4, nz * 4) * 0.1;
+  return Math.max(TERRAIN_MIN_HEIGHT, height);
+}
@@ -3,21 +3,24 @@
 import { System } from '../ecs';
 import { EventBus, GameEvents } from '../core/EventBus';
 import { Logger, LogCategory } from '../core/Logger';
+import { BinaryCodec, SUPPORTED_BINARY_PROTOCOL_VERSIONS } from '@shared/BinaryProtocol';
 
 // MVP 7 Task 7: Client version for protocol compatibility
 const CLIENT_VERSION = '1.0.0';
 const PROTOCOL_VERSION = 'hidden-walnuts-v1';
 
 interface NetworkMessage {
-  type: 'position_update' | 'player_joined' | 'player_left' | 'heartbeat' | 'player_join' | 'player_update' | 'world_state' | 'init' | 'existing_players' | 'player_leave' | 'position_correction' | 'batch_update';
+  type: 'position_update' | 'player_joined' | 'player_left' | 'heartbeat' | 'player_join' | 'player_update' | 'world_state' | 'init' | 'existing_players' | 'player_leave' | 'position_correction' | 'batch_update' | 'snapshot';
   squirrelId: string;
   data?: any;
   timestamp: number;
   position?: { x: number; y: number; z: number };
   rotationY?: number;
-  players?: any[]; // For existing_players message
+  players?: any[]; // For existing_players and snapshot messages
   originalPosition?: { x: number; y: number; z: number }; // For position_correction
   updates?: any[]; // For batch_update message
+  seq?: number; // MVP 18: Snapshot sequence number (acknowledged back to the server)
+  serverTime?: number; // MVP 18: Server clock when the snapshot was built
 }
 
 // Enhanced connection quality metrics
@@ -65,6 +68,7 @@ enum ConnectionState {
 
 export class NetworkSystem extends System {
   private websocket: WebSocket | null = null;
+  private binaryCodec: BinaryCodec | null = null; // MVP 18: Decodes binary hot-path frames
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 10; // Increased for better resilience
   private heartbeatInterval: any = null;
@@ -222,6 +226,7 @@ export class NetworkSystem extends System {
       wsParams.set('token', authData.token);
       wsParams.set('version', CLIENT_VERSION);
       wsParams.set('protocol', PROTOCOL_VERSION);
+      wsParams.set('binaryProtocol', SUPPORTED_BINARY_PROTOCOL_VERSIONS.join(',')); // MVP 18
       
       const wsUrl = `${apiBase.replace('http:', 'ws:').replace('https:', 'wss:')}/ws?${wsParams.toString()}`;
       
@@ -231,6 +236,9 @@ export class NetworkSystem extends System {
       
       // MVP 7 Task 7: Enhanced WebSocket creation with protocol specification
       this.websocket = new WebSocket(wsUrl, [PROTOCOL_VERSION]);
+      // MVP 18: Binary frames arrive as ArrayBuffer; fresh string tables per socket
+      this.websocket.binaryType = 'arraybuffer';
+      this.binaryCodec = new BinaryCodec();
       this.setupWebSocketHandlers();
       
     } catch (error) {
@@ -358,7 +366,9 @@ export class NetworkSystem extends System {
       
       Logger.debug(LogCategory.NETWORK, 'RAW WEBSOCKET MESSAGE DATA:', event.data);
       try {
-        const message: NetworkMessage = JSON.parse(event.data);
+        const message: NetworkMessage = event.data instanceof ArrayBuffer
+          ? this.binaryCodec!.decode(event.data)
+          : JSON.parse(event.data);
         this.handleNetworkMessage(message);
       } catch (error) {
         const networkError: NetworkError = {
@@ -543,6 +553,10 @@ export class NetworkSystem extends System {
         Logger.debug(LogCategory.NETWORK, '🔄 HANDLING BATCH UPDATE');
         this.handleBatchUpdate(message);
         break;
+      case 'snapshot':
+        Logger.debug(LogCategory.NETWORK, '📸 HANDLING SNAPSHOT');
+        this.handleSnapshot(message);
+        break;
       default:
         Logger.debug(LogCategory.NETWORK, '❓ UNKNOWN MESSAGE TYPE:', message.type);
     }
@@ -596,6 +610,23 @@ export class NetworkSystem extends System {
     });
   }
 
+  // MVP 18: Fixed-tick delta snapshot - acknowledge it, then apply each changed player like a player_update
+  private handleSnapshot(message: NetworkMessage): void {
+    if (this.websocket && this.websocket.readyState === WebSocket.OPEN) {
+      this.websocket.send(JSON.stringify({ type: 'snapshot_ack', seq: message.seq }));
+    }
+
+    this.eventBus.emit(GameEvents.SERVER_STATE_UPDATE, {
+      snapshotSequence: message.seq,
+      serverTimestamp: message.serverTime
+    });
+
+    for (const player of message.players || []) {
+      if (player.squirrelId === this.localSquirrelId) continue;
+      this.handleRemotePlayerUpdate(player as NetworkMessage);
+    }
+  }
+
   private handlePlayerJoined(message: NetworkMessage): void {
     Logger.info(LogCategory.NETWORK, `👋 Player joined: ${message.squirrelId}`);
     
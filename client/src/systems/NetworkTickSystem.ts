@@ -41,6 +41,7 @@ export class NetworkTickSystem extends System {
   private localPlayerEntity: Entity | null = null;
   private pendingUpdates: PendingUpdate[] = [];
   private lastAcknowledgedUpdate = 0;
+  private lastSnapshotSequence = 0; // MVP 18: Newest server snapshot applied (acked by NetworkSystem)
   
   // State history for lag compensation  
   private stateHistory: NetworkTick[] = [];
@@ -182,12 +183,18 @@ export class NetworkTickSystem extends System {
 
   private handleServerUpdate(data: {
     acknowledgedSequence?: number;
+    snapshotSequence?: number;
     serverTimestamp: number;
     position?: Vector3;
     rotation?: Rotation;
     otherPlayers?: any[];
   }): void {
     Logger.debugExpensive(LogCategory.NETWORK, () => `Server update received with ack: ${data.acknowledgedSequence}`);
+
+    // MVP 18: Snapshots are numbered by the server tick, independently of our input sequence
+    if (data.snapshotSequence !== undefined) {
+      this.lastSnapshotSequence = Math.max(this.lastSnapshotSequence, data.snapshotSequence);
+    }
     
     // CHEN'S FIX: Properly acknowledge server input sequences
     if (data.acknowledgedSequence) {
@@ -447,12 +454,14 @@ export class NetworkTickSystem extends System {
     pendingUpdates: number;
     historySize: number;
     lastAcknowledged: number;
+    lastSnapshot: number;
   } {
     return {
       tickRate: NetworkTickSystem.TICK_RATE,
       pendingUpdates: this.pendingUpdates.length,
       historySize: this.stateHistory.length,
-      lastAcknowledged: this.lastAcknowledgedUpdate
+      lastAcknowledged: this.lastAcknowledgedUpdate,
+      lastSnapshot: this.lastSnapshotSequence
     };
   }
 
@@ -1,9 +1,8 @@
 import * as THREE from 'three';
+import { getTerrainHeightAt } from '@shared/TerrainHeight';
 
-// Perlin noise function from Three.js terrain example
-function noise(nx: number, ny: number) {
-  return Math.sin(2 * nx) * Math.cos(2 * ny) * 5 + Math.sin(nx * ny) * 3;
-}
+// MVP 18: Forest terrain seed (from server world_state, 0 until received)
+let terrainSeed = 0;
 
 // Store terrain mesh reference for raycasting (legacy, used for initialization)
 let terrainMesh: THREE.Mesh | null = null;
@@ -98,13 +97,62 @@ export async function initializeTerrain(): Promise<void> {
 }
 
 // Mathematical height function (used for initial mesh generation)
+// MVP 18: Delegates to shared TerrainHeight so server and client agree on ground level
 function getTerrainHeightMath(x: number, z: number): number {
-  const nx = x * 0.02; // Reduced frequency for smoother terrain
-  const nz = z * 0.02;
-  let height = noise(nx, nz) * 0.5 + 2; // Reduced amplitude and base height
-  height += noise(nx * 2, nz * 2) * 0.3;
-  height += noise(nx * 4, nz * 4) * 0.1;
-  return Math.max(0.5, height); // Ensure minimum height of 0.5 for character positioning
+  return getTerrainHeightAt(x, z, terrainSeed);
+}
+
+/**
+ * MVP 18: Apply the forest's terrain seed from the server
+ * Rebuilds the heightfield cache when the seed changes
+ *
+ * @returns true if terrain changed (caller should update mesh and re-ground objects)
+ */
+export function setTerrainSeed(seed: number): boolean {
+  if (typeof seed !== 'number' || !isFinite(seed) || seed === terrainSeed) {
+    return false;
+  }
+  terrainSeed = seed;
+  buildHeightfieldCache(0.5);
+  console.log(`🌍 Terrain seed applied: ${seed.toFixed(3)}`);
+  return true;
+}
+
+export function getTerrainSeed(): number {
+  return terrainSeed;
+}
+
+// Height-based color gradient: darker green for valleys, lighter for peaks
+function getTerrainColor(yPos: number, color: THREE.Color): THREE.Color {
+  const heightRatio = Math.max(0, Math.min(1, (yPos - 1) / 3)); // Normalize height between 1-4
+  return color.setHSL(0.3, 0.6, 0.2 + heightRatio * 0.4); // Green with brightness based on height
+}
+
+/**
+ * MVP 18: Rewrite terrain mesh vertex heights/colors after a seed change
+ */
+export function updateTerrainMesh(mesh: THREE.Mesh): void {
+  const geometry = mesh.geometry as THREE.BufferGeometry;
+  const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+  const colors = geometry.getAttribute('color') as THREE.BufferAttribute | undefined;
+  const color = new THREE.Color();
+
+  for (let i = 0; i < positions.count; i++) {
+    const yPos = getTerrainHeightMath(positions.getX(i), positions.getZ(i));
+    positions.setY(i, yPos);
+    if (colors) {
+      getTerrainColor(yPos, color);
+      colors.setXYZ(i, color.r, color.g, color.b);
+    }
+  }
+
+  positions.needsUpdate = true;
+  if (colors) {
+    colors.needsUpdate = true;
+  }
+  geometry.computeVertexNormals();
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
 }
 
 // DEBUG: Enable comparison logging (set to true to compare cache vs raycast)
@@ -223,9 +271,7 @@ export async function createTerrain(): Promise<THREE.Mesh> {
       vertices.push(xPos, yPos, zPos);
       
       // Height-based color gradient: darker green for valleys, lighter for peaks
-      const heightRatio = Math.max(0, Math.min(1, (yPos - 1) / 3)); // Normalize height between 1-4
-      const color = new THREE.Color();
-      color.setHSL(0.3, 0.6, 0.2 + heightRatio * 0.4); // Green with brightness based on height
+      const color = getTerrainColor(yPos, new THREE.Color());
       colors.push(color.r, color.g, color.b);
     }
   }
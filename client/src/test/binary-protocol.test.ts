@@ -0,0 +1,308 @@
+// 🧬 Binary Protocol Tests - MVP 18
+// Round-trips every hot-path message type through the shared codec
+// (same file the server uses - see shared/BinaryProtocol.ts)
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { describeNetwork, TestUtils } from './setup';
+import {
+  BinaryCodec,
+  BINARY_PROTOCOL_VERSION,
+  negotiateProtocolVersion,
+  isBinaryMessageType,
+  type BinaryMessage
+} from '../shared/BinaryProtocol';
+import type { ClientMessageOf, ServerMessageOf } from '../shared/MessageSchema';
+
+// Quantization tolerances (int16 centimeters / int16 over [-π, π])
+const POSITION_TOLERANCE = 0.006;
+const ROTATION_TOLERANCE = 0.0002;
+
+const expectAngleClose = (actual: number, expected: number) => {
+  const diff = Math.atan2(Math.sin(actual - expected), Math.cos(actual - expected));
+  expect(Math.abs(diff)).toBeLessThan(ROTATION_TOLERANCE);
+};
+
+describeNetwork('Binary Protocol', () => {
+  let sender: BinaryCodec;
+  let receiver: BinaryCodec;
+
+  // Encode on one codec, decode on the other (like server socket → client socket)
+  const roundTrip = <T extends BinaryMessage>(message: T): T => {
+    const frame = sender.encode(message);
+    expect(frame).toBeInstanceOf(ArrayBuffer);
+    const decoded = receiver.decode(frame!);
+    expect(decoded.type).toBe(message.type);
+    return decoded as T;
+  };
+
+  beforeEach(() => {
+    sender = new BinaryCodec();
+    receiver = new BinaryCodec();
+  });
+
+  describe('🏃 player_update', () => {
+    it('should round-trip a client position update', () => {
+      const message: ClientMessageOf<'player_update'> = {
+        type: 'player_update',
+        position: { x: 12.34, y: 2.5, z: -87.65 },
+        rotationY: 1.57,
+        velocity: { x: 3.2, y: 0, z: -1.5 },
+        animation: 'run',
+        animationStartTime: 123456.789,
+        timestamp: 98765.4321
+      };
+
+      const decoded = roundTrip(message);
+
+      expect(decoded.type).toBe('player_update');
+      TestUtils.assertPositionEquals(decoded.position, message.position, POSITION_TOLERANCE);
+      TestUtils.assertPositionEquals(decoded.velocity, message.velocity, POSITION_TOLERANCE);
+      expectAngleClose(decoded.rotationY!, message.rotationY!);
+      expect(decoded.animation).toBe('run');
+      expect(decoded.animationStartTime).toBe(123456.789);
+      expect(decoded.timestamp).toBe(98765.4321);
+      expect(decoded).not.toHaveProperty('squirrelId');
+      expect(decoded).not.toHaveProperty('isCarefree');
+    });
+
+    it('should round-trip a server broadcast with player state', () => {
+      const message: ServerMessageOf<'player_update'> = {
+        type: 'player_update',
+        squirrelId: 'c7b1a4e2-1111-4c2d-9f00-123456789abc',
+        position: { x: -150, y: 4.2, z: 199.99 },
+        rotationY: -2.9,
+        characterId: 'colobus',
+        health: 72.5,
+        score: 1480,
+        animation: 'idle',
+        moveType: 'walk',
+        accessoryId: 'top_hat',
+        timestamp: 1700000000000,
+        isCarefree: true
+      };
+
+      const decoded = roundTrip(message);
+
+      TestUtils.assertPositionEquals(decoded.position, message.position, POSITION_TOLERANCE);
+      expectAngleClose(decoded.rotationY, message.rotationY);
+      expect(decoded.squirrelId).toBe(message.squirrelId);
+      expect(decoded.characterId).toBe('colobus');
+      expect(decoded.health).toBe(72.5);
+      expect(decoded.score).toBe(1480);
+      expect(decoded.animation).toBe('idle');
+      expect(decoded.moveType).toBe('walk');
+      expect(decoded.accessoryId).toBe('top_hat');
+      expect(decoded.timestamp).toBe(1700000000000);
+      expect(decoded.isCarefree).toBe(true);
+    });
+
+    it('should wrap rotations outside [-π, π]', () => {
+      const decoded = roundTrip({ type: 'player_update', position: { x: 0, y: 0, z: 0 }, rotationY: Math.PI * 3.5 });
+      expectAngleClose(decoded.rotationY, Math.PI * 3.5);
+      expect(Math.abs(decoded.rotationY)).toBeLessThanOrEqual(Math.PI);
+    });
+  });
+
+  describe('🐿️ npc_updates_batch', () => {
+    it('should round-trip every NPC in the batch', () => {
+      const message: ServerMessageOf<'npc_updates_batch'> = {
+        type: 'npc_updates_batch',
+        npcs: [
+          {
+            npcId: 'npc-1',
+            position: { x: 20, y: 2.1, z: -35.5 },
+            rotationY: 0.75,
+            velocity: { x: 1.25, z: -0.5 },
+            animation: 'walk',
+            behavior: 'gather',
+            health: 100,
+            accessoryId: 'none'
+          },
+          {
+            npcId: 'npc-2',
+            position: { x: -60, y: 3.33, z: 10 },
+            rotationY: -1.2,
+            velocity: { x: 0, z: 0 },
+            animation: 'idle',
+            behavior: 'idle',
+            health: 45
+          }
+        ]
+      };
+
+      const decoded = roundTrip(message);
+
+      expect(decoded.type).toBe('npc_updates_batch');
+      expect(decoded.npcs).toHaveLength(2);
+      message.npcs.forEach((npc, index) => {
+        const result = decoded.npcs[index];
+        expect(result.npcId).toBe(npc.npcId);
+        TestUtils.assertPositionEquals(result.position, npc.position, POSITION_TOLERANCE);
+        expectAngleClose(result.rotationY, npc.rotationY);
+        expect(result.velocity!.x).toBeCloseTo(npc.velocity!.x, 2);
+        expect(result.velocity!.z).toBeCloseTo(npc.velocity!.z, 2);
+        expect(result.animation).toBe(npc.animation);
+        expect(result.behavior).toBe(npc.behavior);
+        expect(result.health).toBe(npc.health);
+      });
+      expect(decoded.npcs[0].accessoryId).toBe('none');
+      expect(decoded.npcs[1]).not.toHaveProperty('accessoryId');
+    });
+
+    it('should round-trip an empty batch', () => {
+      expect(roundTrip({ type: 'npc_updates_batch', npcs: [] })).toEqual({ type: 'npc_updates_batch', npcs: [] });
+    });
+  });
+
+  describe('🦅 predators_update', () => {
+    it('should round-trip predators with and without targets', () => {
+      const message: ServerMessageOf<'predators_update'> = {
+        type: 'predators_update',
+        predators: [
+          { id: 'predator-1', type: 'cardinal', position: { x: 5, y: 18.5, z: 5 }, rotationY: 2.2, state: 'targeting', targetId: 'player-abc' },
+          { id: 'predator-2', type: 'wildebeest', position: { x: -40, y: 2, z: 60 }, rotationY: -0.4, state: 'patrol', targetId: null }
+        ]
+      };
+
+      const decoded = roundTrip(message);
+
+      expect(decoded.type).toBe('predators_update');
+      expect(decoded.predators).toHaveLength(2);
+      message.predators.forEach((predator, index) => {
+        const result = decoded.predators[index];
+        expect(result.id).toBe(predator.id);
+        expect(result.type).toBe(predator.type);
+        expect(result.state).toBe(predator.state);
+        expect(result.targetId).toBe(predator.targetId);
+        TestUtils.assertPositionEquals(result.position, predator.position, POSITION_TOLERANCE);
+        expectAngleClose(result.rotationY, predator.rotationY);
+      });
+    });
+  });
+
+  describe('📸 snapshot', () => {
+    it('should round-trip players and NPCs in one frame', () => {
+      const message: ServerMessageOf<'snapshot'> = {
+        type: 'snapshot',
+        seq: 4242,
+        serverTime: 1700000000123,
+        players: [
+          {
+            squirrelId: 'player-1',
+            position: { x: 10, y: 2, z: -10 },
+            rotationY: 0.5,
+            animation: 'run',
+            health: 90,
+            score: 12,
+            timestamp: 5555.5
+          }
+        ],
+        npcs: [
+          { npcId: 'npc-1', position: { x: -5, y: 1.5, z: 7.25 }, rotationY: -0.3, animation: 'walk', behavior: 'wander' }
+        ]
+      };
+
+      const decoded = roundTrip(message);
+
+      expect(decoded.type).toBe('snapshot');
+      expect(decoded.seq).toBe(4242);
+      expect(decoded.serverTime).toBe(1700000000123);
+      expect(decoded.players).toHaveLength(1);
+      expect(decoded.players[0]).not.toHaveProperty('type');
+      expect(decoded.players[0].squirrelId).toBe('player-1');
+      expect(decoded.players[0].score).toBe(12);
+      TestUtils.assertPositionEquals(decoded.players[0].position, message.players[0].position, POSITION_TOLERANCE);
+      expect(decoded.npcs).toHaveLength(1);
+      expect(decoded.npcs[0].npcId).toBe('npc-1');
+      expect(decoded.npcs[0].behavior).toBe('wander');
+    });
+
+    it('should round-trip an empty delta', () => {
+      const message: ServerMessageOf<'snapshot'> = { type: 'snapshot', seq: 1, serverTime: 0, players: [], npcs: [] };
+      expect(roundTrip(message)).toEqual(message);
+    });
+
+    it('should fall back to JSON on version 1 connections', () => {
+      expect(sender.encode({ type: 'snapshot', seq: 1, serverTime: 0, players: [], npcs: [] }, 1)).toBeNull();
+    });
+
+    it('should fall back to JSON for players without a squirrelId', () => {
+      const players = [{ position: { x: 0, y: 0, z: 0 }, rotationY: 0 }];
+      // @ts-expect-error - snapshot players require a squirrelId (the codec re-checks untyped input at runtime)
+      expect(sender.encode({ type: 'snapshot', seq: 1, serverTime: 0, players, npcs: [] })).toBeNull();
+    });
+  });
+
+  describe('🔤 Interned strings', () => {
+    it('should only send each string definition once per codec', () => {
+      const message: ServerMessageOf<'predators_update'> = {
+        type: 'predators_update',
+        predators: [{ id: 'predator-1', type: 'toucan', position: { x: 1, y: 2, z: 3 }, rotationY: 0, state: 'patrol', targetId: null }]
+      };
+
+      const first = sender.encode(message)!;
+      const second = sender.encode(message)!;
+      expect(second.byteLength).toBeLessThan(first.byteLength);
+
+      receiver.decode(first);
+      const decoded = receiver.decode(second);
+      expect(decoded.type).toBe('predators_update');
+      if (decoded.type === 'predators_update') {
+        expect(decoded.predators[0].type).toBe('toucan');
+      }
+    });
+
+    it('should not leak strings from a message that fell back to JSON', () => {
+      // Bad position → JSON fallback after 'ghost-id' was interned; it must be re-defined next frame
+      expect(sender.encode({
+        type: 'predators_update',
+        // @ts-expect-error - position without z is malformed on purpose
+        predators: [{ id: 'ghost-id', type: 'cardinal', position: { x: 0, y: 10 }, rotationY: 0, state: 'idle', targetId: null }]
+      })).toBeNull();
+
+      const decoded = roundTrip({
+        type: 'predators_update',
+        predators: [{ id: 'ghost-id', type: 'cardinal', position: { x: 0, y: 10, z: 0 }, rotationY: 0, state: 'idle', targetId: null }]
+      });
+      expect(decoded.predators[0].id).toBe('ghost-id');
+    });
+  });
+
+  describe('↩️ JSON fallback', () => {
+    it('should not encode non hot-path messages', () => {
+      expect(isBinaryMessageType('chat_message')).toBe(false);
+      // @ts-expect-error - chat_message isn't a BinaryMessage (the codec re-checks untyped input at runtime)
+      expect(sender.encode({ type: 'chat_message', message: 'hi' })).toBeNull();
+    });
+
+    it('should not encode messages with unknown fields', () => {
+      // @ts-expect-error - newField isn't in the schema
+      expect(sender.encode({ type: 'player_update', position: { x: 0, y: 0, z: 0 }, rotationY: 0, newField: 1 })).toBeNull();
+    });
+
+    it('should not encode malformed values', () => {
+      // @ts-expect-error - position without z
+      expect(sender.encode({ type: 'player_update', position: { x: 0, y: 0 }, rotationY: 0 })).toBeNull();
+      expect(sender.encode({ type: 'player_update', position: { x: 0, y: 0, z: 0 }, rotationY: 0, score: 1.5 })).toBeNull();
+    });
+  });
+
+  describe('🤝 Version negotiation', () => {
+    it('should pick the highest shared version', () => {
+      expect(negotiateProtocolVersion(String(BINARY_PROTOCOL_VERSION))).toBe(BINARY_PROTOCOL_VERSION);
+      expect(negotiateProtocolVersion(`99,${BINARY_PROTOCOL_VERSION}`)).toBe(BINARY_PROTOCOL_VERSION);
+    });
+
+    it('should fall back to JSON when nothing matches', () => {
+      expect(negotiateProtocolVersion(null)).toBe(0);
+      expect(negotiateProtocolVersion('')).toBe(0);
+      expect(negotiateProtocolVersion('99')).toBe(0);
+    });
+
+    it('should reject frames from an unknown version', () => {
+      const frame = sender.encode({ type: 'player_update', position: { x: 0, y: 0, z: 0 }, rotationY: 0 })!;
+      new Uint8Array(frame)[0] = 99;
+      expect(() => receiver.decode(frame)).toThrow();
+    });
+  });
+});
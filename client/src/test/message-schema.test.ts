@@ -0,0 +1,155 @@
+// 📋 Message Schema Tests - MVP 18
+// Validates client → server and server → client messages against the shared schema
+// (same file the server uses - see shared/MessageSchema.ts)
+
+import { describe, it, expect } from 'vitest';
+import { describeNetwork } from './setup';
+import { BinaryCodec } from '../shared/BinaryProtocol';
+import {
+  MAX_CHAT_LENGTH,
+  validateClientMessage,
+  validateServerMessage
+} from '../shared/MessageSchema';
+
+describeNetwork('Message Schema', () => {
+  describe('📤 Client messages', () => {
+    it('should accept a position update', () => {
+      const result = validateClientMessage({
+        type: 'player_update',
+        position: { x: 12.34, y: 2.5, z: -87.65 },
+        rotationY: 1.57,
+        velocity: { x: 3.2, y: 0, z: -1.5 },
+        animation: 'run',
+        animationStartTime: 123456.789,
+        timestamp: 98765.4321
+      });
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should accept a position update decoded from a binary frame', () => {
+      const sender = new BinaryCodec();
+      const receiver = new BinaryCodec();
+      const frame = sender.encode({
+        type: 'player_update',
+        position: { x: 1, y: 2, z: 3 },
+        rotationY: 0.5,
+        timestamp: 1000
+      });
+
+      expect(validateClientMessage(receiver.decode(frame!)).ok).toBe(true);
+    });
+
+    it('should allow extra fields', () => {
+      const result = validateClientMessage({ type: 'snapshot_ack', seq: 42, sentAt: 1700000000000 });
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject a missing field', () => {
+      const result = validateClientMessage({
+        type: 'walnut_hidden',
+        clientWalnutId: 'walnut-1',
+        position: { x: 0, y: 0, z: 0 }
+      });
+
+      expect(result).toEqual({ ok: false, error: 'walnut_hidden.walnutType: missing', messageType: 'walnut_hidden' });
+    });
+
+    it('should reject a wrongly typed nested field', () => {
+      const result = validateClientMessage({
+        type: 'player_throw',
+        fromPosition: { x: 0, y: 1, z: 0 },
+        toPosition: { x: 5, y: 'up', z: 5 }
+      });
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error).toBe('player_throw.toPosition.y: expected number, got string');
+    });
+
+    it('should reject values outside a fixed set', () => {
+      const result = validateClientMessage({
+        type: 'walnut_hidden',
+        clientWalnutId: 'walnut-1',
+        walnutType: 'game',
+        position: { x: 0, y: 0, z: 0 }
+      });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it('should reject oversized chat messages', () => {
+      const result = validateClientMessage({
+        type: 'chat_message',
+        playerId: 'player-1',
+        message: 'a'.repeat(MAX_CHAT_LENGTH + 1)
+      });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it('should reject unknown types and non-objects', () => {
+      expect(validateClientMessage({ type: 'give_me_points', amount: 1000 })).toEqual({
+        ok: false,
+        error: 'type: unknown message type',
+        messageType: 'give_me_points'
+      });
+      expect(validateClientMessage({ position: { x: 0, y: 0, z: 0 } }).ok).toBe(false);
+      expect(validateClientMessage(null).ok).toBe(false);
+      expect(validateClientMessage([]).ok).toBe(false);
+      expect(validateClientMessage('player_update').ok).toBe(false);
+    });
+
+    it('should not treat inherited properties as message types', () => {
+      expect(validateClientMessage({ type: 'toString' }).ok).toBe(false);
+      expect(validateClientMessage({ type: '__proto__' }).ok).toBe(false);
+    });
+  });
+
+  describe('📥 Server messages', () => {
+    it('should accept a world_state with a replay cursor', () => {
+      const result = validateServerMessage({
+        type: 'world_state',
+        forestId: 'forest-1',
+        terrainSeed: 1234,
+        mapState: [],
+        forestObjects: [],
+        spawnPosition: { x: 0, y: 2, z: 0 },
+        spawnRotationY: 0,
+        titleId: 'rookie',
+        titleName: 'Rookie',
+        isFirstJoin: true,
+        activeEvent: null,
+        awaySummary: null,
+        protocolVersion: 2,
+        resumeToken: 'token',
+        eventSeq: 17
+      });
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should accept nullable fields', () => {
+      const result = validateServerMessage({
+        type: 'multiplier_update',
+        multiplier: 2,
+        participationSeconds: 3600,
+        nextStepInSeconds: null
+      });
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject a negative replay cursor', () => {
+      const result = validateServerMessage({ type: 'score_update', score: 10, eventSeq: -1 });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it('should reject a server error reply without strikes', () => {
+      const result = validateServerMessage({ type: 'error', reason: 'invalid_message', message: 'type: missing' });
+
+      expect(result).toEqual({ ok: false, error: 'error.strikes: missing', messageType: 'error' });
+    });
+  });
+});
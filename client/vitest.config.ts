@@ -1,6 +1,15 @@
 import { defineConfig } from 'vitest/config';
+import path from 'path';
 
 export default defineConfig({
+  // Same aliases as vite.config.ts (shared code is imported as @shared/*)
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+      '@shared': path.resolve(__dirname, './src/shared'),
+    },
+  },
+
   test: {
     // AI-friendly environment setup
     environment: 'happy-dom',
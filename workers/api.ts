@@ -9,6 +9,7 @@
 
 import { getObjectInstance } from "./objects/registry";
 import type { EnvWithBindings } from "./objects/registry";
+import { FOREST_SHARDING } from "./constants";
 
 // Import the Durable Objects so we can export them
 import ForestManager from "./objects/ForestManager";
@@ -16,9 +17,10 @@ import SquirrelSession from "./objects/SquirrelSession";
 import WalnutRegistry from "./objects/WalnutRegistry";
 import Leaderboard from "./objects/Leaderboard";
 import { PlayerIdentity } from "./objects/PlayerIdentity";
+import ForestLobby, { isValidForestId } from "./objects/ForestLobby";
 
 // Export the Durable Objects so they can be used by the worker
-export { ForestManager, SquirrelSession, WalnutRegistry, Leaderboard, PlayerIdentity };
+export { ForestManager, SquirrelSession, WalnutRegistry, Leaderboard, PlayerIdentity, ForestLobby };
 
 // Cloudflare Workers ExecutionContext type
 interface ExecutionContext {
@@ -39,6 +41,24 @@ const CORS_HEADERS = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization"
 };
 
+// MVP 18: Forward a request to a specific forest shard (ForestManager learns its name from X-Forest-Id)
+function forwardToForest(env: EnvWithBindings, forestId: string, request: Request, url: string | URL): Promise<Response> {
+  const objectName = forestId === FOREST_SHARDING.DEFAULT_FOREST_ID ? FOREST_SHARDING.DEFAULT_FOREST_OBJECT_NAME : forestId;
+  const forest = getObjectInstance(env, "forest", objectName);
+  const forestRequest = new Request(url, request);
+  forestRequest.headers.set("X-Forest-Id", forestId);
+  return forest.fetch(forestRequest);
+}
+
+// MVP 18: List every forest shard the lobby has opened (falls back to the default shard)
+async function getAllForestIds(env: EnvWithBindings): Promise<string[]> {
+  const lobby = getObjectInstance(env, "lobby", FOREST_SHARDING.LOBBY_NAME);
+  const response = await lobby.fetch(new Request("https://internal/instances"));
+  const data = await response.json() as { instances: Array<{ forestId: string }> };
+  const forestIds = data.instances.map(instance => instance.forestId);
+  return forestIds.length > 0 ? forestIds : [FOREST_SHARDING.DEFAULT_FOREST_ID];
+}
+
 export default {
   async fetch(request: Request, env: EnvWithBindings, ctx: ExecutionContext): Promise<Response> {
 
@@ -69,18 +89,29 @@ export default {
           return new Response('Expected Upgrade: websocket', { status: 426 });
         }
 
-        // Forward the WebSocket request to the ForestManager DO
-        const forest = getObjectInstance(env, "forest", "daily-forest");
-
-        // Optimization: Only rewrite URL if path actually changed
-        // This preserves internal Cloudflare WebSocket flags on the original request
-        if (pathname !== normalizedPath) {
-          const newUrl = new URL(request.url);
-          newUrl.pathname = normalizedPath;
-          return forest.fetch(new Request(newUrl, request));
+        // MVP 18: Ask the lobby which forest shard to join (friends can request one via ?forestId=forest-N)
+        const lobby = getObjectInstance(env, "lobby", FOREST_SHARDING.LOBBY_NAME);
+        const assignResponse = await lobby.fetch(new Request("https://internal/assign", {
+          method: "POST",
+          body: JSON.stringify({ forestId: url.searchParams.get("forestId") || undefined })
+        }));
+        const assignment = assignResponse.ok ? await assignResponse.json() as { forestId?: string } : null;
+        const forestId = assignment?.forestId;
+        if (!isValidForestId(forestId)) {
+          console.error(`❌ Forest assignment failed (${assignResponse.status})`);
+          return new Response(JSON.stringify({
+            error: "Service Unavailable",
+            message: "No forest available right now, please retry"
+          }), {
+            status: 503,
+            headers: { ...CORS_HEADERS, "Content-Type": "application/json", "Retry-After": "5" }
+          });
         }
 
-        return forest.fetch(request);
+        // Forward the WebSocket request to the assigned ForestManager DO
+        const newUrl = new URL(request.url);
+        newUrl.pathname = normalizedPath;
+        return forwardToForest(env, forestId, request, newUrl);
       }
 
       // MVP 16: Handle /auth/* routes (authentication system)
@@ -185,6 +216,14 @@ export default {
           });
         }
 
+        // MVP 18: Server-only actions (ForestManager calls these on the stub directly)
+        if (url.searchParams.get('action') === 'recordRaid') {
+          return new Response(JSON.stringify({ error: 'Forbidden' }), {
+            status: 403,
+            headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+          });
+        }
+
         // Get PlayerIdentity Durable Object instance (one per username)
         // This ensures same username = same identity, even across browser sessions
         const id = env.PLAYER_IDENTITY.idFromName(username);
@@ -208,11 +247,12 @@ export default {
 
       // Handle /join route
       if (normalizedPath === "/join") {
-        const forest = getObjectInstance(env, "forest", "daily-forest");
+        const requestedForestId = url.searchParams.get("forestId");
+        const forestId = isValidForestId(requestedForestId) ? requestedForestId : FOREST_SHARDING.DEFAULT_FOREST_ID;
         // Rewrite URL to strip /api prefix
         const newUrl = new URL(request.url);
         newUrl.pathname = normalizedPath;
-        const response = await forest.fetch(new Request(newUrl, request));
+        const response = await forwardToForest(env, forestId, request, newUrl);
 
         // Add CORS headers
         return new Response(response.body, {
@@ -268,13 +308,48 @@ export default {
         });
       }
 
+      // MVP 18: List forest shards and their population
+      if (normalizedPath === "/admin/forests") {
+        const adminSecret = request.headers.get("X-Admin-Secret") || url.searchParams.get("admin_secret");
+        if (!adminSecret || adminSecret !== env.ADMIN_SECRET) {
+          return new Response(JSON.stringify({
+            error: "Unauthorized",
+            message: "Invalid or missing admin secret"
+          }), {
+            status: 401,
+            headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+          });
+        }
+
+        const lobby = getObjectInstance(env, "lobby", FOREST_SHARDING.LOBBY_NAME);
+        const response = await lobby.fetch(new Request("https://internal/instances"));
+        return new Response(response.body, {
+          status: response.status,
+          headers: {
+            ...CORS_HEADERS,
+            "Content-Type": "application/json"
+          }
+        });
+      }
+
       // MVP 13: Handle all /admin routes - forward to ForestManager
+      // MVP 18: Target a shard with ?forestId=forest-N or X-Forest-Id header (defaults to forest-1)
       if (normalizedPath.startsWith("/admin/")) {
-        const forest = getObjectInstance(env, "forest", "daily-forest");
+        const requestedForestId = url.searchParams.get("forestId") || request.headers.get("X-Forest-Id");
+        if (requestedForestId && !isValidForestId(requestedForestId)) {
+          return new Response(JSON.stringify({
+            error: "Invalid forestId",
+            message: `forestId must be ${FOREST_SHARDING.INSTANCE_PREFIX}1 to ${FOREST_SHARDING.INSTANCE_PREFIX}${FOREST_SHARDING.MAX_INSTANCES}`
+          }), {
+            status: 400,
+            headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+          });
+        }
+        const forestId = requestedForestId || FOREST_SHARDING.DEFAULT_FOREST_ID;
         // Rewrite URL to strip /api prefix
         const newUrl = new URL(request.url);
         newUrl.pathname = normalizedPath;
-        return await forest.fetch(new Request(newUrl, request));
+        return await forwardToForest(env, forestId, request, newUrl);
       }
 
       // Handle not found case
@@ -306,7 +381,7 @@ export default {
   },
 
   // MVP 15: Cron handler for daily game resets and weekly leaderboard resets
-  // Daily: 8am UTC (2am CST) - reset mapstate, forest, positions
+  // Daily: 8am UTC (2am CST) - reset mapstate, forest, positions, daily leaderboard
   // Weekly: Sunday 8:05am UTC (2:05am CST) - reset leaderboard
   async scheduled(event: ScheduledEvent, env: EnvWithBindings, ctx: ExecutionContext): Promise<void> {
     const triggerTime = new Date(event.scheduledTime);
@@ -325,37 +400,62 @@ export default {
         console.log(`✅ Weekly leaderboard reset completed`);
       }
       // Daily game reset: Every day at 8am UTC
+      // MVP 18: Reset every forest shard the lobby knows about
       else if (hour === 8 && minute === 0) {
         console.log(`🌲 Running daily game reset...`);
-        const forest = getObjectInstance(env, "forest", "daily-forest") as unknown as ForestManager;
+        const forestIds = await getAllForestIds(env);
 
-        // Create admin requests for each reset operation
-        const resetMapStateReq = new Request("https://internal/admin/reset-mapstate", {
-          method: "POST",
-          headers: { "X-Admin-Secret": env.ADMIN_SECRET }
-        });
+        for (const forestId of forestIds) {
+          // MVP 18: Settle the ending cycle (unfound walnut + first finder bonuses) before wiping it
+          const settleCycleReq = new Request("https://internal/admin/settle-cycle", {
+            method: "POST",
+            headers: { "X-Admin-Secret": env.ADMIN_SECRET }
+          });
 
-        const resetForestReq = new Request("https://internal/admin/reset-forest", {
-          method: "POST",
-          headers: { "X-Admin-Secret": env.ADMIN_SECRET }
-        });
+          // Create admin requests for each reset operation
+          const resetMapStateReq = new Request("https://internal/admin/reset-mapstate", {
+            method: "POST",
+            headers: { "X-Admin-Secret": env.ADMIN_SECRET }
+          });
 
-        const resetPositionsReq = new Request("https://internal/admin/reset-positions", {
-          method: "POST",
-          headers: { "X-Admin-Secret": env.ADMIN_SECRET }
-        });
+          const resetForestReq = new Request("https://internal/admin/reset-forest", {
+            method: "POST",
+            headers: { "X-Admin-Secret": env.ADMIN_SECRET }
+          });
+
+          const resetPositionsReq = new Request("https://internal/admin/reset-positions", {
+            method: "POST",
+            headers: { "X-Admin-Secret": env.ADMIN_SECRET }
+          });
 
-        // Execute resets sequentially
-        await forest.fetch(resetMapStateReq);
-        console.log(`  ✓ Map state reset (golden walnuts)`);
+          // Execute resets sequentially
+          const settleResponse = await forwardToForest(env, forestId, settleCycleReq, settleCycleReq.url);
+          if (settleResponse.ok) {
+            console.log(`  ✓ ${forestId}: Cycle settled`);
+          } else {
+            console.error(`  ❌ ${forestId}: Cycle settlement failed (${settleResponse.status})`);
+          }
+
+          await forwardToForest(env, forestId, resetMapStateReq, resetMapStateReq.url);
+          console.log(`  ✓ ${forestId}: Map state reset (golden walnuts)`);
 
-        await forest.fetch(resetForestReq);
-        console.log(`  ✓ Forest objects reset`);
+          await forwardToForest(env, forestId, resetForestReq, resetForestReq.url);
+          console.log(`  ✓ ${forestId}: Forest objects reset`);
+
+          await forwardToForest(env, forestId, resetPositionsReq, resetPositionsReq.url);
+          console.log(`  ✓ ${forestId}: Player positions reset`);
+        }
 
-        await forest.fetch(resetPositionsReq);
-        console.log(`  ✓ Player positions reset`);
+        // MVP 18: Archive and clear the daily leaderboard (same instance the /leaderboard routes use)
+        const dailyLeaderboardResetReq = new Request("https://internal/leaderboard/daily-reset", {
+          method: "POST",
+          headers: { "X-Admin-Secret": env.ADMIN_SECRET }
+        });
+        const dailyLeaderboard = getObjectInstance(env, "leaderboard", "global");
+        const dailyResetResponse = await dailyLeaderboard.fetch(dailyLeaderboardResetReq);
+        console.log(`  ✓ Daily leaderboard reset (${dailyResetResponse.status})`);
 
-        console.log(`✅ Daily game reset completed`);
+        console.log(`✅ Daily game reset completed (${forestIds.length} forests)`);
       } else {
         console.log(`⚠️ Cron triggered at unexpected time: ${triggerTime.toISOString()}`);
       }
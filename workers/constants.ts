@@ -15,6 +15,16 @@ export const PARTICIPATION_INTERVAL_SECONDS = 300;
  */
 export const PARTICIPATION_MAX_MULTIPLIER = 2.0;
 
+/**
+ * Multiplier gained per completed participation interval (+0.1x every 5 minutes, max after 50 minutes)
+ */
+export const PARTICIPATION_MULTIPLIER_STEP = 0.1;
+
+/**
+ * Seconds without input before a connected player stops earning participation time
+ */
+export const PARTICIPATION_IDLE_TIMEOUT_SECONDS = 60;
+
 /**
  * How often Nut Rush events occur (every 4 hours)
  */
@@ -25,6 +35,24 @@ export const NUT_RUSH_INTERVAL_HOURS = 4;
  */
 export const NUT_RUSH_DURATION_MINUTES = 10;
 
+/**
+ * Nut Rush event tuning (MVP 18: scheduled from ForestManager.alarm)
+ */
+export const NUT_RUSH = {
+  /** Tree drop interval range during a rush in milliseconds (normal: 30-120s) */
+  DROP_INTERVAL_MIN: 5000,
+  DROP_INTERVAL_MAX: 10000,
+
+  /** Walnuts dropped per interval during a rush (each from a random tree) */
+  DROPS_PER_INTERVAL: 2,
+
+  /** Find points multiplier while a rush is active */
+  POINTS_MULTIPLIER: 2,
+
+  /** Longest rush an admin can start in minutes */
+  MAX_ADMIN_DURATION_MINUTES: 60
+};
+
 /**
  * Point values for different game actions and walnut types
  */
@@ -48,10 +76,50 @@ export const POINTS = {
   FIRST_FINDER: 3
 };
 
+/**
+ * Finds needed in a cycle to earn POINTS.FIRST_FINDER (MVP 18: paid out at cycle settlement)
+ */
+export const FIRST_FINDER_FIND_COUNT = 10;
+
 /**
  * Default power-ups given to players when they join
  */
-export const DEFAULT_POWERUPS = ["ScentSniff", "FastDig", "DecoyNut"];
+export const DEFAULT_POWERUPS = ["ScentSniff", "FastDig", "DecoyNut"] as const;
+
+/**
+ * Power-up tuning (charges refill on the daily forest reset)
+ * MVP 18: Server-validated abilities triggered by use_powerup
+ */
+export const POWERUP_CONFIG = {
+  ScentSniff: {
+    /** Uses per day */
+    CHARGES: 3,
+    /** Time between uses in milliseconds */
+    COOLDOWN: 30000,
+    /** How long sniffed walnuts stay on the minimap in milliseconds */
+    DURATION: 8000,
+    /** Radius around the player that is sniffed */
+    RADIUS: 25
+  },
+  FastDig: {
+    /** Uses per day */
+    CHARGES: 3,
+    /** Time between uses in milliseconds */
+    COOLDOWN: 45000,
+    /** How long digging is faster in milliseconds */
+    DURATION: 20000,
+    /** Time a dig takes while active in milliseconds (normal: PICKUP_VALIDATION.DIG_DURATION) */
+    DIG_DURATION: 400
+  },
+  DecoyNut: {
+    /** Uses per day */
+    CHARGES: 2,
+    /** Time between uses in milliseconds */
+    COOLDOWN: 20000,
+    /** Points the finder loses when digging up a decoy */
+    FINDER_PENALTY: 3
+  }
+};
 
 export const TERRAIN_SIZE = 200; // Terrain width and depth in units
 export const TERRAIN_HEIGHT = 20; // Maximum terrain height in units
@@ -85,6 +153,9 @@ export const ANTI_CHEAT = {
   /** Number of violations before player is flagged */
   MAX_VIOLATIONS_BEFORE_FLAG: 3,
   
+  /** Number of violations before player is kicked (MVP 18) */
+  MAX_VIOLATIONS_BEFORE_KICK: 6,
+
   /** Time window for tracking violations in milliseconds */
   VIOLATION_WINDOW: 30000, // 30 seconds
   
@@ -117,5 +188,265 @@ export const MOVEMENT_VALIDATION = {
   MAX_BURST_SPEED: 8.0,
   
   /** Time window for burst speed validation */
-  BURST_SPEED_WINDOW: 0.1 // 100ms
+  BURST_SPEED_WINDOW: 0.1, // 100ms
+
+  /** Time window for sustained speed validation (smooths out network jitter) */
+  SPEED_SAMPLE_WINDOW: 1.0 // 1 second
+};
+
+/**
+ * Message schema validation (shared/MessageSchema.ts)
+ * MVP 18: Malformed or unknown client messages are rejected with an error reply and a strike
+ */
+export const MESSAGE_VALIDATION = {
+  /** Invalid messages allowed within STRIKE_WINDOW before the socket is closed */
+  MAX_STRIKES: 10,
+
+  /** Time window for counting strikes in milliseconds */
+  STRIKE_WINDOW: 60000 // 1 minute
+};
+
+/**
+ * Walnut pickup validation (server-authoritative finds)
+ * MVP 18: Reject forged or out-of-range walnut_found messages
+ */
+export const PICKUP_VALIDATION = {
+  /** Maximum horizontal distance to dig up a buried walnut (matches client findWalnut) */
+  MAX_BURIED_DISTANCE: 4,
+
+  /** Maximum horizontal distance to pick up bush, ground and golden walnuts (matches client findWalnut) */
+  MAX_DEFAULT_DISTANCE: 5,
+
+  /** Extra distance allowed for position updates still in flight (10Hz updates at 5 units/sec + jitter) */
+  DISTANCE_TOLERANCE: 1.5,
+
+  /** Time a dig takes in milliseconds - one find per dig (matches the client's dig animation) */
+  DIG_DURATION: 1000,
+
+  /** Slack on the dig interval in milliseconds (messages sent one dig apart can arrive closer together) */
+  DIG_TIME_TOLERANCE: 250
+};
+
+/**
+ * Walnut hide validation (server-authoritative placement)
+ * MVP 18: Hides must be at the hider's position, in a real bush, and never inside an obstacle
+ */
+export const HIDE_VALIDATION = {
+  /** Maximum horizontal distance from the hider to a buried walnut (client buries at the player's feet) */
+  MAX_BURY_DISTANCE: 1,
+
+  /** Maximum horizontal distance from the hider to the bush (matches client BUSH_PROXIMITY_THRESHOLD) */
+  MAX_BUSH_DISTANCE: 2,
+
+  /** Maximum distance from a bush hide to the shrub it goes in (client hides at the shrub center) */
+  BUSH_RADIUS: 1,
+
+  /** Extra distance allowed for position updates still in flight (same as pickup validation) */
+  DISTANCE_TOLERANCE: 1.5,
+
+  /** Tree trunk radius at scale 1 (matches client tree colliders) */
+  TREE_TRUNK_RADIUS: 0.3,
+
+  /** Stump radius at scale 1 (matches client stump colliders) */
+  STUMP_RADIUS: 0.5,
+
+  /** Rock radius at scale 1 (client uses mesh colliders - this only catches hides well inside a rock) */
+  ROCK_RADIUS: 0.5
+};
+
+/**
+ * Walnut throw validation (server-simulated projectiles)
+ * MVP 18: Reject throws from somewhere the player isn't
+ */
+export const THROW_VALIDATION = {
+  /** Maximum distance between the claimed throw origin and the server position (updates still in flight) */
+  MAX_ORIGIN_DISTANCE: 3,
+
+  /** Maximum distance from the throw origin to the aim point (client throw range is 20 from the camera) */
+  MAX_RANGE: 30,
+
+  /** Damage dealt by a walnut hit */
+  DAMAGE: 20
+};
+
+/**
+ * Lag-compensated hit registration
+ * MVP 18: Projectile hit checks rewind targets to the thrower's estimated view time
+ */
+export const LAG_COMPENSATION = {
+  /** Maximum rewind in milliseconds (players with worse latency must lead their targets) */
+  MAX_REWIND: 600,
+
+  /** Client render delay for remote players/NPCs in milliseconds (matches Game.ts INTERPOLATION_DELAY, 2x the 200ms snapshot tick) */
+  INTERPOLATION_DELAY: 400,
+
+  /** Positions kept per player/NPC (10Hz updates = 2.4s, covers MAX_REWIND + walnut flight + alarm delay) */
+  HISTORY_SIZE: 24,
+
+  /** How often the server measures round-trip time with a ping (milliseconds) */
+  PING_INTERVAL: 10000,
+
+  /** Weight of each new round-trip sample in the smoothed RTT (0-1) */
+  RTT_SMOOTHING: 0.25
+};
+
+/**
+ * Knockout credit (server-decided deaths)
+ * MVP 18: Deaths only happen when server-side health reaches zero
+ */
+export const KNOCKOUT_CREDIT = {
+  /** The last attacking player gets the knockout if they hit within this window (milliseconds) */
+  KNOCKOUT_WINDOW: 10000,
+
+  /** Other players who damaged the victim within this window get an assist (milliseconds) */
+  ASSIST_WINDOW: 15000,
+
+  /** Points for a knockout */
+  KNOCKOUT_POINTS: 5,
+
+  /** Points for an assist */
+  ASSIST_POINTS: 2,
+
+  /** Points the victim loses on death */
+  DEATH_PENALTY: 2
+};
+
+/**
+ * Hidden walnut visibility (per-player interest filtering)
+ * MVP 18: Other players' hidden walnuts are only sent to clients nearby
+ */
+export const WALNUT_VISIBILITY = {
+  /** Distance at which another player's buried/bush walnut is revealed */
+  DISCOVERY_RADIUS: 12,
+
+  /** Distance at which a revealed walnut is concealed again (larger than DISCOVERY_RADIUS to prevent flicker) */
+  CONCEAL_RADIUS: 15,
+
+  /** How often the alarm loop re-evaluates visibility (milliseconds) */
+  UPDATE_INTERVAL: 1000
+};
+
+/**
+ * Area of interest (server-side interest management)
+ * MVP 18: Hot-path updates only go to players near the entity that changed
+ */
+export const INTEREST_MANAGEMENT = {
+  /** Spatial grid cell size in units (200x200 world = 8x8 cells) */
+  GRID_CELL_SIZE: 25,
+
+  /** Distance at which another player enters a client's interest set */
+  PLAYER_RADIUS: 50,
+
+  /** Distance at which an NPC enters a client's interest set */
+  NPC_RADIUS: 40,
+
+  /** Distance at which a predator enters a client's interest set (larger - players need warning) */
+  PREDATOR_RADIUS: 60,
+
+  /** Extra distance before an entity leaves interest again (prevents enter/leave flicker at the edge) */
+  LEAVE_MARGIN: 10,
+
+  /** Entities within this distance get every update; beyond it updates are throttled */
+  FULL_RATE_RADIUS: 25,
+
+  /** Minimum time between updates for entities beyond FULL_RATE_RADIUS (milliseconds) */
+  DISTANT_UPDATE_INTERVAL: 500,
+
+  /** How often the alarm loop re-evaluates interest sets (milliseconds) */
+  UPDATE_INTERVAL: 500
+};
+
+/**
+ * Fixed-tick snapshots with delta compression
+ * MVP 18: One snapshot per alarm tick per client, holding only entities changed since the client's last ack
+ */
+export const SNAPSHOT_DELTA = {
+  /** Unacknowledged snapshots remembered per client (entities from older ones are simply resent) */
+  MAX_PENDING: 32
+};
+
+/**
+ * Session resume (seamless reconnect)
+ * MVP 18: Dropped clients reattach to their PlayerConnection and get only the broadcasts they missed
+ */
+export const SESSION_RESUME = {
+  /** Broadcast events kept per forest for replay (older gaps fall back to a full world sync) */
+  EVENT_LOG_SIZE: 256,
+  /** Event sequence numbers reserved in storage at a time (a restarted forest resumes numbering past the reservation) */
+  EVENT_SEQ_BLOCK: 1000
+};
+
+/**
+ * Write-behind player state (health, ammo, combat stats survive Durable Object restarts)
+ * MVP 18: Per-session state is flushed on a cadence and on disconnect, restored on join within the same cycle
+ */
+export const PLAYER_STATE_PERSISTENCE = {
+  /** How often the alarm loop writes changed player state to storage (milliseconds) */
+  FLUSH_INTERVAL: 10000
+};
+
+/**
+ * WebSocket hibernation (ForestManager uses the Durable Object hibernation API)
+ * MVP 18: Idle forests stop their alarm loop so the object can sleep with sockets still open
+ */
+export const HIBERNATION = {
+  /** Alarm loop pauses once no connected player has sent input for this long (milliseconds, next input resumes it) */
+  IDLE_ALARM_PAUSE: 120000
+};
+
+/**
+ * Forest sharding (ForestLobby matchmaking)
+ * MVP 18: Players are spread across forest-<n> ForestManager instances
+ */
+export const FOREST_SHARDING = {
+  /** Name of the single ForestLobby instance that tracks shard population */
+  LOBBY_NAME: 'global-lobby',
+
+  /** Prefix for forest shard names (forest-1, forest-2, ...) */
+  INSTANCE_PREFIX: 'forest-',
+
+  /** Shard used when no shard is specified (admin endpoints, legacy clients) */
+  DEFAULT_FOREST_ID: 'forest-1',
+
+  /** ForestManager object name of the default shard (the pre-sharding forest, so its stored world carries over) */
+  DEFAULT_FOREST_OBJECT_NAME: 'daily-forest',
+
+  /** WalnutRegistry name kept by the default shard (it inherits the walnuts hidden before sharding) */
+  DEFAULT_WALNUT_REGISTRY_NAME: 'global',
+
+  /** Matchmaking stops sending random joins to a shard at this population */
+  SOFT_PLAYER_CAP: 20,
+
+  /** Friends joining by forest id may exceed the soft cap up to this population */
+  HARD_PLAYER_CAP: 30,
+
+  /** Maximum number of shards the lobby will open */
+  MAX_INSTANCES: 10
+};
+
+/**
+ * Raid log (who dug up a player's hidden walnuts)
+ * MVP 18: Kept per player in PlayerIdentity, owners are also notified live if online
+ */
+export const RAID_LOG = {
+  /** Raids remembered per player (oldest are dropped first) */
+  MAX_ENTRIES: 50
+};
+
+/**
+ * Category leaderboards
+ * MVP 18: K/D is ranked from one report's knockouts and deaths, so a single lucky cycle can't top the board
+ */
+export const CATEGORY_LEADERBOARD = {
+  /** Knockouts a single report needs before its K/D counts for the kd board */
+  KD_MIN_KNOCKOUTS: 5
+};
+
+/**
+ * Tree growth (unfound player walnuts grow into trees)
+ * MVP 18: Shared by WalnutRegistry growth checks and the "My Stash" journal countdown
+ */
+export const TREE_GROWTH = {
+  /** How long a hidden walnut must stay unfound before it is eligible to grow (milliseconds) */
+  GROWTH_TIME: 60000
 };
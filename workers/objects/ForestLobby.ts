@@ -0,0 +1,213 @@
+// MVP 18: ForestLobby - Matchmaking router for sharded ForestManager instances
+// Tracks per-shard population and assigns joins to forest-<n> with a soft player cap
+
+import { FOREST_SHARDING } from '../constants';
+
+interface DurableObjectState {
+  storage: DurableObjectStorage;
+  id: DurableObjectId;
+}
+
+interface DurableObjectStorage {
+  get<T>(key: string): Promise<T | null>;
+  put<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  deleteAll(): Promise<void>;
+  list<T>(options?: { prefix?: string }): Promise<Map<string, T>>;
+}
+
+interface DurableObjectId {
+  toString(): string;
+  equals(other: DurableObjectId): boolean;
+}
+
+interface ForestInstance {
+  forestId: string; // 'forest-1', 'forest-2', ...
+  playerCount: number; // Connected players (reported by ForestManager, bumped on assignment)
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Check that a forest id is a valid shard name (forest-1 .. forest-MAX_INSTANCES)
+ */
+export function isValidForestId(forestId: string | null | undefined): forestId is string {
+  if (!forestId || !forestId.startsWith(FOREST_SHARDING.INSTANCE_PREFIX)) {
+    return false;
+  }
+  // Canonical form only - 'forest-01' or 'forest-1.0' would be separate Durable Objects outside MAX_INSTANCES
+  const suffix = forestId.substring(FOREST_SHARDING.INSTANCE_PREFIX.length);
+  if (!/^[1-9]\d*$/.test(suffix)) {
+    return false;
+  }
+  const index = Number(suffix);
+  return index >= 1 && index <= FOREST_SHARDING.MAX_INSTANCES;
+}
+
+export default class ForestLobby {
+  state: DurableObjectState;
+  storage: DurableObjectStorage;
+  instances: Map<string, ForestInstance> = new Map();
+  initialized = false;
+
+  constructor(state: DurableObjectState, env?: any) {
+    this.state = state;
+    this.storage = state.storage;
+  }
+
+  // Initialize by loading shard population from storage
+  async init() {
+    if (!this.initialized) {
+      const stored = await this.storage.get<ForestInstance[]>('instances');
+      if (stored && Array.isArray(stored)) {
+        this.instances = new Map(stored.map(instance => [instance.forestId, instance]));
+      }
+      this.initialized = true;
+    }
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    await this.init();
+
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    // Assign a joining player to a forest shard
+    if (path.endsWith("/assign") && request.method === "POST") {
+      try {
+        const { forestId } = await request.json() as { forestId?: string };
+        const assignment = this.assignForest(forestId);
+        await this.save();
+
+        return new Response(JSON.stringify(assignment), {
+          headers: { "Content-Type": "application/json" }
+        });
+      } catch (error) {
+        return new Response(JSON.stringify({
+          error: "Failed to assign forest"
+        }), {
+          status: 500,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+    }
+
+    // ForestManager reports its connected player count
+    if (path.endsWith("/report") && request.method === "POST") {
+      try {
+        const { forestId, playerCount } = await request.json() as { forestId: string; playerCount: number };
+
+        if (!isValidForestId(forestId) || typeof playerCount !== 'number') {
+          return new Response(JSON.stringify({
+            error: "Invalid forestId or playerCount"
+          }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+
+        const instance = this.getOrCreateInstance(forestId);
+        instance.playerCount = Math.max(0, playerCount);
+        instance.updatedAt = Date.now();
+        await this.save();
+
+        return new Response(JSON.stringify({
+          success: true
+        }), {
+          headers: { "Content-Type": "application/json" }
+        });
+      } catch (error) {
+        return new Response(JSON.stringify({
+          error: "Failed to report population"
+        }), {
+          status: 500,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+    }
+
+    // List all known shards (cron reset, admin API)
+    if (path.endsWith("/instances") && request.method === "GET") {
+      const instances = Array.from(this.instances.values())
+        .sort((a, b) => this.getIndex(a.forestId) - this.getIndex(b.forestId));
+
+      return new Response(JSON.stringify({
+        instances,
+        count: instances.length,
+        totalPlayers: instances.reduce((sum, instance) => sum + instance.playerCount, 0),
+        softPlayerCap: FOREST_SHARDING.SOFT_PLAYER_CAP,
+        hardPlayerCap: FOREST_SHARDING.HARD_PLAYER_CAP
+      }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    return new Response("Not Found", { status: 404 });
+  }
+
+  /**
+   * Pick a shard for a joining player
+   * - Requested forest (friend join): honored up to the hard cap
+   * - Otherwise: fullest shard still under the soft cap (keeps forests lively)
+   * - All shards at soft cap: open the next shard, or fall back to the emptiest one
+   */
+  private assignForest(requestedForestId?: string): { forestId: string; requestedFull: boolean } {
+    let requestedFull = false;
+
+    if (isValidForestId(requestedForestId)) {
+      const requested = this.getOrCreateInstance(requestedForestId);
+      if (requested.playerCount < FOREST_SHARDING.HARD_PLAYER_CAP) {
+        return { forestId: this.reserveSlot(requested), requestedFull };
+      }
+      requestedFull = true;
+    }
+
+    const instances = Array.from(this.instances.values())
+      .sort((a, b) => this.getIndex(a.forestId) - this.getIndex(b.forestId));
+
+    const open = instances.filter(instance => instance.playerCount < FOREST_SHARDING.SOFT_PLAYER_CAP);
+    if (open.length > 0) {
+      const fullest = open.reduce((best, instance) => instance.playerCount > best.playerCount ? instance : best);
+      return { forestId: this.reserveSlot(fullest), requestedFull };
+    }
+
+    // Open the lowest unused shard index
+    for (let index = 1; index <= FOREST_SHARDING.MAX_INSTANCES; index++) {
+      const forestId = `${FOREST_SHARDING.INSTANCE_PREFIX}${index}`;
+      if (!this.instances.has(forestId)) {
+        return { forestId: this.reserveSlot(this.getOrCreateInstance(forestId)), requestedFull };
+      }
+    }
+
+    // Every shard is open and over the soft cap - spread load onto the emptiest
+    const emptiest = instances.reduce((best, instance) => instance.playerCount < best.playerCount ? instance : best);
+    return { forestId: this.reserveSlot(emptiest), requestedFull };
+  }
+
+  // Count the joining player immediately so simultaneous joins don't all pick the same shard
+  // (ForestManager's next population report replaces this estimate)
+  private reserveSlot(instance: ForestInstance): string {
+    instance.playerCount++;
+    instance.updatedAt = Date.now();
+    return instance.forestId;
+  }
+
+  private getOrCreateInstance(forestId: string): ForestInstance {
+    let instance = this.instances.get(forestId);
+    if (!instance) {
+      const now = Date.now();
+      instance = { forestId, playerCount: 0, createdAt: now, updatedAt: now };
+      this.instances.set(forestId, instance);
+      console.log(`🌲 LOBBY: Opened new forest shard ${forestId}`);
+    }
+    return instance;
+  }
+
+  private getIndex(forestId: string): number {
+    return Number(forestId.substring(FOREST_SHARDING.INSTANCE_PREFIX.length));
+  }
+
+  private async save(): Promise<void> {
+    await this.storage.put('instances', Array.from(this.instances.values()));
+  }
+}
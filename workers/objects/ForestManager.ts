@@ -8,9 +8,18 @@
 
 import { DurableObject } from 'cloudflare:workers';
 import { NPCManager } from './NPCManager';
-import { PredatorManager } from './PredatorManager';
-import { Env } from '../types';
+import { PredatorManager, PredatorAttackEvent } from './PredatorManager';
+import { ProjectileManager, ProjectileResult, ProjectileTarget } from './ProjectileManager';
+import { PositionHistory } from './PositionHistory';
+import { SpatialGrid } from './SpatialGrid';
+import { SettlementRecord, mergeSettlements } from './SquirrelSession';
+import { Env, PowerUpType, PowerUpState } from '../types';
 import { isCharacterAvailable } from '../constants/CharacterTiers';
+import { getTerrainHeightAt } from '../shared/TerrainHeight';
+import { PROJECTILE_WALNUT_RADIUS } from '../shared/ProjectilePhysics';
+import { BinaryCodec, isBinaryMessageType, negotiateProtocolVersion } from '../shared/BinaryProtocol';
+import { ClientMessage, ClientMessageOf, ServerMessageOf, validateClientMessage } from '../shared/MessageSchema';
+import { ANTI_CHEAT, DEFAULT_POWERUPS, FIRST_FINDER_FIND_COUNT, FOREST_SHARDING, HIBERNATION, HIDE_VALIDATION, INTEREST_MANAGEMENT, KNOCKOUT_CREDIT, LAG_COMPENSATION, MESSAGE_VALIDATION, MOVEMENT_VALIDATION, NUT_RUSH, NUT_RUSH_DURATION_MINUTES, NUT_RUSH_INTERVAL_HOURS, PARTICIPATION_IDLE_TIMEOUT_SECONDS, PARTICIPATION_INTERVAL_SECONDS, PARTICIPATION_MAX_MULTIPLIER, PARTICIPATION_MULTIPLIER_STEP, PICKUP_VALIDATION, PLAYER_STATE_PERSISTENCE, POINTS, POWERUP_CONFIG, SESSION_RESUME, SNAPSHOT_DELTA, THROW_VALIDATION, TREE_GROWTH, WALNUT_VISIBILITY } from '../constants';
 
 // Use Cloudflare's built-in types - no need to redefine interfaces
 
@@ -43,9 +52,11 @@ interface PlayerConnection {
   maxHealth: number; // Always 100
   score: number; // Player's current score (tracked server-side)
   lastAttackerId: string | null; // Who hit this player last (for knockout credit)
+  recentAttackers: Map<string, number>; // MVP 18: Attacker ID -> last damage timestamp (knockout window + assists)
   combatStats: { // MVP 8: Track combat actions for scoring
     hits: number; // Successful hits on opponents
     knockouts: number; // Players knocked out
+    assists: number; // MVP 18: Damaged a player someone else knocked out
     deaths: number; // Times player died
   };
   invulnerableUntil: number | null; // MVP 8: Timestamp when respawn invulnerability expires
@@ -57,6 +68,7 @@ interface PlayerConnection {
 
   // MVP 14: Tree growing bonus tracking
   treesGrownCount: number; // Cumulative count of trees grown from player's hidden walnuts
+  walnutStats: { hidden: number; found: number }; // MVP 18: Category leaderboards (walnuts hidden/found)
   bonusMilestones: Set<number>; // Track awarded bonuses to prevent awarded duplicate (e.g., Set{20, 40})
 
   // MVP 15: Game Modes
@@ -68,6 +80,102 @@ interface PlayerConnection {
     toMode: 'standard' | 'carefree';
     scoreAtSwitch: number;
   }>; // Track mode switches for analytics
+
+  // MVP 18: Other players' hidden walnuts this client currently knows about
+  revealedWalnuts: Set<string>;
+
+  // MVP 18: Movement validation (anti-cheat)
+  lastMovementUpdate: number; // Timestamp of last accepted position update
+  speedSampleStart: { position: { x: number; y: number; z: number }; time: number }; // Start of sustained speed window
+  movementViolations: number[]; // Violation timestamps within VIOLATION_WINDOW
+  respawnTeleportPending: boolean; // Server moved the player to a respawn point - client positions elsewhere are stale until it gets there
+  lastFindAt: number; // MVP 18: Accepted walnut find - the next one must wait out the dig (FastDig shortens it)
+
+  // MVP 18: Message schema validation
+  invalidMessageStrikes: number[]; // Rejected message timestamps within STRIKE_WINDOW
+  awaitingResync: boolean; // Restored after hibernation - frames still in flight use the client's old codec tables
+
+  // MVP 18: Power-ups (charges persisted per sessionToken, refilled on daily reset)
+  powerUps: Record<PowerUpType, PowerUpState>;
+
+  // MVP 18: Participation multiplier (active seconds persisted per sessionToken, reset each cycle)
+  participationSeconds: number; // Connected, non-idle seconds this cycle
+  multiplier: number; // 1.0-2.0x applied to every point award
+  lastInputAt: number; // Last movement/action (idle players stop earning participation)
+
+  // MVP 18: Binary protocol for hot-path messages (negotiated on /ws connect)
+  protocolVersion: number; // 0 = JSON only
+  codec: BinaryCodec | null; // Per-socket interned string tables
+
+  // MVP 18: Lag compensation (projectile hit checks rewind targets to the thrower's view time)
+  positionHistory: PositionHistory; // Recently accepted positions (server receive time)
+  rttMs: number | null; // Smoothed round-trip time from server pings (null until first pong)
+
+  // MVP 18: Area of interest - entities this client gets hot-path updates for
+  interestSet: Map<string, InterestState>; // Entity key ('player:<id>', 'npc:<id>', 'predator:<id>') -> send state
+
+  // MVP 18: Snapshots sent but not yet acknowledged (oldest first)
+  pendingSnapshots: Array<{ seq: number; versions: Map<string, number> }>;
+
+  // MVP 18: Write-behind persistence - signature of the last state flushed to storage (null = not written yet)
+  persistedStateSignature: string | null;
+
+  // MVP 18: Session resume - issued in world_state, lets a dropped client reattach to this connection
+  resumeToken: string;
+}
+
+// MVP 18: Broadcast kept for session resume replay
+interface LoggedEvent {
+  seq: number;
+  excludeSquirrelId: string | null; // broadcastToOthers sender (never replayed to them)
+  serializedMessage: string;
+}
+
+// MVP 18: In-flight player state saved per sessionToken (cleared by the daily reset)
+interface PersistedPlayerState {
+  health: number;
+  walnutInventory: number;
+  combatStats: { hits: number; knockouts: number; assists: number; deaths: number };
+  treesGrownCount: number;
+  walnutStats?: { hidden: number; found: number }; // MVP 18: Missing in states saved before category leaderboards
+  bonusMilestones: number[];
+  savedAt: number;
+}
+
+// MVP 18: Per-socket identity kept in the socket attachment (survives hibernation - rebuilds activePlayers on wake)
+interface SocketAttachment {
+  squirrelId: string;
+  characterId: string;
+  accessoryId: string;
+  sessionToken: string;
+  username: string;
+  isAuthenticated: boolean;
+  emailVerified: boolean;
+  protocolVersion: number;
+  resumeToken: string; // MVP 18: Session resume survives hibernation too
+}
+
+// MVP 18: What one client has been sent about one entity in its area of interest
+interface InterestState {
+  lastSentAt: number; // Last time the entity went out in a snapshot (distant throttling)
+  ackedVersion: number; // Entity version the client acknowledged (0 = nothing yet, send full state)
+}
+
+// MVP 18: Latest state of a player/NPC, versioned by the snapshot it first appears in
+interface SnapshotState {
+  kind: 'player' | 'npc';
+  entry: any; // player_update / npc_updates_batch entry shape
+  signature: string; // Compared to detect real changes
+  version: number;
+}
+
+// MVP 18: Entity snapshot in the interest grid (rebuilt every interest sweep)
+interface InterestEntity {
+  key: string; // 'player:<id>' | 'npc:<id>' | 'predator:<id>'
+  kind: 'player' | 'npc' | 'predator';
+  id: string;
+  position: { x: number; y: number; z: number };
+  rotationY: number;
 }
 
 
@@ -82,6 +190,33 @@ interface Walnut {
   isGolden?: boolean; // MVP 8: true = golden bonus walnut (5pts), false/undefined = regular (3pts/1pt)
   immunePlayerId?: string; // MVP 8: Player who can't pick up this walnut (hit by projectile)
   immuneUntil?: number; // MVP 8: Timestamp when immunity expires (1.5 seconds after hit)
+  isDecoy?: boolean; // MVP 18: DecoyNut power-up - finder loses points (never sent to other players)
+  ownerName?: string; // MVP 18: Hider's username (their raid log lives in PlayerIdentity, even while offline)
+}
+
+// MVP 18: Player flagged for repeated movement violations (exposed via admin API)
+interface MovementFlag {
+  squirrelId: string;
+  username: string;
+  violationCount: number; // Violations within the window when last flagged
+  lastReason: string; // 'teleport' | 'burst' | 'speed'
+  flaggedAt: number;
+  lastViolationAt: number;
+  kicked: boolean;
+}
+
+// MVP 18: Per-cycle find tracking for the first-finder bonus (cleared at settlement)
+interface CycleStats {
+  findCounts: Record<string, number>; // squirrelId -> walnuts found this cycle
+  firstFinder: { squirrelId: string; username: string; reachedAt: number } | null;
+}
+
+// MVP 18: Nut Rush world event schedule (persisted so restarts keep the cadence)
+interface NutRushState {
+  activeUntil: number; // 0 = no rush running
+  durationMs: number; // Length of the current/last rush
+  nextRushAt: number; // Next scheduled rush start (0 = not scheduled yet)
+  startedBy: 'schedule' | 'admin' | null;
 }
 
 interface ForestObject {
@@ -136,6 +271,10 @@ export default class ForestManager extends DurableObject {
   // Simple WebSocket management
   activePlayers: Map<string, PlayerConnection> = new Map();
 
+  // MVP 18: Forest sharding - this instance's shard name (also names its WalnutRegistry)
+  private forestId: string = FOREST_SHARDING.DEFAULT_FOREST_ID;
+  private lastReportedPopulation: number = -1;
+
   // MVP 7: NPC System
   npcManager: NPCManager;
   private lastNPCUpdate: number = 0;
@@ -148,6 +287,25 @@ export default class ForestManager extends DurableObject {
   private readonly PREDATOR_UPDATE_INTERVAL = 100; // 100ms = 10 updates/sec (predators need responsive AI)
   private targetPredatorCount: number = 2; // Default target count for auto-spawn
 
+  // MVP 18: Server-simulated walnut throws (players and NPCs)
+  projectileManager: ProjectileManager;
+  private npcPositionHistory: Map<string, PositionHistory> = new Map(); // Lag compensation for NPC targets
+  private lastPingTime: number = 0;
+
+  // MVP 18: Area of interest - players, NPCs and predators bucketed by position (rebuilt every sweep)
+  private interestGrid: SpatialGrid<InterestEntity> = new SpatialGrid(INTEREST_MANAGEMENT.GRID_CELL_SIZE);
+  private interestEntities: Map<string, InterestEntity> = new Map();
+  private lastInterestUpdate: number = 0;
+
+  // MVP 18: Session resume - recent broadcasts replayed to clients that reconnect (oldest first)
+  private eventLog: LoggedEvent[] = [];
+  private eventSeq: number = 0;
+  private eventSeqReserved: number = 0; // Persisted high-water mark - numbering never restarts below it
+
+  // MVP 18: Fixed-tick snapshots - latest player/NPC state, sent as per-client deltas each alarm tick
+  private snapshotStates: Map<string, SnapshotState> = new Map();
+  private snapshotSeq: number = 0;
+
   // MVP 9: Tree walnut drop system
   // Purpose: Replenish walnut pool when players/NPCs consume walnuts for health
   // Frequency: 30s-2min random intervals, ONE random tree per drop
@@ -157,6 +315,12 @@ export default class ForestManager extends DurableObject {
   // MVP 9: Tree growth system
   private lastTreeGrowthCheck: number = 0;
 
+  // MVP 18: Nut Rush - every NUT_RUSH_INTERVAL_HOURS tree drops surge and finds score extra
+  private nutRush: NutRushState = { activeUntil: 0, durationMs: 0, nextRushAt: 0, startedBy: null };
+
+  // MVP 18: First-finder race for the current cycle
+  private cycleStats: CycleStats = { findCounts: {}, firstFinder: null };
+
   // MVP 7.1: Rate limiting state
   private connectionAttempts: Map<string, number[]> = new Map(); // IP -> timestamps
   private messageRateLimits: Map<string, {
@@ -164,8 +328,12 @@ export default class ForestManager extends DurableObject {
     walnutHide: number[];
     walnutFind: number[];
     chat: number[];
+    stash: number[];
   }> = new Map(); // squirrelId -> action timestamps
 
+  // MVP 18: Players flagged for movement violations (squirrelId -> flag)
+  private movementFlags: Map<string, MovementFlag> = new Map();
+
   // MVP 13: Metrics tracking
   private metrics = {
     treesGrownToday: 0,
@@ -206,6 +374,104 @@ export default class ForestManager extends DurableObject {
     this.predatorManager['onPredatorFlee'] = () => {
       this.metrics.predatorFleesCount++;
     };
+
+    // MVP 18: Predator bites/steals are applied to server state here (not by clients)
+    this.predatorManager['onPredatorAttack'] = (attack: PredatorAttackEvent) => {
+      this.resolvePredatorAttack(attack).catch(error => {
+        console.error(`❌ Failed to resolve predator attack by ${attack.predatorId}:`, error);
+      });
+    };
+
+    // MVP 18: Initialize Projectile Manager - hits and landing spots are decided here (not by clients)
+    this.projectileManager = new ProjectileManager();
+    this.projectileManager['onProjectileResolved'] = (result: ProjectileResult) => {
+      this.resolveProjectile(result).catch(error => {
+        console.error(`❌ Failed to resolve projectile ${result.projectileId}:`, error);
+      });
+    };
+
+    // MVP 18: Restore shard name before alarms run (alarm has no request to read it from)
+    ctx.blockConcurrencyWhile(async () => {
+      const storedForestId = await this.storage.get('forestId');
+      if (typeof storedForestId === 'string') {
+        this.forestId = storedForestId;
+      }
+
+      // MVP 18: Terrain seed is needed before any AI tick or position validation
+      const storedSeed = await this.storage.get('terrainSeed');
+      if (typeof storedSeed === 'number') {
+        this.terrainSeed = storedSeed;
+      }
+
+      // MVP 18: Metrics, config, flags, cycle stats and Nut Rush schedule (wakes skip fetch)
+      await this.loadPersistedState();
+
+      // MVP 18: Sockets accepted before hibernation are still open - rebuild their player connections
+      await this.restoreHibernatedConnections();
+    });
+  }
+
+  /**
+   * MVP 18: Load persisted forest state (constructor - hibernation wakes go straight to
+   * webSocketMessage/alarm and never pass through fetch)
+   */
+  private async loadPersistedState(): Promise<void> {
+    // MVP 13: Metrics and config
+    const storedMetrics = await this.storage.get('metrics') as any;
+    if (storedMetrics) {
+      // Merge stored metrics with defaults to handle new properties
+      this.metrics = {
+        treesGrownToday: storedMetrics.treesGrownToday ?? this.metrics.treesGrownToday,
+        projectilesThrownToday: storedMetrics.projectilesThrownToday ?? this.metrics.projectilesThrownToday,
+        hitsToday: storedMetrics.hitsToday ?? this.metrics.hitsToday,
+        npcDeathsToday: storedMetrics.npcDeathsToday ?? this.metrics.npcDeathsToday,
+        predatorFleesCount: storedMetrics.predatorFleesCount ?? this.metrics.predatorFleesCount,
+        peakPlayersToday: storedMetrics.peakPlayersToday ?? this.metrics.peakPlayersToday,
+        totalUniquePlayersEver: storedMetrics.totalUniquePlayersEver ?? this.metrics.totalUniquePlayersEver
+      };
+    }
+
+    const storedConfig = await this.storage.get('treeGrowthConfig');
+    if (storedConfig) {
+      this.treeGrowthConfig = storedConfig;
+    }
+
+    const storedBonusConfig = await this.storage.get('treeGrowingBonus');
+    if (storedBonusConfig) {
+      this.treeGrowingBonus = storedBonusConfig;
+    }
+
+    const storedPlayerIds = await this.storage.get('uniquePlayerIds');
+    if (storedPlayerIds && Array.isArray(storedPlayerIds)) {
+      this.uniquePlayerIds = new Set(storedPlayerIds);
+    }
+
+    const storedMovementFlags = await this.storage.get('movementFlags');
+    if (storedMovementFlags && Array.isArray(storedMovementFlags)) {
+      this.movementFlags = new Map((storedMovementFlags as MovementFlag[]).map(flag => [flag.squirrelId, flag]));
+    }
+
+    const storedCycleStats = await this.storage.get('cycleStats') as CycleStats | undefined;
+    if (storedCycleStats) {
+      this.cycleStats = storedCycleStats;
+    }
+
+    // MVP 18: Load Nut Rush schedule (first run schedules the first rush)
+    const storedNutRush = await this.storage.get('nutRush') as NutRushState | undefined;
+    if (storedNutRush) {
+      this.nutRush = storedNutRush;
+    } else if (this.nutRush.nextRushAt === 0) {
+      this.nutRush.nextRushAt = Date.now() + NUT_RUSH_INTERVAL_HOURS * 60 * 60 * 1000;
+      await this.storage.put('nutRush', this.nutRush);
+    }
+
+    // MVP 18: Session resume numbering continues past anything an earlier instance handed out,
+    // so a cursor from before an eviction is recognised as stale instead of skipping events
+    const storedEventSeq = await this.storage.get('eventSeqReserved') as number | undefined;
+    if (typeof storedEventSeq === 'number') {
+      this.eventSeq = storedEventSeq;
+      this.eventSeqReserved = storedEventSeq;
+    }
   }
 
   /**
@@ -288,7 +554,7 @@ export default class ForestManager extends DurableObject {
    * MVP 7.1: Check message rate limit for specific action types
    * Returns true if rate limit allows, false if exceeded
    */
-  private checkMessageRateLimit(squirrelId: string, actionType: 'position' | 'walnutHide' | 'walnutFind' | 'chat'): boolean {
+  private checkMessageRateLimit(squirrelId: string, actionType: 'position' | 'walnutHide' | 'walnutFind' | 'chat' | 'stash'): boolean {
     const now = Date.now();
 
     // Get or create rate limit tracking for this player
@@ -297,7 +563,8 @@ export default class ForestManager extends DurableObject {
         position: [],
         walnutHide: [],
         walnutFind: [],
-        chat: []
+        chat: [],
+        stash: []
       });
     }
 
@@ -308,7 +575,8 @@ export default class ForestManager extends DurableObject {
       position: { limit: 20, window: 1000 },      // 20 updates per second
       walnutHide: { limit: 10, window: 60000 },   // 10 hides per minute
       walnutFind: { limit: 20, window: 60000 },   // 20 finds per minute
-      chat: { limit: 5, window: 10000 }           // 5 messages per 10 seconds
+      chat: { limit: 5, window: 10000 },          // 5 messages per 10 seconds
+      stash: { limit: 10, window: 10000 }         // MVP 18: 10 stash journal refreshes per 10 seconds
     };
 
     const config = rateLimitConfig[actionType];
@@ -352,6 +620,17 @@ export default class ForestManager extends DurableObject {
     if (hasNPCs && now - this.lastNPCUpdate >= this.NPC_UPDATE_INTERVAL) {
       this.npcManager.update();
       this.lastNPCUpdate = now;
+      this.recordNPCPositions(now);
+    }
+
+    // MVP 18: Measure round-trip time for lag-compensated hit checks
+    if (hasPlayers && now - this.lastPingTime >= LAG_COMPENSATION.PING_INTERVAL) {
+      this.lastPingTime = now;
+      this.activePlayers.forEach((player) => {
+        if (!player.isDisconnected) {
+          this.sendMessage(player.socket, { type: 'ping', serverTime: now });
+        }
+      });
     }
 
     // MVP 12: Update Predators every 100ms (only if players exist - predators target players)
@@ -360,12 +639,29 @@ export default class ForestManager extends DurableObject {
       this.lastPredatorUpdate = now;
     }
 
+    // MVP 18: One delta snapshot per client per tick (players + NPCs changed since their last ack)
+    if (hasPlayers) {
+      this.sendSnapshots(now);
+    }
+
+    // MVP 18: Advance thrown walnuts every tick (sub-stepped inside ProjectileManager)
+    if (this.projectileManager.getCount() > 0) {
+      this.updateProjectiles(now);
+    }
+
+    // MVP 18: Start/end scheduled Nut Rush events
+    await this.updateNutRush(now);
+
     // MVP 9: Tree walnut drops (only if players exist - no need to drop for NPCs only)
     if (hasPlayers && now - this.lastTreeWalnutDrop >= this.nextTreeDropInterval) {
-      await this.dropTreeWalnut();
+      // MVP 18: Nut Rush drops from several trees at a much shorter interval
+      const isNutRush = this.isNutRushActive(now);
+      const dropCount = isNutRush ? NUT_RUSH.DROPS_PER_INTERVAL : 1;
+      for (let i = 0; i < dropCount; i++) {
+        await this.dropTreeWalnut();
+      }
       this.lastTreeWalnutDrop = now;
-      // Randomize next drop interval: 30-120 seconds (0.5-2 minutes)
-      this.nextTreeDropInterval = 30000 + Math.random() * 90000;
+      this.nextTreeDropInterval = this.getNextTreeDropInterval();
     }
 
     // MVP 9: Check for walnuts ready to grow into trees every 20 seconds
@@ -375,6 +671,34 @@ export default class ForestManager extends DurableObject {
       await this.checkTreeGrowth();
     }
 
+    // MVP 18: Accrue participation time for connected, non-idle players
+    if (hasPlayers && now - this.lastParticipationUpdate >= this.PARTICIPATION_UPDATE_INTERVAL) {
+      // Cap elapsed time so the first tick after hibernation doesn't grant offline time
+      const elapsedMs = this.lastParticipationUpdate > 0
+        ? Math.min(now - this.lastParticipationUpdate, this.PARTICIPATION_UPDATE_INTERVAL * 2)
+        : 0;
+      this.lastParticipationUpdate = now;
+      await this.updateParticipation(elapsedMs / 1000);
+    }
+
+    // MVP 18: Write-behind - save changed health/ammo/combat stats so restarts don't reset them
+    if (hasPlayers && now - this.lastPlayerStateFlush >= PLAYER_STATE_PERSISTENCE.FLUSH_INTERVAL) {
+      this.lastPlayerStateFlush = now;
+      await this.flushPlayerStates(Array.from(this.activePlayers.values()));
+    }
+
+    // MVP 18: Reveal/conceal other players' hidden walnuts as players move around
+    if (hasPlayers && now - this.lastWalnutVisibilityUpdate >= WALNUT_VISIBILITY.UPDATE_INTERVAL) {
+      this.lastWalnutVisibilityUpdate = now;
+      this.updateWalnutVisibility();
+    }
+
+    // MVP 18: Move players, NPCs and predators in/out of each client's update stream
+    if (hasPlayers && now - this.lastInterestUpdate >= INTEREST_MANAGEMENT.UPDATE_INTERVAL) {
+      this.lastInterestUpdate = now;
+      this.updateInterest();
+    }
+
     // MVP 5.8: Check player disconnects every 10 seconds
     const DISCONNECT_CHECK_INTERVAL = 10000; // 10 seconds
     const DISCONNECT_TIMEOUT = 30 * 1000; // 30 seconds (industry standard)
@@ -389,6 +713,7 @@ export default class ForestManager extends DurableObject {
 
         // Remove player completely if inactive for 5+ minutes
         if (timeSinceActivity > REMOVAL_TIMEOUT) {
+          await this.flushPlayerStates([player]); // MVP 18
           this.activePlayers.delete(playerId);
           this.broadcastToOthers(playerId, {
             type: 'player_leave',
@@ -414,17 +739,62 @@ export default class ForestManager extends DurableObject {
           });
         }
       }
+
+      // MVP 18: Keep lobby matchmaking in sync (covers socket closes and joins that never arrived)
+      this.reportPopulationToLobby(true);
     }
 
     // MVP 7.2 CRITICAL: Only reschedule if there are active players OR NPCs
     // Re-check after potential NPC despawn above
     if (this.activePlayers.size > 0 || this.npcManager.getNPCCount() > 0) {
+      // MVP 18: Everyone connected is AFK - stop ticking so the object can hibernate (next input resumes)
+      if (this.isForestIdle(now)) {
+        this.alarmPaused = true;
+        console.log('💤 All players idle - pausing alarm until the next input');
+        return;
+      }
       await this.storage.setAlarm(Date.now() + this.NPC_UPDATE_INTERVAL);
     } else {
     }
   }
 
   private lastDisconnectCheck: number = 0;
+  private alarmPaused: boolean = false; // MVP 18: Alarm stopped while every player is idle
+
+  /**
+   * MVP 18: True when players are connected but none has sent input for HIBERNATION.IDLE_ALARM_PAUSE
+   * Disconnected players and walnuts in flight keep the alarm running (removal checks, hit resolution)
+   */
+  private isForestIdle(now: number): boolean {
+    const players = Array.from(this.activePlayers.values());
+    if (players.length === 0 || players.some(p => p.isDisconnected) || this.projectileManager.getCount() > 0) {
+      return false;
+    }
+    return players.every(p => now - p.lastInputAt >= HIBERNATION.IDLE_ALARM_PAUSE);
+  }
+
+  /**
+   * MVP 18: Report connected player count to ForestLobby (only when it changed, unless forced)
+   * Fire and forget - matchmaking tolerates slightly stale counts
+   */
+  private reportPopulationToLobby(force: boolean = false): void {
+    const playerCount = Array.from(this.activePlayers.values()).filter(p => !p.isDisconnected).length;
+    if (!force && playerCount === this.lastReportedPopulation) {
+      return;
+    }
+    this.lastReportedPopulation = playerCount;
+
+    const lobbyId = this.env.FOREST_LOBBY.idFromName(FOREST_SHARDING.LOBBY_NAME);
+    const lobby = this.env.FOREST_LOBBY.get(lobbyId);
+    lobby.fetch(new Request('http://lobby/report', {
+      method: 'POST',
+      body: JSON.stringify({ forestId: this.forestId, playerCount })
+    })).catch(e => console.error('Failed to report population to lobby', e));
+  }
+  private lastWalnutVisibilityUpdate: number = 0;
+  private lastParticipationUpdate: number = 0;
+  private lastPlayerStateFlush: number = 0;
+  private readonly PARTICIPATION_UPDATE_INTERVAL = 15000; // 15 seconds
 
   /**
    * MVP 5.8 + MVP 7: Schedule alarm if not already scheduled OR if expired
@@ -441,37 +811,15 @@ export default class ForestManager extends DurableObject {
       const scheduleTime = now + this.NPC_UPDATE_INTERVAL;
       await this.storage.setAlarm(scheduleTime);
     }
+    this.alarmPaused = false;
   }
 
   async fetch(request: Request): Promise<Response> {
-    // MVP 13: Load metrics and config from storage on first request
-    const storedMetrics = await this.storage.get('metrics') as any;
-    if (storedMetrics) {
-      // Merge stored metrics with defaults to handle new properties
-      this.metrics = {
-        treesGrownToday: storedMetrics.treesGrownToday ?? this.metrics.treesGrownToday,
-        projectilesThrownToday: storedMetrics.projectilesThrownToday ?? this.metrics.projectilesThrownToday,
-        hitsToday: storedMetrics.hitsToday ?? this.metrics.hitsToday,
-        npcDeathsToday: storedMetrics.npcDeathsToday ?? this.metrics.npcDeathsToday,
-        predatorFleesCount: storedMetrics.predatorFleesCount ?? this.metrics.predatorFleesCount,
-        peakPlayersToday: storedMetrics.peakPlayersToday ?? this.metrics.peakPlayersToday,
-        totalUniquePlayersEver: storedMetrics.totalUniquePlayersEver ?? this.metrics.totalUniquePlayersEver
-      };
-    }
-
-    const storedConfig = await this.storage.get('treeGrowthConfig');
-    if (storedConfig) {
-      this.treeGrowthConfig = storedConfig;
-    }
-
-    const storedBonusConfig = await this.storage.get('treeGrowingBonus');
-    if (storedBonusConfig) {
-      this.treeGrowingBonus = storedBonusConfig;
-    }
-
-    const storedPlayerIds = await this.storage.get('uniquePlayerIds');
-    if (storedPlayerIds && Array.isArray(storedPlayerIds)) {
-      this.uniquePlayerIds = new Set(storedPlayerIds);
+    // MVP 18: API worker tells us which shard we are
+    const requestForestId = request.headers.get('X-Forest-Id');
+    if (requestForestId && requestForestId !== this.forestId) {
+      this.forestId = requestForestId;
+      await this.storage.put('forestId', this.forestId);
     }
 
     const url = new URL(request.url);
@@ -501,6 +849,9 @@ export default class ForestManager extends DurableObject {
       const username = url.searchParams.get("username") || "Anonymous"; // MVP 6: Player username
       const turnstileToken = url.searchParams.get("turnstileToken"); // MVP 7.1: Bot protection
       const accessoryId = url.searchParams.get("accessoryId") || "none"; // MVP 17: Visual accessory
+      const protocolVersion = negotiateProtocolVersion(url.searchParams.get("binaryProtocol")); // MVP 18: 0 = JSON
+      const resumeToken = url.searchParams.get("resumeToken"); // MVP 18: Seamless reconnect
+      const lastEventSeq = Number(url.searchParams.get("lastEventSeq"));
 
       if (!squirrelId) {
         return new Response("Missing squirrelId", { status: 400 });
@@ -632,8 +983,10 @@ export default class ForestManager extends DurableObject {
       const webSocketPair = new WebSocketPair();
       const [client, server] = Object.values(webSocketPair);
 
-      server.accept();
-      await this.setupPlayerConnection(squirrelId, characterId, server, sessionToken, username, isAuthenticated, emailVerified, persistedStats, accessoryId);
+      // MVP 18: Hibernation API - the runtime holds the socket so the object can sleep between messages
+      this.ctx.acceptWebSocket(server);
+      await this.setupPlayerConnection(squirrelId, characterId, server, sessionToken, username, isAuthenticated, emailVerified, persistedStats, accessoryId, protocolVersion,
+        resumeToken ? { token: resumeToken, lastEventSeq } : undefined);
 
       return new Response(null, {
         status: 101,
@@ -670,6 +1023,44 @@ export default class ForestManager extends DurableObject {
       return await leaderboard.fetch(request);
     }
 
+    // MVP 18: End-of-cycle settlement (daily cron runs this before the resets)
+    if (path === "/admin/settle-cycle" && request.method === "POST") {
+      // Require admin authentication
+      const adminSecret = request.headers.get("X-Admin-Secret") || new URL(request.url).searchParams.get("admin_secret");
+      if (!adminSecret || adminSecret !== this.env.ADMIN_SECRET) {
+        return new Response(JSON.stringify({
+          error: "Unauthorized",
+          message: "Invalid or missing admin secret"
+        }), {
+          status: 401,
+          headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+        });
+      }
+
+      let summary;
+      try {
+        summary = await this.settleCycle();
+      } catch (error) {
+        console.error(`❌ Cycle settlement failed in ${this.forestId}:`, error);
+        return new Response(JSON.stringify({
+          error: "Settlement failed",
+          message: error instanceof Error ? error.message : String(error)
+        }), {
+          status: 502,
+          headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+        });
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        forestId: this.forestId,
+        ...summary
+      }), {
+        status: 200,
+        headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+      });
+    }
+
     // Admin endpoint to reset mapState (forces golden walnuts to respawn)
     if (path === "/admin/reset-mapstate" && request.method === "POST") {
       // MVP 13: Require admin authentication
@@ -738,6 +1129,34 @@ export default class ForestManager extends DurableObject {
       for (const key of playerKeys.keys()) {
         await this.storage.delete(key);
       }
+
+      // MVP 18: Power-up charges refill with the daily reset
+      const powerUpKeys = await this.storage.list({ prefix: 'powerups:' });
+      for (const key of powerUpKeys.keys()) {
+        await this.storage.delete(key);
+      }
+      for (const player of this.activePlayers.values()) {
+        player.powerUps = this.createPowerUpState();
+        this.sendPowerUpState(player);
+      }
+
+      // MVP 18: Write-behind player state only carries over within a cycle
+      const playerStateKeys = await this.storage.list({ prefix: 'playerstate:' });
+      for (const key of playerStateKeys.keys()) {
+        await this.storage.delete(key);
+      }
+
+      // MVP 18: Participation multiplier restarts each cycle
+      const participationKeys = await this.storage.list({ prefix: 'participation:' });
+      for (const key of participationKeys.keys()) {
+        await this.storage.delete(key);
+      }
+      for (const player of this.activePlayers.values()) {
+        player.participationSeconds = 0;
+        player.multiplier = 1.0;
+        this.sendMultiplierUpdate(player);
+      }
+
       return new Response(JSON.stringify({
         message: "Player positions reset - players will spawn at default position on next connection"
       }), {
@@ -786,6 +1205,74 @@ export default class ForestManager extends DurableObject {
       });
     }
 
+    // MVP 18: Get players flagged for movement violations
+    if (path === "/admin/players/flagged" && request.method === "GET") {
+      // Require admin authentication
+      const adminSecret = request.headers.get("X-Admin-Secret") || new URL(request.url).searchParams.get("admin_secret");
+      if (!adminSecret || adminSecret !== this.env.ADMIN_SECRET) {
+        return new Response(JSON.stringify({
+          error: "Unauthorized",
+          message: "Invalid or missing admin secret"
+        }), {
+          status: 401,
+          headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+        });
+      }
+
+      const flags = Array.from(this.movementFlags.values())
+        .sort((a, b) => b.lastViolationAt - a.lastViolationAt)
+        .map(flag => {
+          const player = this.activePlayers.get(flag.squirrelId);
+          return { ...flag, isOnline: !!player && !player.isDisconnected };
+        });
+
+      return new Response(JSON.stringify({
+        flags,
+        count: flags.length,
+        timestamp: Date.now()
+      }), {
+        status: 200,
+        headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+      });
+    }
+
+    // MVP 18: Clear a player's movement violation flag
+    if (path.startsWith("/admin/players/") && path.endsWith("/unflag") && request.method === "POST") {
+      // Require admin authentication
+      const adminSecret = request.headers.get("X-Admin-Secret") || new URL(request.url).searchParams.get("admin_secret");
+      if (!adminSecret || adminSecret !== this.env.ADMIN_SECRET) {
+        return new Response(JSON.stringify({
+          error: "Unauthorized",
+          message: "Invalid or missing admin secret"
+        }), {
+          status: 401,
+          headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+        });
+      }
+
+      const playerId = path.split("/")[3];
+      if (!this.movementFlags.delete(playerId)) {
+        return new Response(JSON.stringify({
+          error: "Not found",
+          message: "Player is not flagged"
+        }), {
+          status: 404,
+          headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+        });
+      }
+
+      await this.storage.put('movementFlags', Array.from(this.movementFlags.values()));
+
+      return new Response(JSON.stringify({
+        success: true,
+        playerId: playerId,
+        message: "Player flag cleared"
+      }), {
+        status: 200,
+        headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+      });
+    }
+
     // MVP 13: Kick player
     if (path.startsWith("/admin/players/") && path.endsWith("/kick") && request.method === "POST") {
       // Require admin authentication
@@ -860,10 +1347,12 @@ export default class ForestManager extends DurableObject {
       player.position = { x: 0, y: 2, z: 0 };
       player.titleId = 'rookie';
       player.titleName = 'Rookie';
-      player.combatStats = { hits: 0, knockouts: 0, deaths: 0 };
+      player.combatStats = { hits: 0, knockouts: 0, assists: 0, deaths: 0 };
+      player.walnutStats = { hidden: 0, found: 0 };
 
       // Delete stored player data
       await this.storage.delete(`player:${playerId}`);
+      await this.storage.delete(`playerstate:${player.sessionToken}`); // MVP 18
 
       // Kick player to force reconnect with new state
       player.socket.close(1000, "Player data reset by admin");
@@ -949,7 +1438,81 @@ export default class ForestManager extends DurableObject {
       });
     }
 
-    // MVP 13: Get predator status
+    // MVP 18: Nut Rush status (GET) and manual start/cancel (POST)
+    if (path === "/admin/events" && (request.method === "GET" || request.method === "POST")) {
+      // Require admin authentication
+      const adminSecret = request.headers.get("X-Admin-Secret") || new URL(request.url).searchParams.get("admin_secret");
+      if (!adminSecret || adminSecret !== this.env.ADMIN_SECRET) {
+        return new Response(JSON.stringify({
+          error: "Unauthorized",
+          message: "Invalid or missing admin secret"
+        }), {
+          status: 401,
+          headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+        });
+      }
+
+      if (request.method === "POST") {
+        const body = await request.json().catch(() => null) as { action?: string; durationMinutes?: number } | null;
+        if (!body || typeof body !== 'object') {
+          return new Response(JSON.stringify({
+            error: "Invalid request body",
+            message: "Body must be JSON: { action: 'start' | 'cancel', durationMinutes? }"
+          }), {
+            status: 400,
+            headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+          });
+        }
+
+        if (body.action === 'start') {
+          const durationMinutes = body.durationMinutes ?? NUT_RUSH_DURATION_MINUTES;
+          if (typeof durationMinutes !== 'number' || !Number.isInteger(durationMinutes) || durationMinutes < 1 || durationMinutes > NUT_RUSH.MAX_ADMIN_DURATION_MINUTES) {
+            return new Response(JSON.stringify({
+              error: "Invalid durationMinutes value",
+              message: `durationMinutes must be a whole number between 1 and ${NUT_RUSH.MAX_ADMIN_DURATION_MINUTES}`
+            }), {
+              status: 400,
+              headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+            });
+          }
+          // Starting while a rush is running restarts it with the new duration
+          await this.startNutRush(durationMinutes * 60 * 1000, 'admin');
+        } else if (body.action === 'cancel') {
+          if (!this.isNutRushActive()) {
+            return new Response(JSON.stringify({
+              error: "No active event",
+              message: "There is no Nut Rush running to cancel"
+            }), {
+              status: 409,
+              headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+            });
+          }
+          await this.endNutRush('cancelled');
+        } else {
+          return new Response(JSON.stringify({
+            error: "Invalid action",
+            message: "Action must be 'start' or 'cancel'"
+          }), {
+            status: 400,
+            headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+          });
+        }
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        forestId: this.forestId,
+        activeEvent: this.getActiveEventInfo(),
+        startedBy: this.isNutRushActive() ? this.nutRush.startedBy : null,
+        nextScheduledAt: this.nutRush.nextRushAt || null,
+        nextScheduledInMs: this.nutRush.nextRushAt ? Math.max(0, this.nutRush.nextRushAt - Date.now()) : null
+      }), {
+        status: 200,
+        headers: { ...CORS_HEADERS, "Content-Type": "application/json" }
+      });
+    }
+
+    // MVP 13: Get predator status
     if (path === "/admin/predators" && request.method === "GET") {
       // Require admin authentication
       const adminSecret = request.headers.get("X-Admin-Secret") || new URL(request.url).searchParams.get("admin_secret");
@@ -1132,7 +1695,7 @@ export default class ForestManager extends DurableObject {
       if (targetCount > currentCount) {
         // Spawn new predators
         spawned = targetCount - currentCount;
-        const getTerrainHeight = (_x: number, _z: number) => 0; // Simple flat terrain for admin spawning
+        const getTerrainHeight = (x: number, z: number) => this.getTerrainHeight(x, z); // MVP 18: Shared terrain
         for (let i = 0; i < spawned; i++) {
           const type = predatorTypes[i % predatorTypes.length];
           this.predatorManager.spawnPredator(type, getTerrainHeight);
@@ -1777,10 +2340,18 @@ export default class ForestManager extends DurableObject {
     isAuthenticated: boolean,
     emailVerified: boolean,
     persistedStats?: { score: number, titleId: string, titleName: string },
-    accessoryId: string = "none"
+    accessoryId: string = "none",
+    protocolVersion: number = 0,
+    resume?: { token: string; lastEventSeq: number }
   ): Promise<void> {
     // MVP 5.8: Check if player is reconnecting (still in active players but disconnected)
     const existingPlayer = this.activePlayers.get(squirrelId);
+
+    // MVP 18: Session resume - the client kept its world, reattach and replay what it missed
+    if (resume && existingPlayer && resume.token === existingPlayer.resumeToken) {
+      await this.resumePlayerConnection(existingPlayer, socket, protocolVersion, resume.lastEventSeq);
+      return;
+    }
     const isReconnecting = existingPlayer && existingPlayer.isDisconnected;
 
     if (isReconnecting) {
@@ -1792,91 +2363,25 @@ export default class ForestManager extends DurableObject {
       // MVP 6: Update session token and username (may have changed)
       existingPlayer.sessionToken = sessionToken;
       existingPlayer.username = username;
+      // MVP 18: New socket = new string tables
+      existingPlayer.protocolVersion = protocolVersion;
+      existingPlayer.codec = protocolVersion > 0 ? new BinaryCodec() : null;
+      existingPlayer.rttMs = null; // MVP 18: New socket = new latency
+      // MVP 18: Restart movement validation from the position we're sending back
+      this.resetMovementBaseline(existingPlayer);
+      this.reportPopulationToLobby();
 
       // MVP 5.8: Ensure alarm is scheduled for disconnect checking
       await this.ensureAlarmScheduled();
 
-      // Setup message handlers
-      socket.onmessage = async (event) => {
-        try {
-          const message = JSON.parse(event.data as string);
-          await this.handlePlayerMessage(existingPlayer, message);
-        } catch (error) {
-          console.error('❌ Error processing WebSocket message:', error, 'Raw data:', event.data);
-        }
-      };
-
-      // MVP 5.8: Mark as disconnected instead of removing on close
-      socket.onclose = () => {
-        existingPlayer.isDisconnected = true;
-        existingPlayer.disconnectedAt = Date.now();
-
-        // MVP 9: Mark disconnect in SquirrelSession for reconnection window (non-blocking)
-        (async () => {
-          try {
-            const squirrelSessionId = this.env.SQUIRREL.idFromName(squirrelId);
-            const squirrelSession = this.env.SQUIRREL.get(squirrelSessionId);
-            await squirrelSession.fetch(new Request('http://session/disconnect', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ squirrelId })
-            }));
-          } catch (error) {
-            console.warn(`⚠️ Failed to mark disconnect for ${squirrelId}:`, error);
-          }
-        })(); // Fire and forget
-
-        this.broadcastToOthers(squirrelId, {
-          type: 'player_disconnected',
-          squirrelId: squirrelId,
-          username: existingPlayer.username, // MVP 6: Include username
-          characterId: existingPlayer.characterId // MVP 6: Include characterId
-        });
-
-        // MVP 7.2 CRITICAL: If no connected players remain, despawn NPCs immediately (cost optimization)
-        const connectedPlayers = Array.from(this.activePlayers.values())
-          .filter(p => !p.isDisconnected).length;
-
-        if (connectedPlayers === 0) {
-          this.npcManager.despawnAllNPCs();
-        }
-      };
-
-      socket.onerror = (event) => {
-        console.error('WebSocket error:', event);
-      };
+      // MVP 18: Socket events arrive via webSocketMessage/webSocketClose (hibernation API)
+      this.attachSocketIdentity(existingPlayer);
 
       // Send current world state with saved position
       // MVP 12: For reconnections, fetch title from playerConnection (already stored)
       const titleId = (existingPlayer as any).titleId || 'rookie';
       const titleName = (existingPlayer as any).titleName || 'Rookie';
-      await this.sendWorldState(socket, existingPlayer.position, existingPlayer.rotationY, titleId, titleName, false);
-      await this.sendExistingPlayers(socket, squirrelId);
-
-      // MVP 8 FIX: Send initial inventory and health state to sync UI (prevents grayed-out buttons on reconnect)
-      this.sendMessage(socket, {
-        type: 'inventory_update',
-        walnutCount: existingPlayer.walnutInventory
-      });
-      this.sendMessage(socket, {
-        type: 'health_update',
-        playerId: squirrelId,
-        health: existingPlayer.health,
-        maxHealth: existingPlayer.maxHealth
-      });
-      // MVP 16: Send score update
-      this.sendMessage(socket, {
-        type: 'score_update',
-        score: existingPlayer.score
-      });
-
-      // MVP 8 FIX: Spawn NPCs if none exist (they may have been despawned when last player left)
-      if (this.npcManager.getNPCCount() === 0) {
-        this.npcManager.spawnNPCs();
-      }
-
-      // MVP 7: Send existing NPCs to reconnecting player
-      await this.sendExistingNPCs(socket);
+      await this.sendInitialState(existingPlayer, titleId, titleName, false);
 
       // Broadcast reconnection
       this.broadcastToOthers(squirrelId, {
@@ -1898,7 +2403,8 @@ export default class ForestManager extends DurableObject {
           } catch (e) {
             console.error('Failed to close old socket:', e);
           }
-          // Remove from active players
+          // Remove from active players (MVP 18: saving its state first)
+          await this.flushPlayerStates([existingPlayerConn]);
           this.activePlayers.delete(existingId);
           // Broadcast player_leave
           this.broadcastToOthers(existingId, {
@@ -1916,48 +2422,19 @@ export default class ForestManager extends DurableObject {
       // Username is just a display name and can be shared by multiple people
       const savedPosition = await this.loadPlayerPosition(sessionToken);
 
-      const playerConnection: PlayerConnection = {
-        squirrelId,
+      const playerConnection = this.createPlayerConnection(
+        { squirrelId, characterId, accessoryId, sessionToken, username, isAuthenticated, emailVerified, protocolVersion, resumeToken: crypto.randomUUID() },
         socket,
-        position: savedPosition || { x: 0, y: 2, z: 10 },
-        rotationY: Math.PI, // Face north (-Z direction)
-        lastActivity: Date.now(),
-        characterId,
-        accessoryId,
-        // MVP 5.8: Session management
-        isDisconnected: false,
-        disconnectedAt: null,
-        // MVP 6: Player identity
-        sessionToken,
-        username,
+        savedPosition || { x: 0, y: 2, z: 10 },
+        await this.loadPowerUps(sessionToken)
+      );
 
-        isAuthenticated,
-        emailVerified,
-        // MVP 7.1: Position save throttling
-        lastPositionSave: 0,
-        // MVP 8: Combat system
-        walnutInventory: 0, // Start with 0 walnuts
-        lastThrowTime: 0,
-        health: 100, // Start at full health
-        maxHealth: 100,
-        score: 0, // Will be restored from session if reconnecting
-        lastAttackerId: null,
-        combatStats: {
-          hits: 0,
-          knockouts: 0,
-          deaths: 0
-        },
-        invulnerableUntil: Date.now() + 3000, // 3 seconds spawn protection
-        lastCollisionDamageTime: 0, // No collision damage cooldown initially
-        // MVP 12: Player Ranking System (will be updated from session below)
-        titleId: 'rookie',
-        titleName: 'Rookie',
-        // MVP 14: Tree growing bonus tracking
-        treesGrownCount: 0,
-        bonusMilestones: new Set<number>(),
-        // MVP 15: Carefree Mode (default off)
-        isCarefree: false
-      };
+      // MVP 18: Restore health, ammo and combat stats from earlier this cycle
+      await this.restorePlayerState(playerConnection);
+
+      // MVP 18: Restore participation time earned earlier this cycle
+      playerConnection.participationSeconds = await this.loadParticipation(sessionToken);
+      playerConnection.multiplier = this.calculateParticipationMultiplier(playerConnection.participationSeconds);
 
       // MVP 9: Check for recent disconnect and restore score (.io game pattern)
       // MVP 12: Call /join first to create/load session (this sets isFirstJoin flag correctly)
@@ -2015,6 +2492,8 @@ export default class ForestManager extends DurableObject {
       playerConnection.titleId = titleId;
       playerConnection.titleName = titleName;
 
+      // MVP 18: Movement validation starts from the spawn position sent in world_state
+      this.resetMovementBaseline(playerConnection);
 
       this.activePlayers.set(squirrelId, playerConnection);
 
@@ -2028,6 +2507,7 @@ export default class ForestManager extends DurableObject {
 
       // Update peak players if current count is higher
       const activeCount = Array.from(this.activePlayers.values()).filter(p => !p.isDisconnected).length;
+      this.reportPopulationToLobby();
       if (activeCount > this.metrics.peakPlayersToday) {
         this.metrics.peakPlayersToday = activeCount;
         await this.storage.put('metrics', this.metrics);
@@ -2048,7 +2528,7 @@ export default class ForestManager extends DurableObject {
       // Respect the target count set via admin endpoint (default: 2)
       const currentPredatorCount = this.predatorManager.getCount();
       if (currentPredatorCount === 0 && activeCount > 0) {
-        const getTerrainHeight = (_x: number, _z: number) => 0; // Flat terrain for server-side spawning
+        const getTerrainHeight = (x: number, z: number) => this.getTerrainHeight(x, z); // MVP 18: Shared terrain
         const predatorTypes: Array<'cardinal' | 'toucan' | 'wildebeest'> = ['cardinal', 'toucan', 'wildebeest'];
 
         // Spawn predators up to target count
@@ -2059,86 +2539,13 @@ export default class ForestManager extends DurableObject {
         }
       }
 
-      // Setup message handlers
-      socket.onmessage = async (event) => {
-        try {
-          const message = JSON.parse(event.data as string);
-          await this.handlePlayerMessage(playerConnection, message);
-        } catch (error) {
-          console.error('❌ Error processing WebSocket message:', error, 'Raw data:', event.data);
-        }
-      };
-
-      // MVP 5.8: Mark as disconnected instead of removing on close
-      socket.onclose = () => {
-        playerConnection.isDisconnected = true;
-        playerConnection.disconnectedAt = Date.now();
-
-        // MVP 9: Mark disconnect in SquirrelSession for reconnection window (non-blocking)
-        (async () => {
-          try {
-            const squirrelSessionId = this.env.SQUIRREL.idFromName(squirrelId);
-            const squirrelSession = this.env.SQUIRREL.get(squirrelSessionId);
-            await squirrelSession.fetch(new Request('http://session/disconnect', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ squirrelId })
-            }));
-          } catch (error) {
-            console.warn(`⚠️ Failed to mark disconnect for ${squirrelId}:`, error);
-          }
-        })(); // Fire and forget
-
-        this.broadcastToOthers(squirrelId, {
-          type: 'player_disconnected',
-          squirrelId: squirrelId,
-          username: playerConnection.username, // MVP 6: Include username
-          characterId: playerConnection.characterId // MVP 6: Include characterId
-        });
-
-        // MVP 7.2 CRITICAL: If no connected players remain, despawn NPCs immediately (cost optimization)
-        const connectedPlayers = Array.from(this.activePlayers.values())
-          .filter(p => !p.isDisconnected).length;
-
-        if (connectedPlayers === 0) {
-          this.npcManager.despawnAllNPCs();
-        }
-      };
-
-      socket.onerror = (event) => {
-        console.error('WebSocket error:', event);
-      };
+      // MVP 18: Socket events arrive via webSocketMessage/webSocketClose (hibernation API)
+      this.attachSocketIdentity(playerConnection);
 
       // Send initial data with spawn position (MVP 6: may be saved position or default)
       // MVP 12: Include title information in world_state
       console.log(`🌍 Sending world_state to ${username} - isFirstJoin: ${isFirstJoin}, titleId: ${titleId}, titleName: ${titleName}`);
-      await this.sendWorldState(socket, playerConnection.position, playerConnection.rotationY, titleId, titleName, isFirstJoin);
-      await this.sendExistingPlayers(socket, squirrelId);
-
-      // MVP 8 FIX: Send initial inventory and health state to sync UI (prevents grayed-out buttons)
-      this.sendMessage(socket, {
-        type: 'inventory_update',
-        walnutCount: playerConnection.walnutInventory
-      });
-      this.sendMessage(socket, {
-        type: 'health_update',
-        playerId: squirrelId,
-        health: playerConnection.health,
-        maxHealth: playerConnection.maxHealth
-      });
-      // MVP 16: Send initial score (persisted)
-      this.sendMessage(socket, {
-        type: 'score_update',
-        score: playerConnection.score
-      });
-
-      // MVP 8 FIX: Spawn NPCs if none exist (they may have been despawned when last player left)
-      if (this.npcManager.getNPCCount() === 0) {
-        this.npcManager.spawnNPCs();
-      }
-
-      // MVP 7: Send existing NPCs to new player
-      await this.sendExistingNPCs(socket);
+      await this.sendInitialState(playerConnection, titleId, titleName, isFirstJoin);
 
       // Broadcast player join
       this.broadcastToOthers(squirrelId, {
@@ -2153,115 +2560,585 @@ export default class ForestManager extends DurableObject {
     }
   }
 
-  // Simple message handling
-  private async handlePlayerMessage(playerConnection: PlayerConnection, data: any): Promise<void> {
+  /**
+   * MVP 18: Inventory, power-ups, multiplier, health and score - everything the HUD shows
+   */
+  private sendPlayerStatus(playerConnection: PlayerConnection): void {
+    const socket = playerConnection.socket;
+    this.sendMessage(socket, {
+      type: 'inventory_update',
+      walnutCount: playerConnection.walnutInventory
+    });
+    this.sendPowerUpState(playerConnection); // MVP 18
+    this.sendMultiplierUpdate(playerConnection); // MVP 18
+    this.sendMessage(socket, {
+      type: 'health_update',
+      playerId: playerConnection.squirrelId,
+      health: playerConnection.health,
+      maxHealth: playerConnection.maxHealth
+    });
+    // MVP 16: Score (persisted)
+    this.sendMessage(socket, {
+      type: 'score_update',
+      score: playerConnection.score
+    });
+  }
+
+  /**
+   * MVP 18: Session resume - move an existing PlayerConnection onto the client's new socket
+   * Combat state stays as-is; the client gets the broadcasts it missed plus its HUD state instead of a
+   * world dump (full sync only if the event log no longer covers the gap)
+   */
+  private async resumePlayerConnection(
+    playerConnection: PlayerConnection,
+    socket: WebSocket,
+    protocolVersion: number,
+    lastEventSeq: number
+  ): Promise<void> {
+    const previousSocket = playerConnection.socket;
+    const wasDisconnected = playerConnection.isDisconnected;
+
+    playerConnection.socket = socket;
+    playerConnection.isDisconnected = false;
+    playerConnection.disconnectedAt = null;
     playerConnection.lastActivity = Date.now();
+    // New socket = new string tables and latency
+    playerConnection.protocolVersion = protocolVersion;
+    playerConnection.codec = protocolVersion > 0 ? new BinaryCodec() : null;
+    playerConnection.rttMs = null;
+    this.resetMovementBaseline(playerConnection);
+    this.attachSocketIdentity(playerConnection);
+
+    // The server may not have noticed the old socket dropping yet
+    if (previousSocket !== socket) {
+      try {
+        previousSocket.close(1000, 'Session resumed on a new connection');
+      } catch (e) {
+        // Already closed
+      }
+    }
 
-    // MVP 5.8: If player was disconnected and sends a message, mark as reconnected
-    if (playerConnection.isDisconnected) {
-      playerConnection.isDisconnected = false;
-      playerConnection.disconnectedAt = null;
+    this.reportPopulationToLobby();
+    await this.ensureAlarmScheduled();
+
+    const missedEvents = this.getMissedEvents(playerConnection.squirrelId, lastEventSeq);
+    if (missedEvents) {
+      // Entities are re-entered (with full state) by the next interest sweep
+      playerConnection.interestSet.clear();
+      playerConnection.pendingSnapshots = [];
+
+      this.sendMessage(socket, {
+        type: 'session_resumed',
+        eventSeq: this.eventSeq,
+        missedEvents: missedEvents.length,
+        protocolVersion: playerConnection.protocolVersion
+      });
+      for (const event of missedEvents) {
+        if (socket.readyState === WebSocket.OPEN) {
+          try {
+            socket.send(event.serializedMessage);
+          } catch (error) {
+            console.error(`Failed to replay event ${event.seq} to ${playerConnection.squirrelId}:`, error);
+          }
+        }
+      }
+      this.sendPlayerStatus(playerConnection);
+      console.log(`🔁 ${playerConnection.username} resumed session (${missedEvents.length} missed events replayed)`);
+    } else {
+      // Client's world is too stale to patch - drop it and send everything
+      this.sendMessage(socket, { type: 'state_resync' });
+      await this.sendInitialState(playerConnection, playerConnection.titleId, playerConnection.titleName, false);
+      console.log(`🔁 ${playerConnection.username} resumed session (event log gap - full sync)`);
+    }
+
+    if (wasDisconnected) {
       this.broadcastToOthers(playerConnection.squirrelId, {
         type: 'player_reconnected',
-        squirrelId: playerConnection.squirrelId
+        squirrelId: playerConnection.squirrelId,
+        position: playerConnection.position,
+        rotationY: playerConnection.rotationY,
+        characterId: playerConnection.characterId,
+        accessoryId: playerConnection.accessoryId // MVP 17
       });
     }
+  }
 
-    switch (data.type) {
-      case "player_update":
-        // MVP 7.1: Rate limit position updates
-        if (!this.checkMessageRateLimit(playerConnection.squirrelId, 'position')) {
-          // Drop message silently (don't disconnect, just ignore)
-          return;
-        }
+  /**
+   * MVP 18: Fresh connection state for a socket (identity comes from the /ws request or a hibernated socket's attachment)
+   */
+  private createPlayerConnection(
+    identity: SocketAttachment,
+    socket: WebSocket,
+    position: { x: number; y: number; z: number },
+    powerUps: Record<PowerUpType, PowerUpState>
+  ): PlayerConnection {
+    return {
+      squirrelId: identity.squirrelId,
+      socket,
+      position,
+      rotationY: Math.PI, // Face north (-Z direction)
+      lastActivity: Date.now(),
+      characterId: identity.characterId,
+      accessoryId: identity.accessoryId,
+      // MVP 5.8: Session management
+      isDisconnected: false,
+      disconnectedAt: null,
+      // MVP 6: Player identity
+      sessionToken: identity.sessionToken,
+      username: identity.username,
+      isAuthenticated: identity.isAuthenticated,
+      emailVerified: identity.emailVerified,
+      // MVP 7.1: Position save throttling
+      lastPositionSave: 0,
+      // MVP 8: Combat system
+      walnutInventory: 0, // Start with 0 walnuts
+      lastThrowTime: 0,
+      health: 100, // Start at full health
+      maxHealth: 100,
+      score: 0, // Will be restored from session if reconnecting
+      lastAttackerId: null,
+      recentAttackers: new Map(),
+      combatStats: {
+        hits: 0,
+        knockouts: 0,
+        assists: 0,
+        deaths: 0
+      },
+      invulnerableUntil: Date.now() + 3000, // 3 seconds spawn protection
+      lastCollisionDamageTime: 0, // No collision damage cooldown initially
+      // MVP 12: Player Ranking System (updated from session by the caller)
+      titleId: 'rookie',
+      titleName: 'Rookie',
+      // MVP 14: Tree growing bonus tracking
+      treesGrownCount: 0,
+      bonusMilestones: new Set<number>(),
+      walnutStats: { hidden: 0, found: 0 },
+      // MVP 15: Carefree Mode (default off)
+      isCarefree: false,
+      // MVP 18: Hidden walnut visibility
+      revealedWalnuts: new Set<string>(),
+      // MVP 18: Movement validation (caller sets the baseline from the spawn position)
+      lastMovementUpdate: Date.now(),
+      speedSampleStart: { position: { x: 0, y: 0, z: 0 }, time: Date.now() },
+      movementViolations: [],
+      respawnTeleportPending: false,
+      lastFindAt: 0,
+      // MVP 18: Message schema validation
+      invalidMessageStrikes: [],
+      awaitingResync: false,
+      // MVP 18: Power-ups
+      powerUps,
+      // MVP 18: Participation multiplier (restored by the caller)
+      participationSeconds: 0,
+      multiplier: 1.0,
+      lastInputAt: Date.now(),
+      // MVP 18: Binary protocol
+      protocolVersion: identity.protocolVersion,
+      codec: identity.protocolVersion > 0 ? new BinaryCodec() : null,
+      // MVP 18: Lag compensation
+      positionHistory: new PositionHistory(LAG_COMPENSATION.HISTORY_SIZE),
+      rttMs: null,
+      // MVP 18: Area of interest (filled by the next interest sweep)
+      interestSet: new Map<string, InterestState>(),
+      pendingSnapshots: [],
+      // MVP 18: Write-behind persistence
+      persistedStateSignature: null,
+      // MVP 18: Session resume
+      resumeToken: identity.resumeToken
+    };
+  }
 
-        if (data.position) {
-          // Validate position is within world bounds
-          const validatedPosition = this.validatePosition(data.position);
-          playerConnection.position = validatedPosition;
+  /**
+   * MVP 18: Store per-socket identity in the socket attachment so it survives hibernation
+   */
+  private attachSocketIdentity(playerConnection: PlayerConnection): void {
+    const attachment: SocketAttachment = {
+      squirrelId: playerConnection.squirrelId,
+      characterId: playerConnection.characterId,
+      accessoryId: playerConnection.accessoryId,
+      sessionToken: playerConnection.sessionToken,
+      username: playerConnection.username,
+      isAuthenticated: playerConnection.isAuthenticated,
+      emailVerified: playerConnection.emailVerified,
+      protocolVersion: playerConnection.protocolVersion,
+      resumeToken: playerConnection.resumeToken
+    };
+    playerConnection.socket.serializeAttachment(attachment);
+  }
 
-          // Check for collisions with other players/NPCs
-          this.checkCollisions(playerConnection);
-        }
-        if (typeof data.rotationY === 'number') {
-          playerConnection.rotationY = data.rotationY;
-        }
+  /**
+   * MVP 18: Player connection that currently owns a socket (null for replaced or unknown sockets)
+   */
+  private getConnectionForSocket(socket: WebSocket): PlayerConnection | null {
+    const attachment = socket.deserializeAttachment() as SocketAttachment | null;
+    if (!attachment) {
+      return null;
+    }
+    const playerConnection = this.activePlayers.get(attachment.squirrelId);
+    return playerConnection && playerConnection.socket === socket ? playerConnection : null;
+  }
 
-        // MVP 7.1: Throttle position saves to once every 30 seconds (was 10 Hz = 180k saves/hour!)
-        // This reduces storage operations by 99% while still persisting position reasonably often
-        const now = Date.now();
-        const timeSinceLastSave = now - playerConnection.lastPositionSave;
-        const POSITION_SAVE_INTERVAL = 30000; // 30 seconds
-        if (timeSinceLastSave >= POSITION_SAVE_INTERVAL) {
-          await this.savePlayerPosition(playerConnection.sessionToken, playerConnection.position);
-          playerConnection.lastPositionSave = now;
-        }
+  /**
+   * MVP 18: Initial sync after a join, reconnect or hibernation wake (world, players, UI state, NPCs)
+   */
+  private async sendInitialState(
+    playerConnection: PlayerConnection,
+    titleId: string,
+    titleName: string,
+    isFirstJoin: boolean
+  ): Promise<void> {
+    const socket = playerConnection.socket;
+    const squirrelId = playerConnection.squirrelId;
 
-        // INDUSTRY STANDARD: Forward animation state with timing for multiplayer sync
-        this.broadcastToOthers(playerConnection.squirrelId, {
-          type: 'player_update',
-          squirrelId: playerConnection.squirrelId,
-          position: playerConnection.position,
-          rotationY: playerConnection.rotationY,
-          characterId: playerConnection.characterId,
-          health: playerConnection.health, // MVP 8: Broadcast health for UI
-          score: playerConnection.score, // MVP 8: Broadcast score for leaderboard
-          animation: data.animation, // Forward animation state from client
-          animationStartTime: data.animationStartTime, // TIME-BASED SYNC: Forward animation start time
-          velocity: data.velocity, // Forward velocity for extrapolation
-          moveType: data.moveType, // Forward movement type for animation sync
-          accessoryId: playerConnection.accessoryId, // MVP 17: Sync accessory to other players
-          timestamp: data.timestamp, // Forward client timestamp for latency compensation
-          isCarefree: playerConnection.isCarefree // MVP 15: Broadcast carefree status
-        });
-        break;
+    await this.sendWorldState(playerConnection, playerConnection.position, playerConnection.rotationY, titleId, titleName, isFirstJoin);
+    await this.sendExistingPlayers(socket, squirrelId);
 
-      case "update_accessory":
-        // MVP 17: Player changed their accessory via Wardrobe
-        if (data.accessoryId !== undefined) {
-          playerConnection.accessoryId = data.accessoryId;
-          // Broadcast immediately so other players see the change
-          this.broadcastToOthers(playerConnection.squirrelId, {
-            type: 'player_accessory_changed',
-            squirrelId: playerConnection.squirrelId,
-            accessoryId: data.accessoryId
-          });
-        }
-        break;
+    // MVP 8 FIX: Send initial inventory and health state to sync UI (prevents grayed-out buttons)
+    this.sendPlayerStatus(playerConnection);
 
-      case "set_carefree_mode":
-        // MVP 15: Toggle Carefree Mode with score freeze/restore
-        if (typeof data.enabled === 'boolean') {
-          const entering = data.enabled && !playerConnection.isCarefree;
-          const exiting = !data.enabled && playerConnection.isCarefree;
+    // MVP 8 FIX: Spawn NPCs if none exist (they may have been despawned when last player left)
+    if (this.npcManager.getNPCCount() === 0) {
+      this.npcManager.spawnNPCs();
+    }
 
-          if (entering) {
-            // ENTERING CAREFREE MODE - Save current score
-            playerConnection.scoreBeforeCarefree = playerConnection.score;
-            playerConnection.isCarefree = true;
+    // MVP 7: Send existing NPCs to the player
+    await this.sendExistingNPCs(socket);
+  }
 
-            // Track mode switch
-            if (!playerConnection.modeSwitchHistory) {
-              playerConnection.modeSwitchHistory = [];
-            }
-            playerConnection.modeSwitchHistory.push({
-              timestamp: Date.now(),
-              fromMode: 'standard',
-              toMode: 'carefree',
-              scoreAtSwitch: playerConnection.score
-            });
+  /**
+   * MVP 18: Hibernation API - rebuild activePlayers from sockets that stayed open while the object was evicted
+   * Only identity survives (socket attachment); position, power-ups, participation and write-behind player
+   * state are reloaded from storage, score from SquirrelSession.
+   */
+  private async restoreHibernatedConnections(): Promise<void> {
+    const restored: PlayerConnection[] = [];
 
-            this.sendMessage(playerConnection.socket, {
-              type: 'carefree_mode_updated',
-              isCarefree: true,
-              message: 'Carefree Mode: Your competitive score is paused'
-            });
+    for (const socket of this.ctx.getWebSockets()) {
+      const attachment = socket.deserializeAttachment() as SocketAttachment | null;
+      if (!attachment || this.activePlayers.has(attachment.squirrelId)) {
+        continue;
+      }
 
-          } else if (exiting) {
-            // EXITING CAREFREE MODE - Restore saved score
-            const savedScore = playerConnection.scoreBeforeCarefree;
+      const savedPosition = await this.loadPlayerPosition(attachment.sessionToken);
+      const playerConnection = this.createPlayerConnection(
+        attachment,
+        socket,
+        savedPosition || { x: 0, y: 2, z: 10 },
+        await this.loadPowerUps(attachment.sessionToken)
+      );
+      await this.restorePlayerState(playerConnection);
+      playerConnection.participationSeconds = await this.loadParticipation(attachment.sessionToken);
+      playerConnection.multiplier = this.calculateParticipationMultiplier(playerConnection.participationSeconds);
+      playerConnection.lastInputAt = 0; // Stays idle (alarm paused) until the player actually does something
 
-            if (typeof savedScore === 'number') {
+      // MVP 9: Score and title live in SquirrelSession (/join loads the stored session)
+      try {
+        const squirrelSession = this.env.SQUIRREL.get(this.env.SQUIRREL.idFromName(attachment.squirrelId));
+        const joinResponse = await squirrelSession.fetch(new Request(`http://session/join?squirrelId=${attachment.squirrelId}`, {
+          method: 'POST'
+        }));
+        if (joinResponse.ok) {
+          const joinData = await joinResponse.json() as any;
+          playerConnection.score = joinData.stats?.score || 0;
+          playerConnection.titleId = joinData.titleId || 'rookie';
+          playerConnection.titleName = joinData.titleName || 'Rookie';
+        }
+      } catch (error) {
+        console.warn(`⚠️ Could not restore session for ${attachment.username}:`, error);
+      }
+
+      this.resetMovementBaseline(playerConnection);
+      this.activePlayers.set(attachment.squirrelId, playerConnection);
+      restored.push(playerConnection);
+    }
+
+    if (restored.length === 0) {
+      return;
+    }
+    console.log(`♻️ Restored ${restored.length} connection(s) after hibernation`);
+
+    // Clients still hold entities and string tables from before the eviction - tell them to drop both, then resync
+    for (const playerConnection of restored) {
+      playerConnection.awaitingResync = true;
+      this.sendMessage(playerConnection.socket, { type: 'state_resync' });
+      await this.sendInitialState(playerConnection, playerConnection.titleId, playerConnection.titleName, false);
+    }
+
+    // Restored players are idle - the alarm starts on their next input
+    this.alarmPaused = true;
+    this.reportPopulationToLobby();
+  }
+
+  /**
+   * MVP 18: Hibernation API - called for every message (the object is woken first if it was hibernating)
+   */
+  async webSocketMessage(socket: WebSocket, data: string | ArrayBuffer): Promise<void> {
+    const playerConnection = this.getConnectionForSocket(socket);
+    if (!playerConnection) {
+      return;
+    }
+
+    // MVP 18: Only schema-valid messages reach the handlers (and the broadcasts they make)
+    let decoded: unknown;
+    try {
+      decoded = this.decodeSocketMessage(playerConnection, data);
+    } catch (error) {
+      // Until the client has handled state_resync it keeps encoding against string tables we no longer have
+      if (playerConnection.awaitingResync) {
+        return;
+      }
+      this.rejectInvalidMessage(playerConnection, 'message: could not be decoded');
+      return;
+    }
+    const validation = validateClientMessage(decoded);
+    if (!validation.ok) {
+      this.rejectInvalidMessage(playerConnection, validation.error, validation.messageType);
+      return;
+    }
+    // First valid frame after the wake - the client is on the fresh codec, decode failures count again
+    playerConnection.awaitingResync = false;
+
+    try {
+      await this.handlePlayerMessage(playerConnection, validation.message);
+    } catch (error) {
+      console.error('❌ Error processing WebSocket message:', error, 'Raw data:', data);
+    }
+
+    // MVP 18: Player input resumes a forest that paused for idleness
+    if (this.alarmPaused && Date.now() - playerConnection.lastInputAt < HIBERNATION.IDLE_ALARM_PAUSE) {
+      await this.ensureAlarmScheduled();
+    }
+  }
+
+  /**
+   * MVP 18: Hibernation API - socket closed by the client (or the connection dropped)
+   * MVP 5.8: Mark as disconnected instead of removing on close
+   */
+  async webSocketClose(socket: WebSocket, code: number, reason: string, _wasClean: boolean): Promise<void> {
+    // Complete the close handshake (throws for codes that can't be sent, e.g. 1006)
+    try {
+      socket.close(code, reason);
+    } catch (e) {
+      // Already closed
+    }
+
+    const playerConnection = this.getConnectionForSocket(socket);
+    if (!playerConnection) {
+      return; // Replaced by a newer socket (reconnect or duplicate login)
+    }
+    const squirrelId = playerConnection.squirrelId;
+
+    playerConnection.isDisconnected = true;
+    playerConnection.disconnectedAt = Date.now();
+
+    // MVP 18: Write-behind - flush now rather than waiting for the next cadence
+    await this.flushPlayerStates([playerConnection]);
+
+    // MVP 9: Mark disconnect in SquirrelSession for reconnection window (non-blocking)
+    (async () => {
+      try {
+        const squirrelSessionId = this.env.SQUIRREL.idFromName(squirrelId);
+        const squirrelSession = this.env.SQUIRREL.get(squirrelSessionId);
+        await squirrelSession.fetch(new Request('http://session/disconnect', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ squirrelId })
+        }));
+      } catch (error) {
+        console.warn(`⚠️ Failed to mark disconnect for ${squirrelId}:`, error);
+      }
+    })(); // Fire and forget
+
+    this.broadcastToOthers(squirrelId, {
+      type: 'player_disconnected',
+      squirrelId: squirrelId,
+      username: playerConnection.username, // MVP 6: Include username
+      characterId: playerConnection.characterId // MVP 6: Include characterId
+    });
+
+    // MVP 7.2 CRITICAL: If no connected players remain, despawn NPCs immediately (cost optimization)
+    const connectedPlayers = Array.from(this.activePlayers.values())
+      .filter(p => !p.isDisconnected).length;
+
+    if (connectedPlayers === 0) {
+      this.npcManager.despawnAllNPCs();
+    }
+
+    // MVP 18: Disconnect checks need the alarm even if the forest was paused
+    if (this.alarmPaused) {
+      await this.ensureAlarmScheduled();
+    }
+  }
+
+  /**
+   * MVP 18: Hibernation API - socket error (webSocketClose follows)
+   */
+  async webSocketError(_socket: WebSocket, error: unknown): Promise<void> {
+    console.error('WebSocket error:', error);
+  }
+
+  /**
+   * MVP 18: Reply to a message that failed schema validation and count a strike
+   * Clients that keep sending garbage are disconnected
+   */
+  private rejectInvalidMessage(player: PlayerConnection, error: string, messageType?: string): void {
+    const now = Date.now();
+
+    // Keep only strikes within the tracking window
+    player.invalidMessageStrikes = player.invalidMessageStrikes.filter(t => now - t < MESSAGE_VALIDATION.STRIKE_WINDOW);
+    player.invalidMessageStrikes.push(now);
+    const strikes = player.invalidMessageStrikes.length;
+
+    console.warn(`🚫 Invalid message from ${player.username} [${player.squirrelId}] (${error}) - ${strikes} in window`);
+
+    this.sendMessage(player.socket, {
+      type: 'error',
+      reason: 'invalid_message',
+      message: error,
+      messageType,
+      strikes
+    });
+
+    if (strikes > MESSAGE_VALIDATION.MAX_STRIKES) {
+      console.warn(`🚫 Disconnecting ${player.username} [${player.squirrelId}] for repeated invalid messages`);
+      player.invalidMessageStrikes = [];
+      player.socket.close(1008, "Repeated invalid messages");
+    }
+  }
+
+  // Simple message handling
+  private async handlePlayerMessage(playerConnection: PlayerConnection, data: ClientMessage): Promise<void> {
+    playerConnection.lastActivity = Date.now();
+
+    // MVP 18: Any action counts as participation (position updates only count when the player moves; pongs/acks are automatic)
+    if (data.type !== 'heartbeat' && data.type !== 'player_update' && data.type !== 'pong' && data.type !== 'snapshot_ack') {
+      playerConnection.lastInputAt = Date.now();
+    }
+
+    // MVP 5.8: If player was disconnected and sends a message, mark as reconnected
+    if (playerConnection.isDisconnected) {
+      playerConnection.isDisconnected = false;
+      playerConnection.disconnectedAt = null;
+      this.broadcastToOthers(playerConnection.squirrelId, {
+        type: 'player_reconnected',
+        squirrelId: playerConnection.squirrelId
+      });
+    }
+
+    switch (data.type) {
+      case "player_update":
+        // MVP 7.1: Rate limit position updates
+        if (!this.checkMessageRateLimit(playerConnection.squirrelId, 'position')) {
+          // Drop message silently (don't disconnect, just ignore)
+          return;
+        }
+
+        if (data.position) {
+          // Validate position is within world bounds
+          const validatedPosition = this.validatePosition(data.position);
+
+          // MVP 18: After a respawn, drop positions sent before the client reached the server's respawn point
+          if (playerConnection.respawnTeleportPending) {
+            if (this.getHorizontalDistance(playerConnection.position, validatedPosition) > MOVEMENT_VALIDATION.MAX_SINGLE_UPDATE_DISTANCE) {
+              return;
+            }
+            playerConnection.respawnTeleportPending = false;
+          }
+
+          // MVP 18: Enforce speed, teleport and burst limits - snap client back on violation
+          const movementViolation = this.validateMovement(playerConnection, validatedPosition);
+          if (movementViolation) {
+            await this.handleMovementViolation(playerConnection, movementViolation);
+            return;
+          }
+          if (this.getHorizontalDistance(playerConnection.position, validatedPosition) > 0.05) {
+            playerConnection.lastInputAt = Date.now(); // MVP 18: Standing still = idle
+          }
+          playerConnection.position = validatedPosition;
+          playerConnection.positionHistory.record(Date.now(), validatedPosition); // MVP 18: Lag compensation
+
+          // Check for collisions with other players/NPCs
+          await this.checkCollisions(playerConnection);
+        }
+        if (typeof data.rotationY === 'number') {
+          playerConnection.rotationY = data.rotationY;
+        }
+
+        // MVP 7.1: Throttle position saves to once every 30 seconds (was 10 Hz = 180k saves/hour!)
+        // This reduces storage operations by 99% while still persisting position reasonably often
+        const now = Date.now();
+        const timeSinceLastSave = now - playerConnection.lastPositionSave;
+        const POSITION_SAVE_INTERVAL = 30000; // 30 seconds
+        if (timeSinceLastSave >= POSITION_SAVE_INTERVAL) {
+          await this.savePlayerPosition(playerConnection.sessionToken, playerConnection.position);
+          playerConnection.lastPositionSave = now;
+        }
+
+        // INDUSTRY STANDARD: Forward animation state with timing for multiplayer sync
+        // MVP 18: Goes out with the next snapshot tick to players interested in this one
+        this.setSnapshotState(`player:${playerConnection.squirrelId}`, 'player', {
+          squirrelId: playerConnection.squirrelId,
+          position: playerConnection.position,
+          rotationY: playerConnection.rotationY,
+          characterId: playerConnection.characterId,
+          health: playerConnection.health, // MVP 8: Broadcast health for UI
+          score: playerConnection.score, // MVP 8: Broadcast score for leaderboard
+          animation: data.animation, // Forward animation state from client
+          animationStartTime: data.animationStartTime, // TIME-BASED SYNC: Forward animation start time
+          velocity: data.velocity, // Forward velocity for extrapolation
+          moveType: data.moveType, // Forward movement type for animation sync
+          accessoryId: playerConnection.accessoryId, // MVP 17: Sync accessory to other players
+          timestamp: data.timestamp, // Forward client timestamp for latency compensation
+          isCarefree: playerConnection.isCarefree // MVP 15: Broadcast carefree status
+        });
+        break;
+
+      case "update_accessory":
+        // MVP 17: Player changed their accessory via Wardrobe
+        if (data.accessoryId !== undefined) {
+          playerConnection.accessoryId = data.accessoryId;
+          // Broadcast immediately so other players see the change
+          this.broadcastToOthers(playerConnection.squirrelId, {
+            type: 'player_accessory_changed',
+            squirrelId: playerConnection.squirrelId,
+            accessoryId: data.accessoryId
+          });
+        }
+        break;
+
+      case "set_carefree_mode":
+        // MVP 15: Toggle Carefree Mode with score freeze/restore
+        if (typeof data.enabled === 'boolean') {
+          const entering = data.enabled && !playerConnection.isCarefree;
+          const exiting = !data.enabled && playerConnection.isCarefree;
+
+          if (entering) {
+            // ENTERING CAREFREE MODE - Save current score
+            playerConnection.scoreBeforeCarefree = playerConnection.score;
+            playerConnection.isCarefree = true;
+
+            // Track mode switch
+            if (!playerConnection.modeSwitchHistory) {
+              playerConnection.modeSwitchHistory = [];
+            }
+            playerConnection.modeSwitchHistory.push({
+              timestamp: Date.now(),
+              fromMode: 'standard',
+              toMode: 'carefree',
+              scoreAtSwitch: playerConnection.score
+            });
+
+            this.sendMessage(playerConnection.socket, {
+              type: 'carefree_mode_updated',
+              isCarefree: true,
+              message: 'Carefree Mode: Your competitive score is paused'
+            });
+
+          } else if (exiting) {
+            // EXITING CAREFREE MODE - Restore saved score
+            const savedScore = playerConnection.scoreBeforeCarefree;
+
+            if (typeof savedScore === 'number') {
               // Restore score
               playerConnection.score = savedScore;
               delete playerConnection.scoreBeforeCarefree;
@@ -2311,6 +3188,25 @@ export default class ForestManager extends DurableObject {
         }
         break;
 
+      case "pong":
+        // MVP 18: Reply to our ping - smoothed RTT estimates the thrower's view time
+        if (typeof data.serverTime === 'number') {
+          const rtt = Date.now() - data.serverTime;
+          if (rtt >= 0 && rtt <= LAG_COMPENSATION.PING_INTERVAL) {
+            playerConnection.rttMs = playerConnection.rttMs === null
+              ? rtt
+              : playerConnection.rttMs + (rtt - playerConnection.rttMs) * LAG_COMPENSATION.RTT_SMOOTHING;
+          }
+        }
+        break;
+
+      case "snapshot_ack":
+        // MVP 18: Client applied a snapshot - later deltas only carry entities changed since then
+        if (typeof data.seq === 'number') {
+          this.acknowledgeSnapshot(playerConnection, data.seq);
+        }
+        break;
+
       case "heartbeat":
         this.sendMessage(playerConnection.socket, {
           type: 'heartbeat',
@@ -2326,7 +3222,7 @@ export default class ForestManager extends DurableObject {
           this.sendMessage(playerConnection.socket, {
             type: 'hide_rejected',
             reason: 'rate_limit',
-            walnutId: data.walnutId // MVP 16: Return ID so client can cleanup
+            clientWalnutId: data.clientWalnutId // MVP 16: Return ID so client can cleanup
           });
           return;
         }
@@ -2336,25 +3232,40 @@ export default class ForestManager extends DurableObject {
           console.warn(`🚫 Hide rejected: No walnuts for ${playerConnection.squirrelId}`);
           this.sendMessage(playerConnection.socket, {
             type: 'hide_rejected',
-            reason: 'no_walnuts'
+            reason: 'no_walnuts',
+            clientWalnutId: data.clientWalnutId
+          });
+          return;
+        }
+
+        // MVP 18: Server-authoritative placement - never trust the client's position or bush claim
+        const hideRejection = this.validateWalnutHide(playerConnection, data);
+        if (hideRejection) {
+          console.warn(`🚫 Walnut hide rejected for ${playerConnection.squirrelId}: ${hideRejection}`);
+          this.sendMessage(playerConnection.socket, {
+            type: 'hide_rejected',
+            reason: hideRejection,
+            clientWalnutId: data.clientWalnutId
           });
           return;
         }
 
         // Create new walnut in mapState
+        // MVP 18: Server picks the id and owner (client ids could collide with or overwrite other walnuts)
         const newWalnut: Walnut = {
-          id: data.walnutId,
-          ownerId: data.ownerId,
+          id: this.generateHiddenWalnutId(),
+          ownerId: playerConnection.squirrelId,
+          ownerName: playerConnection.username,
           origin: 'player',
           hiddenIn: data.walnutType, // 'buried' or 'bush'
-          location: data.position,
+          location: this.getHideLocation(data),
           found: false,
-          timestamp: data.timestamp || Date.now()
+          timestamp: Date.now() // Server clock only - tree growth is timed from this
         };
         this.mapState.push(newWalnut);
 
         // MVP 9: Add walnut to registry for tree growth tracking
-        const walnutRegistryId = this.env.WALNUTS.idFromName('global');
+        const walnutRegistryId = this.env.WALNUTS.idFromName(this.getWalnutRegistryName());
         const walnutRegistry = this.env.WALNUTS.get(walnutRegistryId);
         await walnutRegistry.fetch(new Request('http://registry/add', {
           method: 'POST',
@@ -2363,20 +3274,22 @@ export default class ForestManager extends DurableObject {
 
         // MVP 8: Decrement player inventory
         playerConnection.walnutInventory--;
+        playerConnection.walnutStats.hidden++;
 
         // Persist updated mapState
         await this.storage.put('mapState', this.mapState);
 
-        // Broadcast to all other players
-        this.broadcastToOthers(playerConnection.squirrelId, {
-          type: 'walnut_hidden',
-          walnutId: data.walnutId,
-          ownerId: data.ownerId,
-          walnutType: data.walnutType,
-          position: data.position,
-          points: data.points
+        // MVP 18: Hider swaps its placeholder for the server id
+        this.sendMessage(playerConnection.socket, {
+          type: 'hide_confirmed',
+          clientWalnutId: data.clientWalnutId,
+          walnutId: newWalnut.id,
+          position: newWalnut.location
         });
 
+        // MVP 18: Only tell players close enough to see the hide (others discover it via walnut_revealed)
+        this.sendHiddenWalnutToNearbyPlayers(playerConnection.squirrelId, newWalnut);
+
         // MVP 8: Send inventory update to player
         this.sendMessage(playerConnection.socket, {
           type: 'inventory_update',
@@ -2392,20 +3305,40 @@ export default class ForestManager extends DurableObject {
           return;
         }
 
-        // Mark walnut as found in mapState
+        // MVP 18: Server-authoritative pickup validation - never trust the client's claim
         const walnutIndex = this.mapState.findIndex(w => w.id === data.walnutId);
+        const findRejection = this.validateWalnutFind(playerConnection, data, walnutIndex);
+        if (findRejection) {
+          console.warn(`🚫 Walnut find rejected for ${playerConnection.squirrelId}: ${findRejection} (${data.walnutId})`);
+          this.sendMessage(playerConnection.socket, {
+            type: 'find_rejected',
+            reason: findRejection,
+            walnutId: data.walnutId
+          });
+          return;
+        }
+
+        // Mark walnut as found in mapState
         if (walnutIndex !== -1) {
           const walnut = this.mapState[walnutIndex];
           walnut.found = true;
+          playerConnection.lastFindAt = Date.now();
+
+          // MVP 18: DecoyNut - finder loses points instead of gaining a walnut
+          if (walnut.isDecoy) {
+            await this.handleDecoyFound(playerConnection, walnut);
+            break;
+          }
 
           // MVP 9: Mark walnut as found in registry (prevents tree growth)
-          const walnutRegistryId = this.env.WALNUTS.idFromName('global');
+          const walnutRegistryId = this.env.WALNUTS.idFromName(this.getWalnutRegistryName());
           const walnutRegistry = this.env.WALNUTS.get(walnutRegistryId);
           await walnutRegistry.fetch(new Request('http://registry/find', {
             method: 'POST',
             body: JSON.stringify({
               walnutId: data.walnutId,
-              playerId: playerConnection.squirrelId
+              playerId: playerConnection.squirrelId,
+              playerName: playerConnection.username
             })
           }));
 
@@ -2414,13 +3347,17 @@ export default class ForestManager extends DurableObject {
           if (playerConnection.walnutInventory < MAX_INVENTORY) {
             playerConnection.walnutInventory++;
           }
+          playerConnection.walnutStats.found++;
 
           // MVP 14 FIX: Award correct points based on walnut type
           // Golden walnuts (isGolden=true) = 5 points, buried = 3 points, others = 1 point
-          const points = walnut.isGolden ? 5 : (walnut.hiddenIn === 'buried' ? 3 : 1);
-          // MVP 15: Only increase competitive score if NOT in Carefree mode
+          const basePoints = walnut.isGolden ? 5 : (walnut.hiddenIn === 'buried' ? 3 : 1);
+          // MVP 18: Nut Rush and participation multipliers (Carefree players don't score)
+          const points = this.awardPoints(playerConnection, basePoints * (this.isNutRushActive() ? NUT_RUSH.POINTS_MULTIPLIER : 1));
+
+          // MVP 18: Count toward first-finder bonus (paid at cycle settlement)
           if (!playerConnection.isCarefree) {
-            playerConnection.score += points;
+            await this.recordCycleFind(playerConnection);
           }
 
           // Persist updated mapState
@@ -2430,10 +3367,15 @@ export default class ForestManager extends DurableObject {
           this.broadcastToOthers(playerConnection.squirrelId, {
             type: 'walnut_found',
             walnutId: data.walnutId,
-            finderId: data.finderId,
+            finderId: playerConnection.squirrelId, // MVP 18: Use server identity, not client-supplied finderId
             points: points
           });
 
+          // MVP 18: Let the owner know someone raided their hide
+          if (walnut.origin === 'player' && walnut.hiddenIn !== 'ground' && walnut.ownerId !== playerConnection.squirrelId) {
+            this.notifyWalnutRaided(playerConnection, walnut, points);
+          }
+
           // MVP 16: Update auth status from client message (if provided)
           if (typeof data.isAuthenticated === 'boolean') {
             playerConnection.isAuthenticated = data.isAuthenticated;
@@ -2477,6 +3419,20 @@ export default class ForestManager extends DurableObject {
         }
         break;
 
+      case "stash_request":
+        // MVP 18: "My Stash" journal
+        if (!this.checkMessageRateLimit(playerConnection.squirrelId, 'stash')) {
+          console.warn(`🚫 Stash request rate limit exceeded for ${playerConnection.squirrelId}`);
+          return;
+        }
+        await this.sendStash(playerConnection);
+        break;
+
+      case "use_powerup":
+        // MVP 18: Server validates charges/cooldown before applying any power-up effect
+        await this.handleUsePowerUp(playerConnection, data.powerUpType);
+        break;
+
       case "chat_message":
         // MVP 7.1: Rate limit chat messages
         if (!this.checkMessageRateLimit(playerConnection.squirrelId, 'chat')) {
@@ -2499,8 +3455,8 @@ export default class ForestManager extends DurableObject {
           return;
         }
 
-        // Broadcast emote to all other players
-        this.broadcastToOthers(playerConnection.squirrelId, {
+        // MVP 18: Broadcast emote to players who can see this one
+        this.broadcastToInterested(`player:${playerConnection.squirrelId}`, {
           type: 'player_emote',
           playerId: data.playerId,
           emote: data.emote
@@ -2532,9 +3488,25 @@ export default class ForestManager extends DurableObject {
           return;
         }
 
+        // MVP 18: Validate throw origin/aim (server simulates the flight from these)
+        if (!this.isValidThrow(playerConnection, data.fromPosition, data.toPosition)) {
+          console.warn(`🚫 Invalid throw positions from ${playerConnection.squirrelId}`);
+          this.sendMessage(playerConnection.socket, {
+            type: 'throw_rejected',
+            reason: 'invalid_position'
+          });
+          return;
+        }
+
         // Validation passed - process throw
         playerConnection.lastThrowTime = throwTime;
         playerConnection.walnutInventory--;
+        const projectileId = this.launchProjectile(
+          playerConnection.squirrelId,
+          data.fromPosition,
+          data.toPosition,
+          this.getRewindMs(playerConnection)
+        );
 
         // MVP 13: Track projectiles thrown
         this.metrics.projectilesThrownToday++;
@@ -2568,13 +3540,12 @@ export default class ForestManager extends DurableObject {
           fromPosition: data.fromPosition,
           toPosition: data.toPosition,
           targetId: data.targetId, // Optional - who they're aiming at
+          projectileId, // MVP 18: Server-simulated flight
           timestamp: throwTime
         };
 
         // Send to all players (they all need to see the projectile)
-        this.activePlayers.forEach((player) => {
-          this.sendMessage(player.socket, throwEvent);
-        });
+        this.broadcastToAll(throwEvent);
 
         // Send inventory update to thrower
         this.sendMessage(playerConnection.socket, {
@@ -2584,163 +3555,17 @@ export default class ForestManager extends DurableObject {
         break;
 
       case "spawn_dropped_walnut":
-        // MVP 8: Create pickupable walnut on ground where projectile landed
-        // Use client's ID to prevent duplicates (client already created local walnut)
-        const droppedWalnutId = data.walnutId || `dropped-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        const dropTime = Date.now();
-
-        const droppedWalnut: Walnut = {
-          id: droppedWalnutId,
-          ownerId: 'game', // No specific owner, anyone can pick it up
-          origin: 'player', // Originated from player throw
-          hiddenIn: 'ground', // Not buried, on ground surface
-          location: data.position,
-          found: false,
-          timestamp: dropTime,
-          // MVP 8: Immunity only applies if hit a specific player (miss = no immunity)
-          immunePlayerId: data.immunePlayerId, // undefined for miss, playerId for hit
-          immuneUntil: data.immunePlayerId ? dropTime + 1500 : undefined // 1.5 seconds if hit
-        };
-
-        this.mapState.push(droppedWalnut);
-        await this.storage.put('mapState', this.mapState);
-
-        // Broadcast to all players so they can see the new pickupable walnut
-        this.activePlayers.forEach((player) => {
-          this.sendMessage(player.socket, {
-            type: 'walnut_dropped',
-            walnutId: droppedWalnutId,
-            position: data.position,
-            immunePlayerId: droppedWalnut.immunePlayerId, // Only set if hit a player
-            immuneUntil: droppedWalnut.immuneUntil // Only set if hit a player
-          });
-        });
+        // MVP 18: Thrown walnuts land where the server simulation says (resolveProjectile)
+        // Client-created ground walnuts are ignored - they could be spawned anywhere
         break;
 
       case "player_hit":
-        // MVP 8/9: Server-side hit validation and damage application (players and NPCs)
-        const { targetId, damage: requestedDamage, position: hitPosition } = data;
-
-        // MVP 9: Check if target is a player or NPC
-        const targetPlayer = this.activePlayers.get(targetId);
-        const targetNPC = this.npcManager.getNPCById(targetId);
+        // MVP 18: Advisory only - hits are decided by the server projectile simulation
+        break;
 
-        if (!targetPlayer && !targetNPC) {
-          console.warn(`🚫 Hit rejected: Target ${targetId} not found`);
-          return;
-        }
-
-        // Validate attacker is not hitting themselves
-        if (targetId === playerConnection.squirrelId) {
-          console.warn(`🚫 Hit rejected: Cannot hit yourself`);
-          return;
-        }
-
-        // Get target position (either player or NPC)
-        const targetPosition = targetPlayer ? targetPlayer.position : targetNPC!.position;
-
-        // Validate target is not invulnerable (spawn protection - players only)
-        if (targetPlayer && targetPlayer.invulnerableUntil && Date.now() < targetPlayer.invulnerableUntil) {
-          console.warn(`🚫 Hit rejected: Target ${targetId} has spawn protection`);
-          return;
-        }
-
-        // Validate distance (prevent cheating - max projectile range is ~15 units)
-        const distance = Math.sqrt(
-          Math.pow(targetPosition.x - playerConnection.position.x, 2) +
-          Math.pow(targetPosition.z - playerConnection.position.z, 2)
-        );
-        if (distance > 20) { // 20 units = generous validation (15 range + 5 margin)
-          console.warn(`🚫 Hit rejected: Distance too far (${distance.toFixed(1)} units)`);
-          return;
-        }
-
-        // Apply damage (server authoritative - ignore client damage value)
-        const DAMAGE_PER_HIT = 20;
-        let actualDamage = 0;
-        let newHealth = 0;
-
-        if (targetPlayer) {
-          // MVP 9: Check if player is already dead (prevent double-death from rapid hits)
-          if (targetPlayer.health <= 0) {
-            console.warn(`🚫 Hit rejected: Player ${targetId} is already dead`);
-            return;
-          }
-
-          // Damage player
-          const oldHealth = targetPlayer.health;
-          targetPlayer.health = Math.max(0, targetPlayer.health - DAMAGE_PER_HIT);
-          actualDamage = oldHealth - targetPlayer.health;
-          newHealth = targetPlayer.health;
-
-          // Track attacker for knockout credit
-          if (actualDamage > 0) {
-            targetPlayer.lastAttackerId = playerConnection.squirrelId;
-          }
-        } else if (targetNPC) {
-          // MVP 9: Check if NPC is already dead (prevent double-death from rapid hits)
-          if (targetNPC.health <= 0) {
-            console.warn(`🚫 Hit rejected: NPC ${targetId} is already dead`);
-            return;
-          }
-
-          // MVP 9: Damage NPC
-          console.log(`[NPC-HIT] Before damage: ${targetNPC.username} health=${targetNPC.health}`);
-          actualDamage = this.npcManager.applyDamageToNPC(targetId, DAMAGE_PER_HIT);
-          // Get fresh NPC reference to ensure we have the updated health value
-          const updatedNPC = this.npcManager.getNPCById(targetId);
-          newHealth = updatedNPC ? updatedNPC.health : 0;
-          console.log(`[NPC-HIT] After damage: actualDamage=${actualDamage}, newHealth=${newHealth}, updatedNPC exists=${!!updatedNPC}`);
-        }
-
-        // Award +2 points for successful hit
-        if (!playerConnection.isCarefree) {
-          playerConnection.score += 2;
-        }
-        playerConnection.combatStats.hits += 1;
-
-        // MVP 13: Track hits
-        this.metrics.hitsToday++;
-        await this.storage.put('metrics', this.metrics);
-
-        // MVP 8: Report score to leaderboard + send to player for HUD
-        await this.reportScoreToLeaderboard(playerConnection);
-        this.sendMessage(playerConnection.socket, {
-          type: 'score_update',
-          score: playerConnection.score
-        });
-
-        // Broadcast damage event to all players
-        this.activePlayers.forEach((player) => {
-          this.sendMessage(player.socket, {
-            type: 'entity_damaged',
-            targetId: targetId,
-            attackerId: playerConnection.squirrelId,
-            damage: actualDamage,
-            newHealth: newHealth,
-            position: targetPosition
-          });
-        });
-
-        // Check for death/knockout
-        console.log(`[DEATH-CHECK] newHealth=${newHealth}, newHealth <= 0 is ${newHealth <= 0}, targetPlayer=${!!targetPlayer}, targetNPC=${!!targetNPC}`);
-        if (newHealth <= 0) {
-          if (targetPlayer) {
-            console.log(`[DEATH-CHECK] Handling player death`);
-            await this.handlePlayerDeath(targetPlayer, playerConnection);
-          } else if (targetNPC) {
-            // MVP 9: Handle NPC death
-            console.log(`[DEATH-CHECK] Handling NPC death for ${targetId}`);
-            await this.npcManager.handleNPCDeath(targetId);
-          } else {
-            console.log(`[DEATH-CHECK] WARNING: newHealth <= 0 but no target found!`);
-          }
-        }
-        break;
-
-      case "player_eat":
-        // MVP 8: Server-side eat validation and healing
-        const EAT_HEAL_AMOUNT = 25;
+      case "player_eat":
+        // MVP 8: Server-side eat validation and healing
+        const EAT_HEAL_AMOUNT = 25;
 
         // Validate inventory
         if (playerConnection.walnutInventory <= 0) {
@@ -2769,13 +3594,11 @@ export default class ForestManager extends DurableObject {
         const actualHealing = playerConnection.health - oldHp;
 
         // Broadcast heal event
-        this.activePlayers.forEach((player) => {
-          this.sendMessage(player.socket, {
-            type: 'entity_healed',
-            playerId: playerConnection.squirrelId,
-            healing: actualHealing,
-            newHealth: playerConnection.health
-          });
+        this.broadcastToAll({
+          type: 'entity_healed',
+          playerId: playerConnection.squirrelId,
+          healing: actualHealing,
+          newHealth: playerConnection.health
         });
 
         // Send inventory update to player
@@ -2786,173 +3609,346 @@ export default class ForestManager extends DurableObject {
         break;
 
       case "predator_hit":
-        // MVP 12: Handle walnut hit on wildebeest predator
-        const predatorId = data.predatorId;
+        // MVP 18: Advisory only - wildebeest hits are decided by the server projectile simulation
+        break;
 
-        if (!predatorId) {
-          console.warn(`🚫 Predator hit rejected: No predatorId provided`);
-          return;
-        }
+      case 'player_died':
+        // MVP 18: Deaths are server-decided (health reaching zero) - ignore client-reported deaths
+        // Previously any client could claim a death and credit an arbitrary killerId
+        console.warn(`🚫 Ignoring client-reported death from ${playerConnection.username}`);
+        break;
 
-        // Validate attacker distance (prevent cheating)
-        // Note: We can't easily validate exact predator position without complex state sync
-        // Trust client hit detection for now (they already validated locally)
+      case 'player_damaged':
+      case 'player_healed':
+      case 'player_respawn':
+        // MVP 18: Advisory only - health and respawns are server-decided and broadcast by the server
+        // (these used to be relayed verbatim to every other client)
+        break;
+    }
+  }
 
-        // Apply hit to predator (increments annoyance)
-        const hitResult = this.predatorManager.handleWalnutHit(predatorId);
+  /**
+   * MVP 18: Check a throw's origin is near the player's server position and the aim point is in range
+   */
+  private isValidThrow(
+    player: PlayerConnection,
+    from: { x: number; y: number; z: number },
+    to: { x: number; y: number; z: number }
+  ): boolean {
+    const isFiniteVector = (v: { x: number; y: number; z: number }) =>
+      Number.isFinite(v.x) && Number.isFinite(v.y) && Number.isFinite(v.z);
+    if (!isFiniteVector(from) || !isFiniteVector(to)) {
+      return false;
+    }
 
-        if (hitResult.hit) {
-          console.log(`🎯 Wildebeest ${predatorId} hit! Annoyance: ${hitResult.annoyanceLevel}/4`);
+    const originDistance = Math.sqrt(
+      Math.pow(from.x - player.position.x, 2) +
+      Math.pow(from.y - player.position.y, 2) +
+      Math.pow(from.z - player.position.z, 2)
+    );
+    const range = Math.sqrt(
+      Math.pow(to.x - from.x, 2) +
+      Math.pow(to.y - from.y, 2) +
+      Math.pow(to.z - from.z, 2)
+    );
+    return originDistance <= THROW_VALIDATION.MAX_ORIGIN_DISTANCE && range <= THROW_VALIDATION.MAX_RANGE;
+  }
 
-          // MVP 13: Track hits (including predator hits)
-          this.metrics.hitsToday++;
-          await this.storage.put('metrics', this.metrics);
+  /**
+   * MVP 18: Start simulating a thrown walnut (called for player throws and by NPCManager)
+   * rewindMs shifts hit checks back to what the thrower saw (0 for NPCs - they see server state)
+   */
+  launchProjectile(
+    ownerId: string,
+    from: { x: number; y: number; z: number },
+    to: { x: number; y: number; z: number },
+    rewindMs: number = 0
+  ): string {
+    return this.projectileManager.launch(ownerId, from, to, rewindMs);
+  }
 
-          // Broadcast annoyance update to all clients for UI
-          this.broadcastToAll({
-            type: 'predator_annoyance_update',
-            predatorId: predatorId,
-            annoyanceLevel: hitResult.annoyanceLevel,
-            fleeing: hitResult.fleeing
-          });
+  /**
+   * MVP 18: How far behind server time a player sees others (half RTT + client render delay, capped)
+   */
+  private getRewindMs(player: PlayerConnection): number {
+    const oneWayLatency = (player.rttMs ?? 0) / 2;
+    return Math.min(LAG_COMPENSATION.MAX_REWIND, oneWayLatency + LAG_COMPENSATION.INTERPOLATION_DELAY);
+  }
 
-          // Award points if wildebeest was driven away
-          if (hitResult.fleeing) {
-            if (!playerConnection.isCarefree) {
-              playerConnection.score += 10; // Reward for driving away predator
-            }
-            await this.reportScoreToLeaderboard(playerConnection);
-            this.sendMessage(playerConnection.socket, {
-              type: 'score_update',
-              score: playerConnection.score
-            });
-          }
-        }
-        break;
+  /**
+   * MVP 18: Record NPC positions after each AI tick (forget despawned NPCs)
+   */
+  private recordNPCPositions(now: number): void {
+    const seen = new Set<string>();
+    for (const npc of this.npcManager.getAllNPCs()) {
+      seen.add(npc.id);
+      let history = this.npcPositionHistory.get(npc.id);
+      if (!history) {
+        history = new PositionHistory(LAG_COMPENSATION.HISTORY_SIZE);
+        this.npcPositionHistory.set(npc.id, history);
+      }
+      history.record(now, npc.position);
+    }
+    for (const npcId of this.npcPositionHistory.keys()) {
+      if (!seen.has(npcId)) {
+        this.npcPositionHistory.delete(npcId);
+      }
+    }
+  }
 
-      case 'player_died':
-        // MVP 8: Handle client-reported death (e.g. falling off map or client-side kill detection)
-        // This ensures penalties/rewards are applied even if server didn't detect the kill
+  /**
+   * MVP 18: Advance projectiles against server-tracked players, NPCs and wildebeest
+   * Dead and spawn-protected entities can't be hit (same as client hit detection)
+   * Players and NPCs are rewound via their position history; wildebeest use current position
+   */
+  private updateProjectiles(now: number): void {
+    const targets: ProjectileTarget[] = [];
 
-        // Validate killer exists if provided
-        let killerConnection: PlayerConnection | undefined;
-        if (data.killerId) {
-          killerConnection = this.activePlayers.get(data.killerId);
-        }
+    for (const player of this.activePlayers.values()) {
+      if (player.isDisconnected || player.health <= 0) continue;
+      if (player.invulnerableUntil && now < player.invulnerableUntil) continue;
+      targets.push({ id: player.squirrelId, kind: 'player', position: player.position, history: player.positionHistory });
+    }
 
-        // Apply death penalty (-5 points)
-        playerConnection.score = Math.max(0, playerConnection.score - 5);
-        playerConnection.combatStats.deaths += 1;
+    for (const npc of this.npcManager.getAllNPCs()) {
+      if (npc.health <= 0) continue;
+      targets.push({ id: npc.id, kind: 'npc', position: npc.position, history: this.npcPositionHistory.get(npc.id) });
+    }
 
-        // Award killer points (+5 points) if it was another player
-        if (killerConnection && killerConnection.squirrelId !== playerConnection.squirrelId) {
-          if (!killerConnection.isCarefree) {
-            killerConnection.score += 5;
-          }
-          killerConnection.combatStats.knockouts += 1;
-          killerConnection.combatStats.hits += 1; // Assume at least one hit caused it
+    // Aerial predators are distracted by throws, not hit
+    for (const predator of this.predatorManager.getPredators()) {
+      if (predator.type !== 'wildebeest') continue;
+      targets.push({ id: predator.id, kind: 'predator', position: predator.position });
+    }
 
-          // Update killer's score
-          this.sendMessage(killerConnection.socket, {
-            type: 'score_update',
-            score: killerConnection.score
-          });
-          await this.reportScoreToLeaderboard(killerConnection);
-        }
+    this.projectileManager.update(now, targets, (x, z) => this.getTerrainHeight(x, z));
+  }
 
-        // Update victim's score
-        this.sendMessage(playerConnection.socket, {
-          type: 'score_update',
-          score: playerConnection.score
-        });
-        await this.reportScoreToLeaderboard(playerConnection);
+  /**
+   * MVP 18: Apply a finished flight - damage/annoyance on a hit, then a pickupable walnut where it landed
+   */
+  private async resolveProjectile(result: ProjectileResult): Promise<void> {
+    const thrower = this.activePlayers.get(result.ownerId) || null; // null = NPC throw
 
-        // Handle walnut drops (server-authoritative)
-        // Client sends 'walnuts' count, but we should verify against server state if possible
-        // For now, trust the server's inventory count for this player
-        const walnutsToDrop = playerConnection.walnutInventory;
+    if (result.target?.kind === 'predator') {
+      // Only players drive away wildebeest (NPC walnuts just land)
+      if (thrower) {
+        await this.applyPredatorWalnutHit(thrower, result.target.id);
+      }
+    } else if (result.target) {
+      await this.applyProjectileHit(result.ownerId, thrower, result.target.id);
+    }
 
-        if (walnutsToDrop > 0) {
-          try {
-            // Create dropped walnuts at death position
-            for (let i = 0; i < walnutsToDrop; i++) {
-              const walnutId = `death-drop-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-              const walnut: Walnut = {
-                id: walnutId,
-                ownerId: 'game', // Dropped walnuts are neutral
-                origin: 'game',
-                hiddenIn: 'ground',
-                location: {
-                  x: (data.position?.x || playerConnection.position.x) + (Math.random() - 0.5) * 2,
-                  y: (data.position?.y || playerConnection.position.y) + 0.5,
-                  z: (data.position?.z || playerConnection.position.z) + (Math.random() - 0.5) * 2
-                },
-                found: false,
-                timestamp: Date.now()
-              };
+    await this.spawnDroppedWalnut({
+      x: result.position.x,
+      y: this.getTerrainHeight(result.position.x, result.position.z) + PROJECTILE_WALNUT_RADIUS,
+      z: result.position.z
+    });
+  }
 
-              this.mapState.push(walnut);
+  /**
+   * MVP 8/9: Walnut hit damage on a player or NPC
+   * MVP 18: Called from the projectile simulation - attacker is null for NPC throws (no points)
+   */
+  private async applyProjectileHit(attackerId: string, attacker: PlayerConnection | null, targetId: string): Promise<void> {
+    const targetPlayer = this.activePlayers.get(targetId);
+    const targetNPC = targetPlayer ? undefined : this.npcManager.getNPCById(targetId);
+    if (!targetPlayer && !targetNPC) {
+      return;
+    }
+    const targetPosition = targetPlayer ? targetPlayer.position : targetNPC!.position;
 
-              // Broadcast dropped walnut
-              this.broadcastToAll({
-                type: 'walnut_dropped',
-                walnutId: walnut.id,
-                position: walnut.location
-              });
-            }
+    let actualDamage = 0;
+    let newHealth = 0;
 
-            await this.storage.put('mapState', this.mapState);
-            playerConnection.walnutInventory = 0;
+    if (targetPlayer) {
+      // MVP 9: Check if player is already dead (prevent double-death from rapid hits)
+      if (targetPlayer.health <= 0) {
+        return;
+      }
 
-            // Sync inventory with client
-            this.sendMessage(playerConnection.socket, {
-              type: 'inventory_update',
-              walnutCount: 0
-            });
+      // Damage player
+      const oldHealth = targetPlayer.health;
+      targetPlayer.health = Math.max(0, targetPlayer.health - THROW_VALIDATION.DAMAGE);
+      actualDamage = oldHealth - targetPlayer.health;
+      newHealth = targetPlayer.health;
 
-          } catch (error) {
-            console.error(`❌ Failed to drop walnuts for ${playerConnection.username}:`, error);
-          }
-        }
+      // Track attacker for knockout credit
+      if (actualDamage > 0) {
+        this.recordAttacker(targetPlayer, attackerId);
+      }
+    } else if (targetNPC) {
+      // MVP 9: Check if NPC is already dead (prevent double-death from rapid hits)
+      if (targetNPC.health <= 0) {
+        return;
+      }
 
-        // Broadcast death event to everyone (including victim)
-        this.broadcastToAll({
-          type: 'player_death',
-          victimId: playerConnection.squirrelId,
-          killerId: data.killerId,
-          deathPosition: data.position || playerConnection.position
-        });
-        break;
+      // MVP 9: Damage NPC
+      actualDamage = this.npcManager.applyDamageToNPC(targetId, THROW_VALIDATION.DAMAGE);
+      // Get fresh NPC reference to ensure we have the updated health value
+      const updatedNPC = this.npcManager.getNPCById(targetId);
+      newHealth = updatedNPC ? updatedNPC.health : 0;
+    }
 
-      default:
-        // Broadcast other messages
-        this.broadcastToOthers(playerConnection.squirrelId, data);
-        break;
+    if (attacker) {
+      // Award +2 points for successful hit
+      this.awardPoints(attacker, 2);
+      attacker.combatStats.hits += 1;
+
+      // MVP 13: Track hits
+      this.metrics.hitsToday++;
+      await this.storage.put('metrics', this.metrics);
+
+      // MVP 8: Report score to leaderboard + send to player for HUD
+      await this.reportScoreToLeaderboard(attacker);
+      this.sendMessage(attacker.socket, {
+        type: 'score_update',
+        score: attacker.score
+      });
+    }
+
+    // Broadcast damage event to all players
+    this.broadcastToAll({
+      type: 'entity_damaged',
+      targetId: targetId,
+      attackerId: attackerId,
+      damage: actualDamage,
+      newHealth: newHealth,
+      position: targetPosition
+    });
+
+    // Check for death/knockout
+    if (newHealth <= 0) {
+      if (targetPlayer) {
+        await this.handlePlayerDeath(targetPlayer);
+      } else {
+        // MVP 9: Handle NPC death
+        await this.npcManager.handleNPCDeath(targetId);
+      }
+    }
+  }
+
+  /**
+   * MVP 12: Walnut hit on wildebeest predator (annoyance system)
+   * MVP 18: Called from the projectile simulation
+   */
+  private async applyPredatorWalnutHit(playerConnection: PlayerConnection, predatorId: string): Promise<void> {
+    // Apply hit to predator (increments annoyance)
+    const hitResult = this.predatorManager.handleWalnutHit(predatorId);
+
+    if (hitResult.hit) {
+      console.log(`🎯 Wildebeest ${predatorId} hit! Annoyance: ${hitResult.annoyanceLevel}/4`);
+
+      // MVP 13: Track hits (including predator hits)
+      this.metrics.hitsToday++;
+      await this.storage.put('metrics', this.metrics);
+
+      // Broadcast annoyance update to all clients for UI
+      this.broadcastToAll({
+        type: 'predator_annoyance_update',
+        predatorId: predatorId,
+        annoyanceLevel: hitResult.annoyanceLevel,
+        fleeing: hitResult.fleeing
+      });
+
+      // Award points if wildebeest was driven away
+      if (hitResult.fleeing) {
+        this.awardPoints(playerConnection, 10); // Reward for driving away predator
+        await this.reportScoreToLeaderboard(playerConnection);
+        this.sendMessage(playerConnection.socket, {
+          type: 'score_update',
+          score: playerConnection.score
+        });
+      }
     }
   }
 
+  /**
+   * MVP 8: Create pickupable walnut on ground where a projectile landed
+   * MVP 18: Position comes from the server simulation
+   */
+  private async spawnDroppedWalnut(position: { x: number; y: number; z: number }): Promise<void> {
+    const droppedWalnut: Walnut = {
+      id: `dropped-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      ownerId: 'game', // No specific owner, anyone can pick it up
+      origin: 'player', // Originated from player throw
+      hiddenIn: 'ground', // Not buried, on ground surface
+      location: position,
+      found: false,
+      timestamp: Date.now()
+    };
+
+    this.mapState.push(droppedWalnut);
+    await this.storage.put('mapState', this.mapState);
+
+    // Broadcast to all players so they can see the new pickupable walnut
+    this.broadcastToAll({
+      type: 'walnut_dropped',
+      walnutId: droppedWalnut.id,
+      position: droppedWalnut.location
+    });
+  }
+
+  /**
+   * MVP 18: Remember who damaged a player (knockout credit + assists)
+   * attackerId can be a player, NPC or predator - only players are credited on death
+   */
+  private recordAttacker(victim: PlayerConnection, attackerId: string): void {
+    victim.lastAttackerId = attackerId;
+    victim.recentAttackers.set(attackerId, Date.now());
+  }
+
   /**
    * MVP 8: Handle player death and respawn
+   * MVP 18: Only called when server-side health reaches zero. The knockout goes to
+   * lastAttackerId if it is a player who hit within KNOCKOUT_WINDOW; other players
+   * who damaged the victim within ASSIST_WINDOW get an assist.
    */
-  private async handlePlayerDeath(victim: PlayerConnection, killer: PlayerConnection): Promise<void> {
+  private async handlePlayerDeath(victim: PlayerConnection): Promise<void> {
+    const now = Date.now();
+    const killerId = victim.lastAttackerId || '';
+
+    const lastHitAt = victim.recentAttackers.get(killerId) || 0;
+    const killer = killerId !== victim.squirrelId && now - lastHitAt <= KNOCKOUT_CREDIT.KNOCKOUT_WINDOW
+      ? this.activePlayers.get(killerId) || null
+      : null;
+
+    const assisters: PlayerConnection[] = [];
+    victim.recentAttackers.forEach((hitAt, attackerId) => {
+      if (attackerId === killerId || attackerId === victim.squirrelId) return;
+      if (now - hitAt > KNOCKOUT_CREDIT.ASSIST_WINDOW) return;
+      const assister = this.activePlayers.get(attackerId);
+      if (assister) {
+        assisters.push(assister);
+      }
+    });
+    victim.recentAttackers.clear();
+
+    // Award knockout points to killer
+    if (killer) {
+      this.awardPoints(killer, KNOCKOUT_CREDIT.KNOCKOUT_POINTS);
+      killer.combatStats.knockouts += 1;
+    }
 
-    // Award knockout points to killer (+5)
-    if (!killer.isCarefree) {
-      killer.score += 5;
+    // MVP 18: Award assist points
+    for (const assister of assisters) {
+      this.awardPoints(assister, KNOCKOUT_CREDIT.ASSIST_POINTS);
+      assister.combatStats.assists += 1;
     }
-    killer.combatStats.knockouts += 1;
 
-    // Apply death penalty to victim (-2)
-    victim.score = Math.max(0, victim.score - 2);
+    // Apply death penalty to victim
+    victim.score = Math.max(0, victim.score - KNOCKOUT_CREDIT.DEATH_PENALTY);
     victim.combatStats.deaths += 1;
 
     // MVP 8: Report scores to leaderboard + send to players for HUD
-    await this.reportScoreToLeaderboard(killer);
+    for (const scorer of killer ? [killer, ...assisters] : assisters) {
+      await this.reportScoreToLeaderboard(scorer);
+      this.sendMessage(scorer.socket, {
+        type: 'score_update',
+        score: scorer.score
+      });
+    }
     await this.reportScoreToLeaderboard(victim);
-    this.sendMessage(killer.socket, {
-      type: 'score_update',
-      score: killer.score
-    });
     this.sendMessage(victim.socket, {
       type: 'score_update',
       score: victim.score
@@ -2983,12 +3979,10 @@ export default class ForestManager extends DurableObject {
           this.mapState.push(walnut);
 
           // Broadcast dropped walnut
-          this.activePlayers.forEach((player) => {
-            this.sendMessage(player.socket, {
-              type: 'walnut_dropped',
-              walnutId: walnut.id,
-              position: walnut.location
-            });
+          this.broadcastToAll({
+            type: 'walnut_dropped',
+            walnutId: walnut.id,
+            position: walnut.location
           });
         }
 
@@ -3000,13 +3994,12 @@ export default class ForestManager extends DurableObject {
     }
 
     // Broadcast death event
-    this.activePlayers.forEach((player) => {
-      this.sendMessage(player.socket, {
-        type: 'player_death',
-        victimId: victim.squirrelId,
-        killerId: killer.squirrelId,
-        deathPosition: victim.position
-      });
+    this.broadcastToAll({
+      type: 'player_death',
+      victimId: victim.squirrelId,
+      killerId,
+      assistIds: assisters.map(assister => assister.squirrelId),
+      deathPosition: victim.position
     });
 
     // Respawn after 3 seconds
@@ -3024,21 +4017,22 @@ export default class ForestManager extends DurableObject {
       ];
       const randomSpawn = spawnPoints[Math.floor(Math.random() * spawnPoints.length)];
 
-      victim.position = { x: randomSpawn.x, y: 2, z: randomSpawn.z };
+      // MVP 18: Server picks the respawn point - the client is snapped there by player_respawn
+      victim.position = { x: randomSpawn.x, y: this.getTerrainHeight(randomSpawn.x, randomSpawn.z) + 2, z: randomSpawn.z };
+      victim.respawnTeleportPending = true;
+      this.resetMovementBaseline(victim);
       victim.health = victim.maxHealth;
       victim.lastAttackerId = null;
       victim.invulnerableUntil = Date.now() + 3000; // 3s spawn protection
 
       // Broadcast respawn
-      this.activePlayers.forEach((player) => {
-        this.sendMessage(player.socket, {
-          type: 'player_respawn',
-          playerId: victim.squirrelId,
-          position: victim.position,
-          health: victim.health,
-          invulnerableUntil: victim.invulnerableUntil,
-          walnutInventory: victim.walnutInventory // MVP 8: Include inventory (should be 0 after death)
-        });
+      this.broadcastToAll({
+        type: 'player_respawn',
+        playerId: victim.squirrelId,
+        position: victim.position,
+        health: victim.health,
+        invulnerableUntil: victim.invulnerableUntil,
+        walnutInventory: victim.walnutInventory // MVP 8: Include inventory (should be 0 after death)
       });
     }, 3000);
   }
@@ -3046,7 +4040,7 @@ export default class ForestManager extends DurableObject {
   // Simple world state initialization
   // MVP 6: Now includes spawn position for returning players
   private async sendWorldState(
-    socket: WebSocket,
+    playerConnection: PlayerConnection,
     spawnPosition: { x: number; y: number; z: number },
     spawnRotationY: number,
     titleId?: string,
@@ -3062,10 +4056,36 @@ export default class ForestManager extends DurableObject {
       await this.storage.put('mapState', this.mapState);
     }
 
-    this.sendMessage(socket, {
+    // MVP 18: Pay out settlements from cycles that ended while this player was offline
+    const awaySummary = await this.claimSettlement(playerConnection);
+
+    // MVP 18: Only send walnuts this player is allowed to know about (fresh client = fresh reveal set)
+    playerConnection.revealedWalnuts.clear();
+    playerConnection.interestSet.clear(); // Entities are re-entered by the next interest sweep
+    playerConnection.pendingSnapshots = [];
+    const visibleMapState = this.mapState.filter(walnut => {
+      if (this.isWalnutAlwaysVisibleTo(playerConnection, walnut)) {
+        return true;
+      }
+      if (!walnut.found && this.getHorizontalDistance(spawnPosition, walnut.location) <= WALNUT_VISIBILITY.DISCOVERY_RADIUS) {
+        playerConnection.revealedWalnuts.add(walnut.id);
+        return true;
+      }
+      return false;
+    }).map(walnut => {
+      // MVP 18: Decoys look like real buried walnuts to everyone but their owner
+      if (walnut.isDecoy && walnut.ownerId !== playerConnection.squirrelId) {
+        const { isDecoy, ...disguised } = walnut;
+        return disguised;
+      }
+      return walnut;
+    });
+
+    this.sendMessage(playerConnection.socket, {
       type: "world_state",
+      forestId: this.forestId, // MVP 18: Client reconnects (and invites friends) to this shard
       terrainSeed: this.terrainSeed,
-      mapState: this.mapState,
+      mapState: visibleMapState,
       forestObjects: this.forestObjects,
       // MVP 6: Send spawn position so returning players spawn at last location
       spawnPosition,
@@ -3073,7 +4093,12 @@ export default class ForestManager extends DurableObject {
       // MVP 12: Send player title information
       titleId,
       titleName,
-      isFirstJoin
+      isFirstJoin,
+      activeEvent: this.getActiveEventInfo(), // MVP 18: Late joiners see a running Nut Rush
+      awaySummary, // MVP 18: "While you were away" cycle settlement (null if nothing owed)
+      protocolVersion: playerConnection.protocolVersion, // MVP 18: Binary protocol accepted (0 = stay on JSON)
+      resumeToken: playerConnection.resumeToken, // MVP 18: Reconnects send this back to resume the session
+      eventSeq: this.eventSeq // MVP 18: Replay cursor (broadcasts after this one are replayed on resume)
     });
   }
 
@@ -3087,18 +4112,16 @@ export default class ForestManager extends DurableObject {
     // Check if reached threshold and hasn't received this bonus yet
     if (count === threshold && !player.bonusMilestones.has(threshold)) {
       player.bonusMilestones.add(threshold);
-      if (!player.isCarefree) {
-        player.score += this.treeGrowingBonus.pointsAwarded;
-      }
+      const bonusPoints = this.awardPoints(player, this.treeGrowingBonus.pointsAwarded);
 
-      console.log(`🎉 ${player.username} earned tree growing bonus! ${count} trees grown, +${this.treeGrowingBonus.pointsAwarded} points`);
+      console.log(`🎉 ${player.username} earned tree growing bonus! ${count} trees grown, +${bonusPoints} points`);
 
       // Send special bonus message (triggers custom UI overlay on client)
       this.sendMessage(player.socket, {
         type: 'tree_growing_bonus',
-        points: this.treeGrowingBonus.pointsAwarded,
+        points: bonusPoints,
         count: count,
-        message: `You've grown a thriving forest! +${this.treeGrowingBonus.pointsAwarded} bonus points!`
+        message: `You've grown a thriving forest! +${bonusPoints} bonus points!`
       });
 
       // Update score in leaderboard
@@ -3164,6 +4187,7 @@ export default class ForestManager extends DurableObject {
 
   // Simple broadcasting
   private broadcastToOthers(excludeSquirrelId: string, message: any): void {
+    message = this.logEvent(message, excludeSquirrelId);
     const serializedMessage = JSON.stringify(message);
 
     for (const [squirrelId, playerConnection] of this.activePlayers) {
@@ -3171,7 +4195,7 @@ export default class ForestManager extends DurableObject {
 
       if (playerConnection.socket.readyState === WebSocket.OPEN) {
         try {
-          playerConnection.socket.send(serializedMessage);
+          playerConnection.socket.send(this.encodeForPlayer(playerConnection, message, serializedMessage));
         } catch (error) {
           console.error(`Failed to send message to ${squirrelId}:`, error);
         }
@@ -3181,12 +4205,13 @@ export default class ForestManager extends DurableObject {
 
   // MVP 7: Broadcast to ALL players (used by NPCManager)
   broadcastToAll(message: any): void {
+    message = this.logEvent(message, null);
     const serializedMessage = JSON.stringify(message);
 
     for (const playerConnection of this.activePlayers.values()) {
       if (playerConnection.socket.readyState === WebSocket.OPEN) {
         try {
-          playerConnection.socket.send(serializedMessage);
+          playerConnection.socket.send(this.encodeForPlayer(playerConnection, message, serializedMessage));
         } catch (error) {
           console.error(`Failed to broadcast to ${playerConnection.squirrelId}:`, error);
         }
@@ -3194,46 +4219,220 @@ export default class ForestManager extends DurableObject {
     }
   }
 
-  // MVP 8: Report player score to leaderboard
-  // MVP 9: Also update SquirrelSession for score persistence
-  private async reportScoreToLeaderboard(playerConnection: any): Promise<void> {
-    // MVP 15 FIX: Global guard - Carefree players NEVER report score or rank up
-    if (playerConnection.isCarefree) return;
-    try {
-      // MVP 9: Update SquirrelSession for score persistence across reconnects
-      const squirrelSessionId = this.env.SQUIRREL.idFromName(playerConnection.squirrelId);
-      const squirrelSession = this.env.SQUIRREL.get(squirrelSessionId);
+  /**
+   * MVP 18: Number a broadcast and keep it for session resume replay
+   * Hot-path messages aren't logged - snapshots and interest sweeps catch resumed clients up on those
+   */
+  private logEvent(message: any, excludeSquirrelId: string | null): any {
+    if (isBinaryMessageType(message.type)) {
+      return message;
+    }
 
-      try {
-        // MVP 12: Check for rank-ups when updating score
-        const sessionResponse = await squirrelSession.fetch(new Request('http://session/update-score', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            squirrelId: playerConnection.squirrelId,
-            score: playerConnection.score
-          })
-        }));
+    const seq = ++this.eventSeq;
+    if (seq > this.eventSeqReserved) {
+      // Output gate holds this broadcast until the reservation is durable
+      this.eventSeqReserved = seq + SESSION_RESUME.EVENT_SEQ_BLOCK;
+      this.storage.put('eventSeqReserved', this.eventSeqReserved);
+    }
+    const logged = { ...message, eventSeq: seq };
+    this.eventLog.push({ seq, excludeSquirrelId, serializedMessage: JSON.stringify(logged) });
+    if (this.eventLog.length > SESSION_RESUME.EVENT_LOG_SIZE) {
+      this.eventLog.shift();
+    }
+    return logged;
+  }
 
-        // MVP 12: Parse response to check for rank-up
-        const sessionData = await sessionResponse.json() as any;
-        if (sessionData.rankedUp && sessionData.newTitle) {
-          // Player ranked up! Send rank-up notification via WebSocket
-          try {
-            playerConnection.socket.send(JSON.stringify({
-              type: 'rank_up',
-              titleId: sessionData.newTitle.id,
-              titleName: sessionData.newTitle.name,
-              description: sessionData.newTitle.description
-            }));
-          } catch (sendError) {
-            console.warn(`⚠️ Failed to send rank-up notification to ${playerConnection.username}:`, sendError);
-          }
+  /**
+   * MVP 18: Broadcasts a resuming client missed since `lastEventSeq`
+   * @returns null if the log no longer covers the gap (including cursors from before an eviction) - needs a full sync
+   */
+  private getMissedEvents(squirrelId: string, lastEventSeq: number): LoggedEvent[] | null {
+    if (!Number.isInteger(lastEventSeq) || lastEventSeq < 0 || lastEventSeq > this.eventSeq) {
+      return null;
+    }
+    const oldestSeq = this.eventLog.length > 0 ? this.eventLog[0].seq : this.eventSeq + 1;
+    if (lastEventSeq < oldestSeq - 1) {
+      return null;
+    }
+    return this.eventLog.filter(event => event.seq > lastEventSeq && event.excludeSquirrelId !== squirrelId);
+  }
 
-          // MVP 12: Update player's title on connection object
-          playerConnection.titleId = sessionData.newTitle.id;
-          playerConnection.titleName = sessionData.newTitle.name;
-        }
+  /**
+   * MVP 18: Send a one-off event only to players interested in the entity it's about
+   */
+  private broadcastToInterested(key: string, message: any): void {
+    let serializedMessage: string | null = null;
+
+    for (const playerConnection of this.getInterestedPlayers(key)) {
+      if (serializedMessage === null) {
+        serializedMessage = JSON.stringify(message);
+      }
+      this.sendToPlayer(playerConnection, message, serializedMessage);
+    }
+  }
+
+  /**
+   * MVP 18: Record this tick's NPC states for the next snapshot (used by NPCManager)
+   */
+  recordNPCStates(npcUpdates: any[]): void {
+    for (const update of npcUpdates) {
+      this.setSnapshotState(`npc:${update.npcId}`, 'npc', update);
+    }
+  }
+
+  /**
+   * MVP 18: Store an entity's latest state - the version only moves when something other than the
+   * client timestamp changed, so idle entities drop out of deltas once acknowledged
+   */
+  private setSnapshotState(key: string, kind: SnapshotState['kind'], entry: any): void {
+    const { timestamp, ...compared } = entry;
+    const signature = JSON.stringify(compared);
+    const existing = this.snapshotStates.get(key);
+
+    if (existing && existing.signature === signature) {
+      existing.entry = entry;
+      return;
+    }
+    this.snapshotStates.set(key, { kind, entry, signature, version: this.snapshotSeq + 1 });
+  }
+
+  /**
+   * MVP 18: Send every client one snapshot with the entities in its interest set that changed
+   * since its last acknowledged snapshot (called once per alarm tick)
+   * Entities beyond FULL_RATE_RADIUS are included at most every DISTANT_UPDATE_INTERVAL
+   */
+  private sendSnapshots(now: number): void {
+    this.snapshotSeq++;
+    const seq = this.snapshotSeq;
+
+    for (const playerConnection of this.activePlayers.values()) {
+      if (playerConnection.isDisconnected || playerConnection.interestSet.size === 0) continue;
+
+      const players: any[] = [];
+      const npcs: any[] = [];
+      const versions = new Map<string, number>();
+
+      for (const [key, interest] of playerConnection.interestSet) {
+        const state = this.snapshotStates.get(key);
+        if (!state || state.version <= interest.ackedVersion) continue;
+        if (this.getHorizontalDistance(playerConnection.position, state.entry.position) > INTEREST_MANAGEMENT.FULL_RATE_RADIUS &&
+            now - interest.lastSentAt < INTEREST_MANAGEMENT.DISTANT_UPDATE_INTERVAL) {
+          continue;
+        }
+
+        interest.lastSentAt = now;
+        versions.set(key, state.version);
+        if (state.kind === 'player') {
+          players.push(state.entry);
+        } else {
+          npcs.push(state.entry);
+        }
+      }
+
+      if (versions.size === 0) continue;
+
+      playerConnection.pendingSnapshots.push({ seq, versions });
+      if (playerConnection.pendingSnapshots.length > SNAPSHOT_DELTA.MAX_PENDING) {
+        playerConnection.pendingSnapshots.shift();
+      }
+
+      const message = { type: 'snapshot', seq, serverTime: now, players, npcs };
+      this.sendToPlayer(playerConnection, message, JSON.stringify(message));
+    }
+  }
+
+  /**
+   * MVP 18: Client received a snapshot - everything in it (and earlier ones) is its new delta baseline
+   */
+  private acknowledgeSnapshot(playerConnection: PlayerConnection, seq: number): void {
+    const pending = playerConnection.pendingSnapshots;
+    while (pending.length > 0 && pending[0].seq <= seq) {
+      const snapshot = pending.shift()!;
+      snapshot.versions.forEach((version, key) => {
+        const interest = playerConnection.interestSet.get(key);
+        if (interest && version > interest.ackedVersion) {
+          interest.ackedVersion = version;
+        }
+      });
+    }
+  }
+
+  private sendToPlayer(playerConnection: PlayerConnection, message: any, serializedMessage: string): void {
+    if (playerConnection.socket.readyState === WebSocket.OPEN) {
+      try {
+        playerConnection.socket.send(this.encodeForPlayer(playerConnection, message, serializedMessage));
+      } catch (error) {
+        console.error(`Failed to send message to ${playerConnection.squirrelId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * MVP 18: Binary frame for hot-path messages if this player negotiated it, else the shared JSON
+   */
+  private encodeForPlayer(playerConnection: PlayerConnection, message: any, serializedMessage: string): string | ArrayBuffer {
+    if (playerConnection.codec && isBinaryMessageType(message.type)) {
+      const frame = playerConnection.codec.encode(message, playerConnection.protocolVersion);
+      if (frame) {
+        return frame;
+      }
+    }
+    return serializedMessage;
+  }
+
+  /**
+   * MVP 18: Parse an incoming frame (binary hot-path message or JSON)
+   */
+  private decodeSocketMessage(playerConnection: PlayerConnection, data: string | ArrayBuffer): unknown {
+    if (typeof data === 'string') {
+      return JSON.parse(data);
+    }
+    if (!playerConnection.codec) {
+      throw new Error('Binary frame received without a negotiated protocol');
+    }
+    return playerConnection.codec.decode(data);
+  }
+
+  // MVP 8: Report player score to leaderboard
+  // MVP 9: Also update SquirrelSession for score persistence
+  private async reportScoreToLeaderboard(playerConnection: any): Promise<void> {
+    // MVP 15 FIX: Global guard - Carefree players NEVER report score or rank up
+    if (playerConnection.isCarefree) return;
+    try {
+      // MVP 9: Update SquirrelSession for score persistence across reconnects
+      const squirrelSessionId = this.env.SQUIRREL.idFromName(playerConnection.squirrelId);
+      const squirrelSession = this.env.SQUIRREL.get(squirrelSessionId);
+
+      try {
+        // MVP 12: Check for rank-ups when updating score
+        const sessionResponse = await squirrelSession.fetch(new Request('http://session/update-score', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            squirrelId: playerConnection.squirrelId,
+            score: playerConnection.score
+          })
+        }));
+
+        // MVP 12: Parse response to check for rank-up
+        const sessionData = await sessionResponse.json() as any;
+        if (sessionData.rankedUp && sessionData.newTitle) {
+          // Player ranked up! Send rank-up notification via WebSocket
+          try {
+            playerConnection.socket.send(JSON.stringify({
+              type: 'rank_up',
+              titleId: sessionData.newTitle.id,
+              titleName: sessionData.newTitle.name,
+              description: sessionData.newTitle.description
+            }));
+          } catch (sendError) {
+            console.warn(`⚠️ Failed to send rank-up notification to ${playerConnection.username}:`, sendError);
+          }
+
+          // MVP 12: Update player's title on connection object
+          playerConnection.titleId = sessionData.newTitle.id;
+          playerConnection.titleName = sessionData.newTitle.name;
+        }
       } catch (error) {
         console.warn(`⚠️ Failed to update session score for ${playerConnection.username}:`, error);
       }
@@ -3256,15 +4455,17 @@ export default class ForestManager extends DurableObject {
         playerId: shouldUseUsernameAsId ? playerConnection.username : playerConnection.squirrelId,
         displayName: playerConnection.username || 'Anonymous', // MVP 17: Visual name
         score: playerConnection.score,
-        walnuts: {
-          hidden: 0, // TODO: Track these stats
-          found: 0
-        },
+        walnuts: { ...playerConnection.walnutStats },
+        // MVP 18: Category leaderboards (this cycle's counters - the leaderboard keeps the best)
+        knockouts: playerConnection.combatStats.knockouts,
+        deaths: playerConnection.combatStats.deaths,
+        treesGrown: playerConnection.treesGrownCount,
         updatedAt: Date.now(),
         // MVP 16: Include auth status for All-Time leaderboard filtering
         isAuthenticated: !!playerConnection.isAuthenticated,
         emailVerified: !!playerConnection.emailVerified,
-        characterId: playerConnection.characterId || 'squirrel'
+        characterId: playerConnection.characterId || 'squirrel',
+        multiplier: playerConnection.multiplier ?? 1.0 // MVP 18: Participation multiplier
       };
 
       // Report to leaderboard
@@ -3544,7 +4745,7 @@ export default class ForestManager extends DurableObject {
         id: `tree-${Date.now()}-${i}`,
         type: "tree",
         x,
-        y: 0,
+        y: this.getTerrainHeight(x, z),
         z,
         scale: 0.8 + Math.random() * 0.4
       });
@@ -3566,7 +4767,7 @@ export default class ForestManager extends DurableObject {
         id: `shrub-${Date.now()}-${i}`,
         type: "shrub",
         x,
-        y: 0,
+        y: this.getTerrainHeight(x, z),
         z,
         scale: 0.7 + Math.random() * 0.3
       });
@@ -3590,7 +4791,7 @@ export default class ForestManager extends DurableObject {
         id: `rock-${Date.now()}-${i}`,
         type: "rock",
         x,
-        y: 0,
+        y: this.getTerrainHeight(x, z),
         z,
         scale: 0.8 + Math.random() * 0.4,
         modelVariant: availableRockVariants[Math.floor(Math.random() * availableRockVariants.length)]
@@ -3613,7 +4814,7 @@ export default class ForestManager extends DurableObject {
         id: `stump-${Date.now()}-${i}`,
         type: "stump",
         x,
-        y: 0,
+        y: this.getTerrainHeight(x, z),
         z,
         scale: 0.9 + Math.random() * 0.3
       });
@@ -3653,6 +4854,90 @@ export default class ForestManager extends DurableObject {
     }
   }
 
+  /**
+   * MVP 18: Apply a predator attack to server state
+   * Aerial predators steal walnuts and peck, ground predators bite. Clients only react
+   * to the resulting walnuts_stolen / entity_damaged broadcasts.
+   */
+  private async resolvePredatorAttack(attack: PredatorAttackEvent): Promise<void> {
+    if (attack.isPlayer) {
+      const victim = this.activePlayers.get(attack.targetId);
+      if (!victim || victim.isDisconnected || victim.isCarefree || victim.health <= 0) {
+        return;
+      }
+      if (victim.invulnerableUntil && Date.now() < victim.invulnerableUntil) {
+        return; // Respawn protection
+      }
+
+      const stolen = Math.min(victim.walnutInventory, attack.stealAmount);
+      if (stolen > 0) {
+        victim.walnutInventory -= stolen;
+        this.broadcastToAll({
+          type: 'walnuts_stolen',
+          targetId: victim.squirrelId,
+          predatorId: attack.predatorId,
+          predatorType: attack.predatorType,
+          amount: stolen,
+          newInventory: victim.walnutInventory
+        });
+      }
+
+      const oldHealth = victim.health;
+      victim.health = Math.max(0, victim.health - attack.damage);
+      this.recordAttacker(victim, attack.predatorId);
+      this.broadcastToAll({
+        type: 'entity_damaged',
+        targetId: victim.squirrelId,
+        attackerId: attack.predatorId,
+        predatorType: attack.predatorType,
+        damage: oldHealth - victim.health,
+        newHealth: victim.health,
+        position: victim.position
+      });
+
+      console.log(`🦅 ${attack.predatorType} hit ${victim.username}: -${oldHealth - victim.health} HP, -${stolen} walnuts`);
+
+      // Same death path as player combat (walnut drop, penalty, respawn)
+      if (victim.health <= 0) {
+        await this.handlePlayerDeath(victim);
+      }
+      return;
+    }
+
+    const npc = this.npcManager.getNPCById(attack.targetId);
+    if (!npc || npc.health <= 0) {
+      return;
+    }
+
+    const stolen = Math.min(npc.walnutInventory, attack.stealAmount);
+    if (stolen > 0) {
+      npc.walnutInventory -= stolen;
+      this.broadcastToAll({
+        type: 'walnuts_stolen',
+        targetId: npc.id,
+        predatorId: attack.predatorId,
+        predatorType: attack.predatorType,
+        amount: stolen,
+        newInventory: npc.walnutInventory
+      });
+    }
+
+    const damage = this.npcManager.applyDamageToNPC(npc.id, attack.damage);
+    this.broadcastToAll({
+      type: 'entity_damaged',
+      targetId: npc.id,
+      attackerId: attack.predatorId,
+      predatorType: attack.predatorType,
+      damage,
+      newHealth: npc.health,
+      position: npc.position
+    });
+
+    if (npc.health <= 0) {
+      await this.npcManager.handleNPCDeath(npc.id);
+    }
+  }
+
   /**
    * MVP 12: Update predator AI
    * Called every 100ms when players are active
@@ -3685,31 +4970,37 @@ export default class ForestManager extends DurableObject {
       });
     });
 
-    // Simple terrain height function (flat ground at y=0 for server-side AI)
-    // Client will render predators at correct height
-    const getTerrainHeight = (_x: number, _z: number) => 0;
+    // MVP 18: True terrain height (same shared function the client renders)
+    const getTerrainHeight = (x: number, z: number) => this.getTerrainHeight(x, z);
 
     // Update all predators
     this.predatorManager.update(0.1, players, npcs, getTerrainHeight); // 0.1s = 100ms
 
-    // Broadcast predator state to all clients
-    const predators = this.predatorManager.getPredators();
-    if (predators.length > 0) {
-      const message = {
-        type: 'predators_update',
-        predators: predators.map(p => ({
+    // MVP 18: Each player only gets the predators in their interest set
+    // Not throttled - the client removes predators missing from predators_update
+    const batches = new Map<PlayerConnection, any[]>();
+    for (const p of this.predatorManager.getPredators()) {
+      for (const player of this.getInterestedPlayers(`predator:${p.id}`)) {
+        let batch = batches.get(player);
+        if (!batch) {
+          batch = [];
+          batches.set(player, batch);
+        }
+        batch.push({
           id: p.id,
           type: p.type,
           position: p.position,
           rotationY: p.rotationY,
           state: p.state,
           targetId: p.targetId,
-        })),
-      };
-
-      // Broadcast to all players
-      this.broadcastToOthers('', message); // Empty string = don't exclude anyone
+        });
+      }
     }
+
+    batches.forEach((predators, player) => {
+      const message = { type: 'predators_update', predators };
+      this.sendToPlayer(player, message, JSON.stringify(message));
+    });
   }
 
   /**
@@ -3726,11 +5017,12 @@ export default class ForestManager extends DurableObject {
 
     // Select ONE random tree
     const randomTree = trees[Math.floor(Math.random() * trees.length)];
+    const groundY = this.getTerrainHeight(randomTree.x, randomTree.z);
 
     // Create walnut at ground level under tree
     const walnutPosition = {
       x: randomTree.x,
-      y: 0.3, // Ground level (same as other walnuts)
+      y: groundY + 0.3, // MVP 18: Just above true ground level
       z: randomTree.z
     };
 
@@ -3750,7 +5042,7 @@ export default class ForestManager extends DurableObject {
     this.mapState.push(treeWalnut);
 
     // Broadcast drop event so clients can animate
-    const treeCanopyHeight = 8 + (randomTree.scale * 2); // Approximate canopy height based on tree scale
+    const treeCanopyHeight = groundY + 8 + (randomTree.scale * 2); // Approximate canopy height based on tree scale
     this.broadcastToAll({
       type: 'tree_walnut_drop',
       treePosition: {
@@ -3767,13 +5059,104 @@ export default class ForestManager extends DurableObject {
     await this.storage.put('mapState', this.mapState);
   }
 
+  /**
+   * MVP 9 + MVP 18: Randomize next tree drop interval (30-120s normally, 5-10s during Nut Rush)
+   */
+  private getNextTreeDropInterval(): number {
+    if (this.isNutRushActive()) {
+      return NUT_RUSH.DROP_INTERVAL_MIN + Math.random() * (NUT_RUSH.DROP_INTERVAL_MAX - NUT_RUSH.DROP_INTERVAL_MIN);
+    }
+    return 30000 + Math.random() * 90000;
+  }
+
+  /**
+   * MVP 18: Check if a Nut Rush is running
+   */
+  private isNutRushActive(now: number = Date.now()): boolean {
+    return now < this.nutRush.activeUntil;
+  }
+
+  /**
+   * MVP 18: Event info for clients (null when no event is running)
+   */
+  private getActiveEventInfo(): { eventType: 'nut_rush'; remainingMs: number; durationMs: number; pointsMultiplier: number } | null {
+    const now = Date.now();
+    if (!this.isNutRushActive(now)) {
+      return null;
+    }
+    return {
+      eventType: 'nut_rush',
+      remainingMs: this.nutRush.activeUntil - now,
+      durationMs: this.nutRush.durationMs,
+      pointsMultiplier: NUT_RUSH.POINTS_MULTIPLIER
+    };
+  }
+
+  /**
+   * MVP 18: Called from alarm - start a scheduled rush when due, end a rush when it expires
+   * NOTE: Alarm only runs while players are online, so an overdue rush starts when someone joins
+   */
+  private async updateNutRush(now: number): Promise<void> {
+    if (this.nutRush.activeUntil > 0 && now >= this.nutRush.activeUntil) {
+      await this.endNutRush('expired');
+    } else if (this.nutRush.activeUntil === 0 && this.nutRush.nextRushAt > 0 && now >= this.nutRush.nextRushAt) {
+      await this.startNutRush(NUT_RUSH_DURATION_MINUTES * 60 * 1000, 'schedule');
+    }
+  }
+
+  /**
+   * MVP 18: Start a Nut Rush (scheduled or admin-triggered)
+   * Every rush restarts the schedule so rushes stay NUT_RUSH_INTERVAL_HOURS apart
+   */
+  private async startNutRush(durationMs: number, startedBy: 'schedule' | 'admin'): Promise<void> {
+    const now = Date.now();
+    this.nutRush = {
+      activeUntil: now + durationMs,
+      durationMs,
+      nextRushAt: now + NUT_RUSH_INTERVAL_HOURS * 60 * 60 * 1000,
+      startedBy
+    };
+    await this.storage.put('nutRush', this.nutRush);
+
+    // Drop the first rush walnuts on the next alarm tick
+    this.nextTreeDropInterval = 0;
+
+    console.log(`🌰 NUT RUSH started in ${this.forestId} (${startedBy}, ${Math.round(durationMs / 60000)} min)`);
+    this.broadcastToAll({
+      type: 'event_started',
+      ...this.getActiveEventInfo()
+    });
+  }
+
+  /**
+   * MVP 18: End the current Nut Rush (expired or cancelled by admin)
+   */
+  private async endNutRush(reason: 'expired' | 'cancelled'): Promise<void> {
+    this.nutRush.activeUntil = 0;
+    this.nutRush.startedBy = null;
+    await this.storage.put('nutRush', this.nutRush);
+
+    // Back to normal drop cadence
+    this.lastTreeWalnutDrop = Date.now();
+    this.nextTreeDropInterval = this.getNextTreeDropInterval();
+
+    console.log(`🌰 NUT RUSH ended in ${this.forestId} (${reason})`);
+    this.broadcastToAll({
+      type: 'event_ended',
+      eventType: 'nut_rush',
+      reason,
+      nextEventInMs: Math.max(0, this.nutRush.nextRushAt - Date.now())
+    });
+  }
+
   /**
    * MVP 9: Drop multiple walnuts from a specific tree in rapid succession
    * Used when a tree grows from a hidden walnut
    */
   private async dropWalnutsFromTree(tree: ForestObject, count: number): Promise<void> {
     const DROP_INTERVAL_MS = 200; // 200ms between each drop for "rapid succession"
-    const treeCanopyHeight = 8 + (tree.scale * 2); // Approximate canopy height based on tree scale
+    const groundY = this.getTerrainHeight(tree.x, tree.z);
+    const treeCanopyHeight = groundY + 8 + (tree.scale * 2); // Approximate canopy height based on tree scale
 
     for (let i = 0; i < count; i++) {
       // Wait between drops for rapid succession effect (except first drop)
@@ -3784,7 +5167,7 @@ export default class ForestManager extends DurableObject {
       // Create walnut at ground level under tree
       const walnutPosition = {
         x: tree.x,
-        y: 0.3, // Ground level (same as other walnuts)
+        y: groundY + 0.3, // MVP 18: Just above true ground level
         z: tree.z
       };
 
@@ -3829,7 +5212,7 @@ export default class ForestManager extends DurableObject {
   private async checkTreeGrowth(): Promise<void> {
     try {
       // Query WalnutRegistry for walnuts ready to grow
-      const walnutRegistryId = this.env.WALNUTS.idFromName('global');
+      const walnutRegistryId = this.env.WALNUTS.idFromName(this.getWalnutRegistryName());
       const walnutRegistry = this.env.WALNUTS.get(walnutRegistryId);
 
       const response = await walnutRegistry.fetch(new Request('http://registry/check-growth', {
@@ -3883,7 +5266,7 @@ export default class ForestManager extends DurableObject {
       id: treeId,
       type: 'tree',
       x: treePosition.x,
-      y: 0, // Always 0 - client will resample terrain height via raycasting
+      y: this.getTerrainHeight(treePosition.x, treePosition.z), // MVP 18: True ground height (client also resamples)
       z: treePosition.z,
       scale: 0.8 + Math.random() * 0.4, // 0.8-1.2 scale (varied sizes)
       modelVariant: 1 // Tree_01.glb
@@ -3901,7 +5284,7 @@ export default class ForestManager extends DurableObject {
     }
 
     // Mark walnut as grown in registry
-    const walnutRegistryId = this.env.WALNUTS.idFromName('global');
+    const walnutRegistryId = this.env.WALNUTS.idFromName(this.getWalnutRegistryName());
     const walnutRegistry = this.env.WALNUTS.get(walnutRegistryId);
     await walnutRegistry.fetch(new Request('http://registry/mark-grown', {
       method: 'POST',
@@ -3915,9 +5298,7 @@ export default class ForestManager extends DurableObject {
     // Award points to owner (only if player is online)
     const ownerPlayer = this.activePlayers.get(walnut.ownerId);
     if (ownerPlayer) {
-      if (!ownerPlayer.isCarefree) {
-        ownerPlayer.score += this.treeGrowthConfig.pointsAwarded; // MVP 13: Configurable points
-      }
+      this.awardPoints(ownerPlayer, this.treeGrowthConfig.pointsAwarded); // MVP 13: Configurable points
 
       // MVP 14: Increment tree growing counter (check bonus AFTER tree_grown broadcast)
       ownerPlayer.treesGrownCount++;
@@ -4039,102 +5420,1015 @@ export default class ForestManager extends DurableObject {
     return true;
   }
 
-  // Validate and constrain position within world bounds
-  private validatePosition(position: { x: number; y: number; z: number }): { x: number; y: number; z: number } {
-    const WORLD_SIZE = 200; // 200x200 world bounds
-    const WORLD_HALF = WORLD_SIZE / 2;
-    const MIN_Y = 0;
-    const MAX_Y = 50;
-
-    const validatedPosition = {
-      x: Math.max(-WORLD_HALF, Math.min(WORLD_HALF, position.x)),
-      y: Math.max(MIN_Y, Math.min(MAX_Y, position.y)),
-      z: Math.max(-WORLD_HALF, Math.min(WORLD_HALF, position.z))
-    };
-
-    // Check if position was corrected
-    const wasCorrected = (
-      Math.abs(validatedPosition.x - position.x) > 0.01 ||
-      Math.abs(validatedPosition.y - position.y) > 0.01 ||
-      Math.abs(validatedPosition.z - position.z) > 0.01
-    );
-
-    if (wasCorrected) {
-      console.log(`Position corrected from (${position.x.toFixed(2)}, ${position.y.toFixed(2)}, ${position.z.toFixed(2)}) to (${validatedPosition.x.toFixed(2)}, ${validatedPosition.y.toFixed(2)}, ${validatedPosition.z.toFixed(2)})`);
+  /**
+   * MVP 18: Validate a walnut_found claim against server state
+   * Returns a rejection reason, or null if the find is legitimate
+   */
+  private validateWalnutFind(playerConnection: PlayerConnection, data: any, walnutIndex: number): string | null {
+    // Client can't claim finds on behalf of another player
+    if (data.finderId && data.finderId !== playerConnection.squirrelId) {
+      return 'finder_mismatch';
     }
 
-    return validatedPosition;
-  }
+    if (walnutIndex === -1) {
+      return 'not_found';
+    }
 
-  // Validate movement speed (anti-cheat)
-  private validateMovementSpeed(
-    oldPosition: { x: number; y: number; z: number },
-    newPosition: { x: number; y: number; z: number },
-    deltaTime: number
-  ): boolean {
-    const MAX_SPEED = 20; // Maximum allowed speed in units per second
+    const walnut = this.mapState[walnutIndex];
+    if (walnut.found) {
+      return 'already_found';
+    }
 
-    const distance = Math.sqrt(
-      Math.pow(newPosition.x - oldPosition.x, 2) +
-      Math.pow(newPosition.z - oldPosition.z, 2)
-    );
+    // One find per dig - FastDig is only faster if the server says it's running
+    const digDuration = Date.now() < playerConnection.powerUps.FastDig.activeUntil
+      ? POWERUP_CONFIG.FastDig.DIG_DURATION
+      : PICKUP_VALIDATION.DIG_DURATION;
+    if (Date.now() - playerConnection.lastFindAt < digDuration - PICKUP_VALIDATION.DIG_TIME_TOLERANCE) {
+      return 'still_digging';
+    }
 
-    const speed = distance / (deltaTime / 1000); // Convert deltaTime to seconds
+    // Dropped walnuts are briefly immune to the player who dropped them
+    if (walnut.immunePlayerId === playerConnection.squirrelId && walnut.immuneUntil && Date.now() < walnut.immuneUntil) {
+      return 'immune';
+    }
 
-    if (speed > MAX_SPEED) {
-      console.warn(`Suspicious movement speed detected: ${speed.toFixed(2)} units/sec (max: ${MAX_SPEED})`);
-      return false;
+    // Range check uses the server's last known position (horizontal only - buried walnuts sit below terrain)
+    const distance = this.getHorizontalDistance(playerConnection.position, walnut.location);
+    const maxDistance = (walnut.hiddenIn === 'buried'
+      ? PICKUP_VALIDATION.MAX_BURIED_DISTANCE
+      : PICKUP_VALIDATION.MAX_DEFAULT_DISTANCE) + PICKUP_VALIDATION.DISTANCE_TOLERANCE;
+    if (distance > maxDistance) {
+      return 'too_far';
     }
 
-    return true;
+    return null;
   }
 
   /**
-   * MVP 11: Add NPC-dropped walnuts to mapState and broadcast to all players
-   * Called when NPC dies and drops inventory
+   * MVP 18: Server-authoritative hide placement
+   * Returns a rejection reason, or null if the walnut may be hidden where getHideLocation puts it
    */
-  async addNPCDroppedWalnuts(walnuts: any[]): Promise<void> {
-    // Add to mapState
-    for (const walnut of walnuts) {
-      this.mapState.push(walnut);
+  private validateWalnutHide(playerConnection: PlayerConnection, data: ClientMessageOf<'walnut_hidden'>): string | null {
+    if (data.walnutType === 'bush' && !this.findShrubNear(data.position)) {
+      return 'no_bush';
     }
 
-    // Persist to storage
-    await this.storage.put('mapState', this.mapState);
+    // Range check uses the server's last known position (bush hides go in the shrub, a step away from the hider)
+    const location = this.getHideLocation(data);
+    const distance = this.getHorizontalDistance(playerConnection.position, location);
+    const maxDistance = (data.walnutType === 'bush'
+      ? HIDE_VALIDATION.MAX_BUSH_DISTANCE
+      : HIDE_VALIDATION.MAX_BURY_DISTANCE) + HIDE_VALIDATION.DISTANCE_TOLERANCE;
+    if (distance > maxDistance) {
+      return 'too_far';
+    }
 
-    // Broadcast to all players
-    for (const walnut of walnuts) {
-      this.activePlayers.forEach((player) => {
-        this.sendMessage(player.socket, {
-          type: 'walnut_dropped',
-          walnutId: walnut.id,
-          position: walnut.location
-        });
-      });
+    if (this.isInsideObstacle(location)) {
+      return 'obstructed';
     }
+
+    return null;
   }
 
   /**
-   * Server-side collision detection for player vs player/NPC collisions
-   * Applies damage to BOTH parties when they collide
+   * MVP 18: Where a hide actually goes - bush hides snap to the shrub center, everything sits on the terrain
    */
-  private checkCollisions(movingPlayer: PlayerConnection): void {
-    const now = Date.now();
-    const COLLISION_RADIUS = 1.5; // Match client-side collision radius
-    const COLLISION_DAMAGE = 10; // Match client-side damage
-    const COLLISION_DAMAGE_COOLDOWN = 2000; // 2 seconds between collision damage
+  private getHideLocation(data: ClientMessageOf<'walnut_hidden'>): { x: number; y: number; z: number } {
+    const shrub = data.walnutType === 'bush' ? this.findShrubNear(data.position) : null;
+    const x = shrub ? shrub.x : data.position.x;
+    const z = shrub ? shrub.z : data.position.z;
+    return { x, y: this.getTerrainHeight(x, z), z };
+  }
 
-    // Check cooldown for moving player
-    if (now - movingPlayer.lastCollisionDamageTime < COLLISION_DAMAGE_COOLDOWN) {
-      return; // Still on cooldown
+  /**
+   * MVP 18: Closest shrub within HIDE_VALIDATION.BUSH_RADIUS of a position
+   */
+  private findShrubNear(position: { x: number; z: number }): ForestObject | null {
+    let nearest: ForestObject | null = null;
+    let nearestDistance = HIDE_VALIDATION.BUSH_RADIUS;
+    for (const obj of this.forestObjects) {
+      if (obj.type !== 'shrub') continue;
+      const distance = this.getHorizontalDistance(position, obj);
+      if (distance <= nearestDistance) {
+        nearest = obj;
+        nearestDistance = distance;
+      }
     }
+    return nearest;
+  }
 
-    // Check invulnerability for moving player
-    if (movingPlayer.invulnerableUntil && now < movingPlayer.invulnerableUntil) {
-      return; // Moving player is invulnerable
-    }
+  /**
+   * MVP 18: Is a position inside a tree trunk, stump or rock (scaled like the client colliders)
+   */
+  private isInsideObstacle(position: { x: number; z: number }): boolean {
+    return this.forestObjects.some(obj => {
+      const radius = obj.type === 'tree' ? HIDE_VALIDATION.TREE_TRUNK_RADIUS
+        : obj.type === 'stump' ? HIDE_VALIDATION.STUMP_RADIUS
+        : obj.type === 'rock' ? HIDE_VALIDATION.ROCK_RADIUS
+        : 0;
+      return radius > 0 && this.getHorizontalDistance(position, obj) < radius * obj.scale;
+    });
+  }
 
-    const movingPos = movingPlayer.position;
+  /**
+   * MVP 18: Id for a player-hidden walnut (real hides and decoys share the format)
+   */
+  private generateHiddenWalnutId(): string {
+    return `hidden-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * MVP 18: Walnuts every player may see regardless of distance
+   * (their own hides, golden walnuts, and walnuts lying on the ground)
+   */
+  private isWalnutAlwaysVisibleTo(playerConnection: PlayerConnection, walnut: Walnut): boolean {
+    return walnut.ownerId === playerConnection.squirrelId || walnut.isGolden === true || walnut.hiddenIn === 'ground';
+  }
+
+  private getHorizontalDistance(a: { x: number; z: number }, b: { x: number; z: number }): number {
+    const dx = a.x - b.x;
+    const dz = a.z - b.z;
+    return Math.sqrt(dx * dx + dz * dz);
+  }
+
+  /**
+   * MVP 18: Send a newly hidden walnut to players within discovery range
+   * (everyone else finds out later via walnut_revealed)
+   */
+  private sendHiddenWalnutToNearbyPlayers(ownerId: string, walnut: Walnut): void {
+    for (const [otherId, otherPlayer] of this.activePlayers) {
+      if (otherId === ownerId || otherPlayer.isDisconnected) continue;
+      if (this.getHorizontalDistance(otherPlayer.position, walnut.location) > WALNUT_VISIBILITY.DISCOVERY_RADIUS) continue;
+
+      otherPlayer.revealedWalnuts.add(walnut.id);
+      this.sendMessage(otherPlayer.socket, {
+        type: 'walnut_hidden',
+        walnutId: walnut.id,
+        ownerId: walnut.ownerId,
+        walnutType: walnut.hiddenIn,
+        position: walnut.location,
+        points: walnut.hiddenIn === 'buried' ? 3 : 1
+      });
+    }
+  }
+
+  /**
+   * MVP 18: Send incremental walnut_revealed / walnut_concealed messages
+   * Called from the alarm loop - diffs each player's reveal set against their current position
+   */
+  private updateWalnutVisibility(): void {
+    const hiddenWalnuts = this.mapState.filter(w => !w.found && !w.isGolden && w.hiddenIn !== 'ground');
+    const hiddenWalnutIds = new Set(hiddenWalnuts.map(w => w.id));
+
+    for (const player of this.activePlayers.values()) {
+      if (player.isDisconnected) continue;
+
+      // Forget walnuts that were found or removed (clients already got walnut_found)
+      for (const walnutId of player.revealedWalnuts) {
+        if (!hiddenWalnutIds.has(walnutId)) {
+          player.revealedWalnuts.delete(walnutId);
+        }
+      }
+
+      for (const walnut of hiddenWalnuts) {
+        if (walnut.ownerId === player.squirrelId) continue;
+
+        const distance = this.getHorizontalDistance(player.position, walnut.location);
+        const isRevealed = player.revealedWalnuts.has(walnut.id);
+
+        if (!isRevealed && distance <= WALNUT_VISIBILITY.DISCOVERY_RADIUS) {
+          player.revealedWalnuts.add(walnut.id);
+          this.sendMessage(player.socket, {
+            type: 'walnut_revealed',
+            walnutId: walnut.id,
+            ownerId: walnut.ownerId,
+            walnutType: walnut.hiddenIn,
+            position: walnut.location,
+            points: walnut.hiddenIn === 'buried' ? 3 : 1
+          });
+        } else if (isRevealed && distance > WALNUT_VISIBILITY.CONCEAL_RADIUS) {
+          player.revealedWalnuts.delete(walnut.id);
+          this.sendMessage(player.socket, {
+            type: 'walnut_concealed',
+            walnutId: walnut.id
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * MVP 18: Send incremental interest_enter / interest_leave messages
+   * Called from the alarm loop - diffs each player's interest set against the rebuilt grid
+   * (same reveal/conceal hysteresis as walnut visibility)
+   */
+  private updateInterest(): void {
+    this.rebuildInterestGrid();
+
+    // Forget snapshot state of players/NPCs that are gone
+    for (const key of this.snapshotStates.keys()) {
+      if (!this.interestEntities.has(key)) {
+        this.snapshotStates.delete(key);
+      }
+    }
+    const queryRadius = Math.max(
+      INTEREST_MANAGEMENT.PLAYER_RADIUS,
+      INTEREST_MANAGEMENT.NPC_RADIUS,
+      INTEREST_MANAGEMENT.PREDATOR_RADIUS
+    );
+
+    for (const player of this.activePlayers.values()) {
+      if (player.isDisconnected) continue;
+
+      // Leave: moved out of range or gone (clients already got player_leave / npc_despawned)
+      for (const key of player.interestSet.keys()) {
+        const entity = this.interestEntities.get(key);
+        if (entity && this.getHorizontalDistance(player.position, entity.position) <= this.getInterestRadius(entity.kind) + INTEREST_MANAGEMENT.LEAVE_MARGIN) {
+          continue;
+        }
+        player.interestSet.delete(key);
+        const separator = key.indexOf(':');
+        this.sendMessage(player.socket, {
+          type: 'interest_leave',
+          kind: key.slice(0, separator),
+          id: key.slice(separator + 1)
+        });
+      }
+
+      // Enter: only cells near this player are visited
+      for (const entity of this.interestGrid.query(player.position, queryRadius)) {
+        if (entity.id === player.squirrelId || player.interestSet.has(entity.key)) continue;
+        if (this.getHorizontalDistance(player.position, entity.position) > this.getInterestRadius(entity.kind)) continue;
+
+        player.interestSet.set(entity.key, { lastSentAt: 0, ackedVersion: 0 }); // Full state in the next snapshot
+        this.sendMessage(player.socket, {
+          type: 'interest_enter',
+          kind: entity.kind,
+          id: entity.id,
+          position: entity.position,
+          rotationY: entity.rotationY
+        });
+      }
+    }
+  }
+
+  /**
+   * MVP 18: Snapshot every player, NPC and predator into the interest grid
+   */
+  private rebuildInterestGrid(): void {
+    this.interestGrid.clear();
+    this.interestEntities.clear();
+
+    const add = (kind: InterestEntity['kind'], id: string, position: { x: number; y: number; z: number }, rotationY: number) => {
+      const entity: InterestEntity = { key: `${kind}:${id}`, kind, id, position: { ...position }, rotationY };
+      this.interestEntities.set(entity.key, entity);
+      this.interestGrid.insert(entity.position, entity);
+    };
+
+    this.activePlayers.forEach((player, id) => add('player', id, player.position, player.rotationY));
+    this.npcManager.getAllNPCs().forEach(npc => add('npc', npc.id, npc.position, npc.rotationY));
+    this.predatorManager.getPredators().forEach(predator => add('predator', predator.id, predator.position, predator.rotationY));
+  }
+
+  /**
+   * MVP 18: Players whose interest set contains an entity
+   * Looks up the grid around the entity's swept position - interest sets were built from the same snapshot
+   */
+  private getInterestedPlayers(key: string): PlayerConnection[] {
+    const entity = this.interestEntities.get(key);
+    if (!entity) {
+      return [];
+    }
+
+    const interested: PlayerConnection[] = [];
+    const radius = this.getInterestRadius(entity.kind) + INTEREST_MANAGEMENT.LEAVE_MARGIN;
+    for (const nearby of this.interestGrid.query(entity.position, radius)) {
+      if (nearby.kind !== 'player') continue;
+      const player = this.activePlayers.get(nearby.id);
+      if (player && player.interestSet.has(key)) {
+        interested.push(player);
+      }
+    }
+    return interested;
+  }
+
+  private getInterestRadius(kind: InterestEntity['kind']): number {
+    switch (kind) {
+      case 'player': return INTEREST_MANAGEMENT.PLAYER_RADIUS;
+      case 'npc': return INTEREST_MANAGEMENT.NPC_RADIUS;
+      case 'predator': return INTEREST_MANAGEMENT.PREDATOR_RADIUS;
+    }
+  }
+
+  /**
+   * MVP 18: True terrain height for this forest (same shared function the client renders)
+   */
+  getTerrainHeight(x: number, z: number): number {
+    return getTerrainHeightAt(x, z, this.terrainSeed);
+  }
+
+  // Validate and constrain position within world bounds
+  private validatePosition(position: { x: number; y: number; z: number }): { x: number; y: number; z: number } {
+    const WORLD_SIZE = 200; // 200x200 world bounds
+    const WORLD_HALF = WORLD_SIZE / 2;
+    const MAX_Y = 50;
+    const GROUND_TOLERANCE = 1.0; // MVP 18: Allow small client/server interpolation differences
+
+    const x = Math.max(-WORLD_HALF, Math.min(WORLD_HALF, position.x));
+    const z = Math.max(-WORLD_HALF, Math.min(WORLD_HALF, position.z));
+    // MVP 18: Can't be below the true terrain at this spot
+    const minY = Math.max(0, this.getTerrainHeight(x, z) - GROUND_TOLERANCE);
+
+    const validatedPosition = {
+      x,
+      y: Math.max(minY, Math.min(MAX_Y, position.y)),
+      z
+    };
+
+    // Check if position was corrected
+    const wasCorrected = (
+      Math.abs(validatedPosition.x - position.x) > 0.01 ||
+      Math.abs(validatedPosition.y - position.y) > 0.01 ||
+      Math.abs(validatedPosition.z - position.z) > 0.01
+    );
+
+    if (wasCorrected) {
+      console.log(`Position corrected from (${position.x.toFixed(2)}, ${position.y.toFixed(2)}, ${position.z.toFixed(2)}) to (${validatedPosition.x.toFixed(2)}, ${validatedPosition.y.toFixed(2)}, ${validatedPosition.z.toFixed(2)})`);
+    }
+
+    return validatedPosition;
+  }
+
+  /**
+   * MVP 18: Fresh power-up state (full charges, no cooldowns)
+   */
+  private createPowerUpState(): Record<PowerUpType, PowerUpState> {
+    return {
+      ScentSniff: { charges: POWERUP_CONFIG.ScentSniff.CHARGES, cooldownUntil: 0, activeUntil: 0 },
+      FastDig: { charges: POWERUP_CONFIG.FastDig.CHARGES, cooldownUntil: 0, activeUntil: 0 },
+      DecoyNut: { charges: POWERUP_CONFIG.DecoyNut.CHARGES, cooldownUntil: 0, activeUntil: 0 }
+    };
+  }
+
+  private async loadPowerUps(sessionToken: string): Promise<Record<PowerUpType, PowerUpState>> {
+    try {
+      const saved = await this.storage.get(`powerups:${sessionToken}`) as Record<PowerUpType, PowerUpState> | undefined;
+      return saved ? { ...this.createPowerUpState(), ...saved } : this.createPowerUpState();
+    } catch (error) {
+      console.error(`❌ Failed to load power-ups for session ${sessionToken.substring(0, 8)}...:`, error);
+      return this.createPowerUpState();
+    }
+  }
+
+  /**
+   * MVP 18: Track finds this cycle - first player to FIRST_FINDER_FIND_COUNT wins the first-finder bonus
+   */
+  private async recordCycleFind(player: PlayerConnection): Promise<void> {
+    const count = (this.cycleStats.findCounts[player.squirrelId] || 0) + 1;
+    this.cycleStats.findCounts[player.squirrelId] = count;
+
+    if (!this.cycleStats.firstFinder && count >= FIRST_FINDER_FIND_COUNT) {
+      this.cycleStats.firstFinder = { squirrelId: player.squirrelId, username: player.username, reachedAt: Date.now() };
+      console.log(`🥇 ${player.username} is first to ${FIRST_FINDER_FIND_COUNT} finds in ${this.forestId}`);
+      this.sendMessage(player.socket, {
+        type: 'first_finder',
+        findCount: count,
+        bonusPoints: POINTS.FIRST_FINDER
+      });
+    }
+
+    await this.storage.put('cycleStats', this.cycleStats);
+  }
+
+  /**
+   * MVP 18: WalnutRegistry instance for this shard
+   * The default shard keeps the pre-sharding 'global' registry so walnuts hidden before the split still settle and grow
+   */
+  private getWalnutRegistryName(): string {
+    return this.forestId === FOREST_SHARDING.DEFAULT_FOREST_ID ? FOREST_SHARDING.DEFAULT_WALNUT_REGISTRY_NAME : this.forestId;
+  }
+
+  /**
+   * MVP 18: End-of-cycle settlement
+   * - Owners get POINTS.BONUS_UNFOUND per player walnut still hidden (from WalnutRegistry)
+   * - First player to FIRST_FINDER_FIND_COUNT finds gets POINTS.FIRST_FINDER
+   * Connected players are paid immediately; everyone else gets a settlement record for next join
+   */
+  private async settleCycle(): Promise<{ settledPlayers: number; pendingRecords: number; totalUnfound: number; firstFinder: string | null }> {
+    const walnutRegistryId = this.env.WALNUTS.idFromName(this.getWalnutRegistryName());
+    const walnutRegistry = this.env.WALNUTS.get(walnutRegistryId);
+    const response = await walnutRegistry.fetch(new Request('http://registry/settle', {
+      method: 'POST'
+    }));
+    if (!response.ok) {
+      throw new Error(`WalnutRegistry settle failed with status ${response.status}`);
+    }
+    const { unfoundByOwner, totalUnfound } = await response.json() as { unfoundByOwner: Record<string, number>; totalUnfound: number };
+
+    const firstFinder = this.cycleStats.firstFinder;
+    const squirrelIds = new Set(Object.keys(unfoundByOwner));
+    if (firstFinder) {
+      squirrelIds.add(firstFinder.squirrelId);
+    }
+
+    let pendingRecords = 0;
+    for (const squirrelId of squirrelIds) {
+      const unfoundWalnuts = unfoundByOwner[squirrelId] || 0;
+      const unfoundBonus = unfoundWalnuts * POINTS.BONUS_UNFOUND;
+      const firstFinderBonus = firstFinder?.squirrelId === squirrelId ? POINTS.FIRST_FINDER : 0;
+      const totalPoints = unfoundBonus + firstFinderBonus;
+
+      const player = this.activePlayers.get(squirrelId);
+      if (player && !player.isDisconnected) {
+        if (!player.isCarefree) {
+          player.score += totalPoints;
+          await this.reportScoreToLeaderboard(player);
+        }
+        this.sendMessage(player.socket, {
+          type: 'cycle_settlement',
+          unfoundWalnuts,
+          unfoundBonus,
+          firstFinderBonus,
+          totalPoints
+        });
+        this.sendMessage(player.socket, {
+          type: 'score_update',
+          score: player.score
+        });
+        continue;
+      }
+
+      // Offline - park it on the player's SquirrelSession (merges with earlier cycles and other shards)
+      // so it's paid out on whichever shard the lobby sends them to next
+      const squirrelSession = this.env.SQUIRREL.get(this.env.SQUIRREL.idFromName(squirrelId));
+      const settlementResponse = await squirrelSession.fetch(new Request('http://session/settlement', {
+        method: 'POST',
+        body: JSON.stringify({ squirrelId, unfoundWalnuts, unfoundBonus, firstFinderBonus })
+      }));
+      if (settlementResponse.ok) {
+        pendingRecords++;
+      } else {
+        console.error(`❌ Failed to store settlement for ${squirrelId}: ${settlementResponse.status}`);
+      }
+    }
+
+    // Fresh race next cycle
+    this.cycleStats = { findCounts: {}, firstFinder: null };
+    await this.storage.put('cycleStats', this.cycleStats);
+
+    console.log(`🧾 Cycle settled in ${this.forestId}: ${squirrelIds.size} players, ${totalUnfound} unfound walnuts, first finder: ${firstFinder?.username || 'none'}`);
+
+    return {
+      settledPlayers: squirrelIds.size,
+      pendingRecords,
+      totalUnfound,
+      firstFinder: firstFinder?.username || null
+    };
+  }
+
+  /**
+   * MVP 18: Credit a returning player's pending settlement and return it for world_state
+   */
+  private async claimSettlement(player: PlayerConnection): Promise<SettlementRecord | null> {
+    let record: SettlementRecord | null = null;
+    try {
+      const squirrelSession = this.env.SQUIRREL.get(this.env.SQUIRREL.idFromName(player.squirrelId));
+      const response = await squirrelSession.fetch(new Request('http://session/claim-settlement', {
+        method: 'POST',
+        body: JSON.stringify({ squirrelId: player.squirrelId })
+      }));
+      if (response.ok) {
+        record = (await response.json() as { settlement: SettlementRecord | null }).settlement;
+      }
+    } catch (error) {
+      console.error(`Failed to claim settlement for ${player.squirrelId}:`, error);
+    }
+
+    // Settlements parked on this shard before they moved to SquirrelSession
+    const shardRecord = await this.storage.get(`settlement:${player.squirrelId}`) as SettlementRecord | undefined;
+    if (shardRecord) {
+      await this.storage.delete(`settlement:${player.squirrelId}`);
+      record = record ? mergeSettlements(record, shardRecord) : shardRecord;
+    }
+
+    if (!record) {
+      return null;
+    }
+
+    if (!player.isCarefree && record.totalPoints > 0) {
+      player.score += record.totalPoints;
+      await this.reportScoreToLeaderboard(player);
+      this.sendMessage(player.socket, {
+        type: 'score_update',
+        score: player.score
+      });
+    }
+
+    return record;
+  }
+
+  /**
+   * MVP 18: Participation multiplier - +STEP per completed interval of active play, capped at MAX
+   */
+  private calculateParticipationMultiplier(participationSeconds: number): number {
+    const intervals = Math.floor(participationSeconds / PARTICIPATION_INTERVAL_SECONDS);
+    const multiplier = 1.0 + intervals * PARTICIPATION_MULTIPLIER_STEP;
+    return Math.min(PARTICIPATION_MAX_MULTIPLIER, Math.round(multiplier * 10) / 10);
+  }
+
+  /**
+   * MVP 18: Scale a point award by the player's participation multiplier
+   * Returns the scaled points (also for Carefree players, whose score doesn't change)
+   */
+  private awardPoints(player: PlayerConnection, basePoints: number): number {
+    const points = Math.round(basePoints * player.multiplier);
+    if (!player.isCarefree) {
+      player.score += points;
+    }
+    return points;
+  }
+
+  private async loadParticipation(sessionToken: string): Promise<number> {
+    try {
+      const saved = await this.storage.get(`participation:${sessionToken}`) as { participationSeconds: number } | undefined;
+      return saved?.participationSeconds || 0;
+    } catch (error) {
+      console.error(`❌ Failed to load participation for session ${sessionToken.substring(0, 8)}...:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * MVP 18: Write-behind flush - one batched put for every player whose state changed since their last write
+   */
+  private async flushPlayerStates(players: PlayerConnection[]): Promise<void> {
+    const now = Date.now();
+    const entries: Record<string, PersistedPlayerState> = {};
+    const signatures = new Map<PlayerConnection, string>();
+
+    for (const player of players) {
+      const state = this.getPersistedPlayerState(player);
+      const signature = JSON.stringify(state);
+      if (signature === player.persistedStateSignature) {
+        continue;
+      }
+      entries[`playerstate:${player.sessionToken}`] = { ...state, savedAt: now };
+      signatures.set(player, signature);
+    }
+
+    if (signatures.size === 0) {
+      return;
+    }
+
+    try {
+      await this.storage.put(entries);
+      signatures.forEach((signature, player) => {
+        player.persistedStateSignature = signature;
+      });
+    } catch (error) {
+      console.error(`❌ Failed to flush state for ${signatures.size} player(s):`, error); // Retried next flush
+    }
+  }
+
+  /**
+   * MVP 18: Restore write-behind state saved earlier this cycle (no-op for a first join)
+   */
+  private async restorePlayerState(player: PlayerConnection): Promise<void> {
+    try {
+      const saved = await this.storage.get(`playerstate:${player.sessionToken}`) as PersistedPlayerState | undefined;
+      if (!saved) {
+        return;
+      }
+
+      // Saved mid-death - come back at full health like a respawn
+      player.health = saved.health > 0 ? Math.min(saved.health, player.maxHealth) : player.maxHealth;
+      player.walnutInventory = saved.walnutInventory;
+      player.combatStats = { ...player.combatStats, ...saved.combatStats };
+      player.treesGrownCount = saved.treesGrownCount;
+      player.walnutStats = { ...player.walnutStats, ...saved.walnutStats };
+      player.bonusMilestones = new Set(saved.bonusMilestones);
+      player.persistedStateSignature = JSON.stringify(this.getPersistedPlayerState(player));
+      console.log(`♻️ Restored state for ${player.username}: health=${player.health}, walnuts=${player.walnutInventory}`);
+    } catch (error) {
+      console.error(`❌ Failed to load state for session ${player.sessionToken.substring(0, 8)}...:`, error);
+    }
+  }
+
+  private getPersistedPlayerState(player: PlayerConnection): Omit<PersistedPlayerState, 'savedAt'> {
+    return {
+      health: player.health,
+      walnutInventory: player.walnutInventory,
+      combatStats: player.combatStats,
+      treesGrownCount: player.treesGrownCount,
+      walnutStats: player.walnutStats,
+      bonusMilestones: Array.from(player.bonusMilestones)
+    };
+  }
+
+  /**
+   * MVP 18: Called from alarm - credit active time, notify players whose multiplier went up
+   */
+  private async updateParticipation(elapsedSeconds: number): Promise<void> {
+    if (elapsedSeconds <= 0) return;
+
+    const now = Date.now();
+    for (const player of this.activePlayers.values()) {
+      if (player.isDisconnected || now - player.lastInputAt > PARTICIPATION_IDLE_TIMEOUT_SECONDS * 1000) {
+        continue;
+      }
+
+      player.participationSeconds += elapsedSeconds;
+      await this.storage.put(`participation:${player.sessionToken}`, {
+        participationSeconds: player.participationSeconds
+      });
+
+      const multiplier = this.calculateParticipationMultiplier(player.participationSeconds);
+      if (multiplier !== player.multiplier) {
+        player.multiplier = multiplier;
+        this.sendMultiplierUpdate(player);
+        await this.reportScoreToLeaderboard(player);
+      }
+    }
+  }
+
+  /**
+   * MVP 18: Send participation multiplier and time until the next step (for HUD)
+   */
+  private sendMultiplierUpdate(player: PlayerConnection): void {
+    const atMax = player.multiplier >= PARTICIPATION_MAX_MULTIPLIER;
+    this.sendMessage(player.socket, {
+      type: 'multiplier_update',
+      multiplier: player.multiplier,
+      participationSeconds: Math.floor(player.participationSeconds),
+      nextStepInSeconds: atMax ? null : Math.ceil(PARTICIPATION_INTERVAL_SECONDS - (player.participationSeconds % PARTICIPATION_INTERVAL_SECONDS))
+    });
+  }
+
+  /**
+   * MVP 18: Send remaining charges and cooldowns (relative times - client clocks can't be trusted)
+   */
+  private sendPowerUpState(player: PlayerConnection): void {
+    const now = Date.now();
+    const powerUps: Record<string, { charges: number; cooldownRemaining: number; activeRemaining: number }> = {};
+    for (const type of DEFAULT_POWERUPS) {
+      const state = player.powerUps[type];
+      powerUps[type] = {
+        charges: state.charges,
+        cooldownRemaining: Math.max(0, state.cooldownUntil - now),
+        activeRemaining: Math.max(0, state.activeUntil - now)
+      };
+    }
+    this.sendMessage(player.socket, {
+      type: 'powerup_state',
+      powerUps
+    });
+  }
+
+  /**
+   * MVP 18: Validate and apply a use_powerup request
+   * - ScentSniff: returns nearby hidden walnut positions for the minimap
+   * - FastDig: shortens the dig between finds for DURATION (validateWalnutFind, client shortens dig animation)
+   * - DecoyNut: plants a fake buried walnut that costs the finder points
+   */
+  private async handleUsePowerUp(player: PlayerConnection, powerUpType: string): Promise<void> {
+    if (!DEFAULT_POWERUPS.includes(powerUpType as PowerUpType)) {
+      this.sendMessage(player.socket, { type: 'powerup_rejected', powerUpType, reason: 'unknown' });
+      return;
+    }
+
+    const type = powerUpType as PowerUpType;
+    const state = player.powerUps[type];
+    const now = Date.now();
+
+    if (state.charges <= 0) {
+      this.sendMessage(player.socket, { type: 'powerup_rejected', powerUpType: type, reason: 'no_charges' });
+      return;
+    }
+    if (now < state.cooldownUntil) {
+      this.sendMessage(player.socket, {
+        type: 'powerup_rejected',
+        powerUpType: type,
+        reason: 'cooldown',
+        cooldownRemaining: state.cooldownUntil - now
+      });
+      return;
+    }
+    if (player.health <= 0) {
+      this.sendMessage(player.socket, { type: 'powerup_rejected', powerUpType: type, reason: 'dead' });
+      return;
+    }
+
+    // Effect-specific part of the powerup_activated reply
+    let effect: Pick<ServerMessageOf<'powerup_activated'>, 'sniffedWalnuts' | 'decoy'> = {};
+
+    switch (type) {
+      case 'ScentSniff': {
+        // Decoys smell like any other hide - leaving them out would give them away
+        effect = {
+          sniffedWalnuts: this.mapState
+            .filter(w => !w.found && !w.isGolden && w.hiddenIn !== 'ground' && w.ownerId !== player.squirrelId)
+            .filter(w => this.getHorizontalDistance(player.position, w.location) <= POWERUP_CONFIG.ScentSniff.RADIUS)
+            .map(w => ({ walnutId: w.id, position: { x: w.location.x, z: w.location.z } }))
+        };
+        state.activeUntil = now + POWERUP_CONFIG.ScentSniff.DURATION;
+        break;
+      }
+
+      case 'FastDig':
+        state.activeUntil = now + POWERUP_CONFIG.FastDig.DURATION;
+        break;
+
+      case 'DecoyNut': {
+        // Same id format and shape as a real hide so other clients can't tell the difference
+        const decoy: Walnut = {
+          id: this.generateHiddenWalnutId(),
+          ownerId: player.squirrelId,
+          origin: 'player',
+          hiddenIn: 'buried',
+          location: { ...player.position },
+          found: false,
+          timestamp: now,
+          isDecoy: true
+        };
+        this.mapState.push(decoy);
+        await this.storage.put('mapState', this.mapState);
+        this.sendHiddenWalnutToNearbyPlayers(player.squirrelId, decoy);
+        effect = { decoy: { walnutId: decoy.id, position: decoy.location } };
+        break;
+      }
+    }
+
+    state.charges--;
+    state.cooldownUntil = now + POWERUP_CONFIG[type].COOLDOWN;
+    await this.storage.put(`powerups:${player.sessionToken}`, player.powerUps);
+
+    const activation: ServerMessageOf<'powerup_activated'> = {
+      type: 'powerup_activated',
+      powerUpType: type,
+      ...effect,
+      charges: state.charges,
+      cooldownRemaining: POWERUP_CONFIG[type].COOLDOWN,
+      activeRemaining: Math.max(0, state.activeUntil - now)
+    };
+    this.sendMessage(player.socket, activation);
+  }
+
+  /**
+   * MVP 18: A player dug up a DecoyNut - penalize the finder and tell the owner
+   */
+  private async handleDecoyFound(finder: PlayerConnection, decoy: Walnut): Promise<void> {
+    await this.storage.put('mapState', this.mapState);
+
+    const isOwnDecoy = decoy.ownerId === finder.squirrelId;
+    const penalty = isOwnDecoy || finder.isCarefree ? 0 : POWERUP_CONFIG.DecoyNut.FINDER_PENALTY;
+    finder.score = Math.max(0, finder.score - penalty);
+
+    // Everyone else sees an ordinary buried find (same points as walnut_found would award)
+    const buriedPoints = 3 * (this.isNutRushActive() ? NUT_RUSH.POINTS_MULTIPLIER : 1);
+    this.broadcastToOthers(finder.squirrelId, {
+      type: 'walnut_found',
+      walnutId: decoy.id,
+      finderId: finder.squirrelId,
+      points: Math.round(buriedPoints * finder.multiplier)
+    });
+
+    this.sendMessage(finder.socket, {
+      type: 'decoy_found',
+      walnutId: decoy.id,
+      penalty
+    });
+    this.sendMessage(finder.socket, {
+      type: 'score_update',
+      score: finder.score
+    });
+
+    const owner = this.activePlayers.get(decoy.ownerId);
+    if (owner && !isOwnDecoy && !owner.isDisconnected) {
+      this.sendMessage(owner.socket, {
+        type: 'decoy_triggered',
+        walnutId: decoy.id,
+        finderName: finder.username
+      });
+    }
+
+    if (penalty > 0) {
+      await this.reportScoreToLeaderboard(finder);
+    }
+  }
+
+  /**
+   * MVP 18: Send a player their "My Stash" journal - every walnut they hid this cycle and what became of it
+   * WalnutRegistry holds the cycle's history (it is cleared at settlement), including found and grown walnuts
+   */
+  private async sendStash(playerConnection: PlayerConnection): Promise<void> {
+    const walnutRegistryId = this.env.WALNUTS.idFromName(this.getWalnutRegistryName());
+    const walnutRegistry = this.env.WALNUTS.get(walnutRegistryId);
+    const response = await walnutRegistry.fetch(new Request(`http://registry/owner?ownerId=${encodeURIComponent(playerConnection.squirrelId)}`));
+    if (!response.ok) {
+      console.error('Failed to load stash:', await response.text());
+      return;
+    }
+
+    const data = await response.json() as {
+      walnuts: Array<Walnut & { hiddenIn: 'buried' | 'bush'; grownIntoTree?: boolean; foundByName?: string }>;
+    };
+    const walnuts = data.walnuts
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(walnut => {
+        const status = walnut.grownIntoTree ? 'grown' : walnut.found ? 'found' : 'hidden';
+        return {
+          walnutId: walnut.id,
+          hiddenIn: walnut.hiddenIn,
+          position: walnut.location,
+          hiddenAt: walnut.timestamp,
+          status,
+          foundByName: status === 'found' ? walnut.foundByName : undefined,
+          growsAt: status === 'hidden' ? walnut.timestamp + TREE_GROWTH.GROWTH_TIME : null
+        };
+      });
+
+    this.sendMessage(playerConnection.socket, {
+      type: 'stash_update',
+      walnuts,
+      serverTime: Date.now()
+    });
+  }
+
+  /**
+   * MVP 18: Tell a walnut's owner it was dug up (live if online) and add it to their raid log
+   */
+  private notifyWalnutRaided(finder: PlayerConnection, walnut: Walnut, points: number): void {
+    const owner = this.activePlayers.get(walnut.ownerId);
+    const raid = {
+      walnutId: walnut.id,
+      hiddenIn: walnut.hiddenIn,
+      finderName: finder.username,
+      points,
+      forestId: this.forestId,
+      timestamp: Date.now()
+    };
+
+    if (owner && !owner.isDisconnected) {
+      this.sendMessage(owner.socket, { type: 'walnut_raided', ...raid });
+    }
+
+    // Walnuts hidden before ownerName existed can still be logged while the owner is here
+    const ownerName = walnut.ownerName || owner?.username;
+    if (!ownerName || ownerName === 'Anonymous') return;
+
+    const playerIdentityId = this.env.PLAYER_IDENTITY.idFromName(ownerName);
+    const playerIdentity = this.env.PLAYER_IDENTITY.get(playerIdentityId);
+    // Fire and forget
+    playerIdentity.fetch(new Request('http://internal/api/identity?action=recordRaid', {
+      method: 'POST',
+      headers: { 'X-Admin-Secret': this.env.ADMIN_SECRET || '' },
+      body: JSON.stringify(raid)
+    })).catch(e => console.error('Failed to record raid', e));
+  }
+
+  /**
+   * MVP 18: Restart movement validation from the player's current server position
+   * Used on join/reconnect and after a correction snaps the client back
+   */
+  private resetMovementBaseline(player: PlayerConnection): void {
+    const now = Date.now();
+    player.lastMovementUpdate = now;
+    player.speedSampleStart = { position: { ...player.position }, time: now };
+
+    // MVP 18: Don't rewind hit checks across a jump (respawn, reconnect, correction)
+    player.positionHistory.clear();
+    player.positionHistory.record(now, player.position);
+  }
+
+  /**
+   * MVP 18: Validate a position update against the player's last accepted position (anti-cheat)
+   * Returns the violation type, or null if the movement is plausible
+   */
+  private validateMovement(player: PlayerConnection, newPosition: { x: number; y: number; z: number }): string | null {
+    const now = Date.now();
+    const distance = this.getHorizontalDistance(player.position, newPosition);
+
+    // Teleport: impossible jump regardless of elapsed time
+    if (distance > ANTI_CHEAT.MAX_TELEPORT_DISTANCE) {
+      return 'teleport';
+    }
+
+    // Burst: large single-update jump at an impossible short-term speed
+    const deltaSeconds = Math.max((now - player.lastMovementUpdate) / 1000, MOVEMENT_VALIDATION.BURST_SPEED_WINDOW);
+    if (distance > MOVEMENT_VALIDATION.MAX_SINGLE_UPDATE_DISTANCE &&
+        distance / deltaSeconds > MOVEMENT_VALIDATION.MAX_BURST_SPEED * ANTI_CHEAT.SPEED_TOLERANCE) {
+      return 'burst';
+    }
+
+    // Speed: sustained speed over a ~1s sample (individual 10Hz updates are too jittery to judge)
+    const sampleSeconds = (now - player.speedSampleStart.time) / 1000;
+    if (sampleSeconds >= MOVEMENT_VALIDATION.SPEED_SAMPLE_WINDOW) {
+      const sampleDistance = this.getHorizontalDistance(player.speedSampleStart.position, newPosition);
+      if (sampleDistance / sampleSeconds > ANTI_CHEAT.MAX_MOVE_SPEED * ANTI_CHEAT.SPEED_TOLERANCE) {
+        return 'speed';
+      }
+      player.speedSampleStart = { position: { ...newPosition }, time: now };
+    }
+
+    player.lastMovementUpdate = now;
+    return null;
+  }
+
+  /**
+   * MVP 18: Record a movement violation, snap the client back, and flag/kick repeat offenders
+   */
+  private async handleMovementViolation(player: PlayerConnection, reason: string): Promise<void> {
+    const now = Date.now();
+
+    // Keep only violations within the tracking window
+    player.movementViolations = player.movementViolations.filter(t => now - t < ANTI_CHEAT.VIOLATION_WINDOW);
+    player.movementViolations.push(now);
+    const violationCount = player.movementViolations.length;
+
+    console.warn(`🚫 Movement violation (${reason}) for ${player.username} [${player.squirrelId}] - ${violationCount} in window`);
+
+    // Snap client back to last accepted position
+    this.resetMovementBaseline(player);
+    this.sendMessage(player.socket, {
+      type: 'position_correction',
+      position: player.position,
+      rotationY: player.rotationY,
+      reason
+    });
+
+    if (violationCount <= ANTI_CHEAT.MAX_VIOLATIONS_BEFORE_FLAG) {
+      return;
+    }
+
+    const shouldKick = violationCount > ANTI_CHEAT.MAX_VIOLATIONS_BEFORE_KICK;
+    const existingFlag = this.movementFlags.get(player.squirrelId);
+    this.movementFlags.set(player.squirrelId, {
+      squirrelId: player.squirrelId,
+      username: player.username,
+      violationCount,
+      lastReason: reason,
+      flaggedAt: existingFlag?.flaggedAt ?? now,
+      lastViolationAt: now,
+      kicked: shouldKick || (existingFlag?.kicked ?? false)
+    });
+    await this.storage.put('movementFlags', Array.from(this.movementFlags.values()));
+
+    if (shouldKick) {
+      console.warn(`🚫 Kicking ${player.username} [${player.squirrelId}] for repeated movement violations`);
+      player.movementViolations = [];
+      player.socket.close(1008, "Repeated movement violations");
+    }
+  }
+
+  /**
+   * MVP 11: Add NPC-dropped walnuts to mapState and broadcast to all players
+   * Called when NPC dies and drops inventory
+   */
+  async addNPCDroppedWalnuts(walnuts: any[]): Promise<void> {
+    // Add to mapState
+    for (const walnut of walnuts) {
+      this.mapState.push(walnut);
+    }
+
+    // Persist to storage
+    await this.storage.put('mapState', this.mapState);
+
+    // Broadcast to all players
+    for (const walnut of walnuts) {
+      this.broadcastToAll({
+        type: 'walnut_dropped',
+        walnutId: walnut.id,
+        position: walnut.location
+      });
+    }
+  }
+
+  /**
+   * Server-side collision detection for player vs player/NPC collisions
+   * Applies damage to BOTH parties when they collide
+   */
+  private async checkCollisions(movingPlayer: PlayerConnection): Promise<void> {
+    const now = Date.now();
+    const COLLISION_RADIUS = 1.5; // Match client-side collision radius
+    const COLLISION_DAMAGE = 10; // Match client-side damage
+    const COLLISION_DAMAGE_COOLDOWN = 2000; // 2 seconds between collision damage
+
+    // Check cooldown for moving player
+    if (now - movingPlayer.lastCollisionDamageTime < COLLISION_DAMAGE_COOLDOWN) {
+      return; // Still on cooldown
+    }
+
+    // Check invulnerability for moving player
+    if (movingPlayer.invulnerableUntil && now < movingPlayer.invulnerableUntil) {
+      return; // Moving player is invulnerable
+    }
+
+    // MVP 18: Dead players can't collide (would trigger a second death)
+    if (movingPlayer.health <= 0) {
+      return;
+    }
+
+    const movingPos = movingPlayer.position;
 
     // Check collisions with other players
     for (const [otherId, otherPlayer] of this.activePlayers) {
@@ -4149,6 +6443,9 @@ export default class ForestManager extends DurableObject {
       if (otherPlayer.invulnerableUntil && now < otherPlayer.invulnerableUntil) {
         continue; // Other player is invulnerable
       }
+      if (otherPlayer.health <= 0) {
+        continue; // Other player is dead
+      }
 
       const otherPos = otherPlayer.position;
       const dx = movingPos.x - otherPos.x;
@@ -4156,10 +6453,10 @@ export default class ForestManager extends DurableObject {
       const distance = Math.sqrt(dx * dx + dz * dz);
 
       if (distance < COLLISION_RADIUS) {
-        // Collision detected! Apply damage to BOTH players
-        this.applyCollisionDamage(movingPlayer, otherPlayer);
+        // Collision detected! Apply damage to BOTH players (cooldowns first - a death awaits storage/fetches)
         movingPlayer.lastCollisionDamageTime = now;
         otherPlayer.lastCollisionDamageTime = now;
+        await this.applyCollisionDamage(movingPlayer, otherPlayer);
         return; // Only one collision per update
       }
     }
@@ -4180,9 +6477,9 @@ export default class ForestManager extends DurableObject {
 
         if (distance < COLLISION_RADIUS) {
           // Collision detected! Apply damage to BOTH player and NPC
-          this.applyCollisionDamageToNPC(movingPlayer, npc);
           movingPlayer.lastCollisionDamageTime = now;
           npc.lastCollisionDamageTime = now;
+          await this.applyCollisionDamageToNPC(movingPlayer, npc);
           return; // Only one collision per update
         }
       }
@@ -4192,16 +6489,16 @@ export default class ForestManager extends DurableObject {
   /**
    * Apply collision damage to both players
    */
-  private applyCollisionDamage(player1: PlayerConnection, player2: PlayerConnection): void {
+  private async applyCollisionDamage(player1: PlayerConnection, player2: PlayerConnection): Promise<void> {
     const COLLISION_DAMAGE = 10;
 
     // Damage player 1
     player1.health = Math.max(0, player1.health - COLLISION_DAMAGE);
-    player1.lastAttackerId = player2.squirrelId;
+    this.recordAttacker(player1, player2.squirrelId);
 
     // Damage player 2
     player2.health = Math.max(0, player2.health - COLLISION_DAMAGE);
-    player2.lastAttackerId = player1.squirrelId;
+    this.recordAttacker(player2, player1.squirrelId);
 
     // Broadcast damage to both players
     this.broadcastToAll({
@@ -4222,10 +6519,10 @@ export default class ForestManager extends DurableObject {
 
     // Check for deaths
     if (player1.health <= 0) {
-      this.handlePlayerDeath(player1, player2);
+      await this.handlePlayerDeath(player1);
     }
     if (player2.health <= 0) {
-      this.handlePlayerDeath(player2, player1);
+      await this.handlePlayerDeath(player2);
     }
   }
 
@@ -4237,7 +6534,7 @@ export default class ForestManager extends DurableObject {
 
     // Damage player
     player.health = Math.max(0, player.health - COLLISION_DAMAGE);
-    player.lastAttackerId = npc.id;
+    this.recordAttacker(player, npc.id);
 
     // Damage NPC (via NPCManager) - broadcasts damage automatically
     if (this.npcManager) {
@@ -4253,79 +6550,9 @@ export default class ForestManager extends DurableObject {
       newHealth: player.health
     });
 
-    // Check for player death (killed by NPC)
+    // Check for player death (killed by NPC - no knockout credit, assists still count)
     if (player.health <= 0) {
-      // Can't use handlePlayerDeath since killer is NPC, not PlayerConnection
-      // Handle death manually
-      player.score = Math.max(0, player.score - 2);
-      player.combatStats.deaths += 1;
-      await this.reportScoreToLeaderboard(player);
-
-      // Drop walnuts
-      const droppedWalnuts = player.walnutInventory;
-      if (droppedWalnuts > 0) {
-        try {
-          for (let i = 0; i < droppedWalnuts; i++) {
-            const walnutId = `death-drop-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-            const walnut: Walnut = {
-              id: walnutId,
-              ownerId: 'game',
-              origin: 'game',
-              hiddenIn: 'ground',
-              location: {
-                x: player.position.x + (Math.random() - 0.5) * 2,
-                y: player.position.y,
-                z: player.position.z + (Math.random() - 0.5) * 2
-              },
-              found: false,
-              timestamp: Date.now()
-            };
-
-            this.mapState.push(walnut);
-            this.activePlayers.forEach((p) => {
-              this.sendMessage(p.socket, {
-                type: 'walnut_dropped',
-                walnutId: walnut.id,
-                position: walnut.location
-              });
-            });
-          }
-          await this.storage.put('mapState', this.mapState);
-          player.walnutInventory = 0;
-        } catch (error) {
-          console.error(`❌ Failed to drop walnuts for ${player.username}:`, error);
-        }
-      }
-
-      // Broadcast death
-      this.broadcastToAll({
-        type: 'player_death',
-        victimId: player.squirrelId,
-        killerId: npc.id,
-        deathPosition: player.position
-      });
-
-      // Respawn after 3 seconds
-      setTimeout(async () => {
-        const spawnPoints = [
-          { x: 0, z: 10 }, { x: 10, z: 0 }, { x: -10, z: 0 }, { x: 0, z: -10 },
-          { x: 15, z: 15 }, { x: -15, z: 15 }, { x: 15, z: -15 }, { x: -15, z: -15 }
-        ];
-        const randomSpawn = spawnPoints[Math.floor(Math.random() * spawnPoints.length)];
-
-        player.position = { x: randomSpawn.x, y: 2, z: randomSpawn.z };
-        player.health = player.maxHealth;
-        player.lastAttackerId = null;
-        player.invulnerableUntil = Date.now() + 3000;
-
-        this.broadcastToAll({
-          type: 'player_respawn',
-          playerId: player.squirrelId,
-          position: player.position,
-          health: player.health,
-          walnutInventory: player.walnutInventory
-        });
-      }, 3000);
+      await this.handlePlayerDeath(player);
     }
   }
 }
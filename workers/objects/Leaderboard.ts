@@ -1,6 +1,8 @@
 // MVP 9: Enhanced Leaderboard with Reset, Archival, and Anti-Cheat
 // Industry-standard patterns from PlayFab, Google Play Games, etc.
 
+import { CATEGORY_LEADERBOARD } from '../constants';
+
 interface DurableObjectState {
   storage: DurableObjectStorage;
   id: DurableObjectId;
@@ -32,17 +34,52 @@ interface ScoreRecord {
   emailVerified?: boolean; // true if email verified
   characterId?: string; // Character used by player
   displayName?: string; // MVP 17: Visual name (decoupled from unique playerId)
+  multiplier?: number; // MVP 18: Participation multiplier when score was reported (1.0-2.0)
+
+  // MVP 18: Category stats (reported per forest cycle - each board keeps the best seen since its reset)
+  knockouts?: number;
+  deaths?: number;
+  treesGrown?: number;
+  kdKnockouts?: number; // K/D pair - knockouts and deaths from the same report (best ratio kept)
+  kdDeaths?: number;
+
+  // MVP 18: Daily board ranks today's gain - reports carry the cumulative score
+  dailyBaseline?: number; // Daily records: cumulative score before the player's first report of the day
+  lastReportedScore?: number; // All-time records: cumulative score from the latest report
+}
+
+/**
+ * MVP 18: Knockouts per death from a record's K/D pair (deaths floored at 1)
+ * Pairs under the knockout threshold don't count, so 1 knockout / 0 deaths can't lead the board
+ */
+function getKdRatio(knockouts: number, deaths: number): number {
+  if (knockouts < CATEGORY_LEADERBOARD.KD_MIN_KNOCKOUTS) return 0;
+  return knockouts / Math.max(1, deaths);
 }
 
+// MVP 18: Category boards - ?category= on /top and /player (default: score)
+const LEADERBOARD_CATEGORIES: Record<string, (record: ScoreRecord) => number> = {
+  score: record => record.score,
+  knockouts: record => record.knockouts || 0,
+  trees: record => record.treesGrown || 0,
+  found: record => record.walnuts?.found || 0,
+  hidden: record => record.walnuts?.hidden || 0,
+  kd: record => getKdRatio(record.kdKnockouts || 0, record.kdDeaths || 0)
+};
+
 interface LeaderboardMetadata {
   lastResetAt: number;
   resetCount: number;
   createdAt: number;
+  lastDailyResetAt?: number; // MVP 18: Daily board resets separately from the weekly one
 }
 
+// MVP 18: Archive/reset cadence ('daily' archives the daily board, the rest archive the weekly board)
+type ResetType = 'manual' | 'daily' | 'weekly' | 'monthly';
+
 interface LeaderboardArchive {
   timestamp: number;
-  resetType: 'manual' | 'weekly' | 'monthly';
+  resetType: ResetType;
   playerCount: number;
   topPlayers: Array<{
     playerId: string;
@@ -66,6 +103,7 @@ export default class Leaderboard {
   storage: DurableObjectStorage;
   env: Env;
   scores: Map<string, ScoreRecord> = new Map(); // Weekly scores (reset every Monday)
+  dailyScores: Map<string, ScoreRecord> = new Map(); // MVP 18: Daily scores (reset every day at 08:00 UTC)
   alltimeScores: Map<string, ScoreRecord> = new Map(); // All-time scores (never reset)
   metadata: LeaderboardMetadata | null = null;
   initialized = false;
@@ -88,6 +126,7 @@ export default class Leaderboard {
     if (!this.initialized) {
       await this.loadScores();
       await this.loadAllTimeScores(); // MVP 9: Load all-time scores
+      await this.loadDailyScores(); // MVP 18: Load daily scores
       await this.loadMetadata();
       this.initialized = true;
     }
@@ -101,31 +140,20 @@ export default class Leaderboard {
     if (path.endsWith("/top")) {
       const limit = parseInt(url.searchParams.get("limit") || "10");
       const type = url.searchParams.get("type") || "weekly"; // MVP 9: Support ?type=alltime or daily
+      const category = this.getCategory(url); // MVP 18: Support ?category=knockouts, trees, found, hidden, kd
 
-      // MVP 16: Implement authentication-based filtering
-      let topPlayers;
-      let totalPlayers;
-
-      if (type === "alltime") {
-        // Hall of Fame: Open to ALL players (Fun & Free)
-        topPlayers = this.getTopPlayers(limit, this.alltimeScores);
-        totalPlayers = this.alltimeScores.size;
-      } else if (type === "weekly") {
-        // Weekly leaderboard: Open to ALL players
-        topPlayers = this.getTopPlayers(limit, this.scores);
-        totalPlayers = this.scores.size;
-      } else {
-        // Daily leaderboard: All players (no filtering)
-        topPlayers = this.getTopPlayers(limit, this.scores);
-        totalPlayers = this.scores.size;
-      }
+      // All boards are open to ALL players (Fun & Free)
+      const scoresMap = this.getScoresMap(type);
+      const topPlayers = this.getTopPlayers(limit, scoresMap, { category });
+      const totalPlayers = scoresMap.size;
 
       return new Response(JSON.stringify({
         leaderboard: topPlayers,
         count: topPlayers.length,
         totalPlayers,
         type, // Include type in response
-        lastResetAt: this.metadata?.lastResetAt,
+        category,
+        lastResetAt: type === "daily" ? this.metadata?.lastDailyResetAt : this.metadata?.lastResetAt,
         resetCount: this.metadata?.resetCount
       }), {
         headers: { "Content-Type": "application/json" }
@@ -146,24 +174,28 @@ export default class Leaderboard {
       }
 
       const type = url.searchParams.get("type") || "weekly";
-      const scoresMap = type === "alltime" ? this.alltimeScores : this.scores;
+      const scoresMap = this.getScoresMap(type);
+      const category = this.getCategory(url); // MVP 18
       // const requireAuth = type === "alltime"; // Removed auth requirement
 
       const playerRecord = scoresMap.get(playerId);
-      const rank = this.getPlayerRank(playerId, scoresMap); // Open to all
+      const rank = this.getPlayerRank(playerId, scoresMap, { category }); // Open to all
 
       // MVP 16: Include authentication info in player rank response
       return new Response(JSON.stringify({
         playerId,
         score: playerRecord?.score || 0,
         walnuts: playerRecord?.walnuts || { hidden: 0, found: 0 },
+        category,
+        value: playerRecord ? LEADERBOARD_CATEGORIES[category](playerRecord) : 0, // MVP 18: Stat the rank is for
         rank: rank,
-        totalPlayers: this.scores.size,
+        totalPlayers: scoresMap.size,
         // Authentication fields
         isAuthenticated: playerRecord?.isAuthenticated || false,
         emailVerified: playerRecord?.emailVerified || false,
         characterId: playerRecord?.characterId || 'squirrel',
-        displayName: playerRecord?.displayName || playerId
+        displayName: playerRecord?.displayName || playerId,
+        multiplier: playerRecord?.multiplier || 1.0 // MVP 18
       }), {
         headers: { "Content-Type": "application/json" }
       });
@@ -174,6 +206,11 @@ export default class Leaderboard {
       return this.handleManualReset(request);
     }
 
+    // MVP 18: Daily reset (called by the daily cron)
+    if (path.endsWith("/daily-reset") && request.method === "POST") {
+      return this.handleDailyReset(request);
+    }
+
     // MVP 9: Get reset history/archives
     if (path.endsWith("/archives") && request.method === "GET") {
       return this.handleGetArchives(request);
@@ -217,6 +254,10 @@ export default class Leaderboard {
         });
       }
 
+      // MVP 18: Baselines are tracked here, never taken from a report
+      delete record.dailyBaseline;
+      delete record.lastReportedScore;
+
       const existingRecord = this.scores.get(record.playerId);
       const now = Date.now();
 
@@ -247,29 +288,61 @@ export default class Leaderboard {
       if (record.isAuthenticated === undefined) record.isAuthenticated = false;
       if (record.emailVerified === undefined) record.emailVerified = false;
       if (!record.characterId) record.characterId = 'squirrel'; // Default character
+      if (typeof record.multiplier !== 'number') record.multiplier = 1.0; // MVP 18
 
       // MVP 9: Update both weekly and all-time leaderboards
       // Update weekly leaderboard
       if (!existingRecord || record.score > existingRecord.score) {
-        this.scores.set(record.playerId, record);
-        await this.storage.put(record.playerId, record);
+        const weeklyRecord = { ...record };
+        this.keepBestCategoryStats(weeklyRecord, existingRecord, record);
+        this.scores.set(record.playerId, weeklyRecord);
+        await this.storage.put(record.playerId, weeklyRecord);
       } else {
         // Existing score is better, but update metadata
         existingRecord.isAuthenticated = record.isAuthenticated;
         existingRecord.emailVerified = record.emailVerified;
         existingRecord.characterId = record.characterId;
         existingRecord.displayName = record.displayName; // Update display name
+        existingRecord.multiplier = record.multiplier; // MVP 18
         existingRecord.updatedAt = now;
+        this.keepBestCategoryStats(existingRecord, existingRecord, record);
 
         this.scores.set(record.playerId, existingRecord);
         await this.storage.put(record.playerId, existingRecord);
       }
-      // All-time leaderboard (never resets)
+      // MVP 18: Daily leaderboard (resets every day) - best gain over the day's baseline, not the cumulative score
+      const existingDailyRecord = this.dailyScores.get(record.playerId);
       const existingAllTimeRecord = this.alltimeScores.get(record.playerId);
+      const dailyBaseline = existingDailyRecord?.dailyBaseline
+        ?? existingAllTimeRecord?.lastReportedScore
+        ?? (existingAllTimeRecord ? record.score : 0); // Records from before baselines start counting now
+      const dailyGain = Math.max(0, record.score - dailyBaseline);
+      if (!existingDailyRecord || dailyGain > existingDailyRecord.score) {
+        const dailyRecord = { ...record, score: dailyGain, dailyBaseline };
+        this.keepBestCategoryStats(dailyRecord, existingDailyRecord, record);
+        this.dailyScores.set(record.playerId, dailyRecord);
+        await this.storage.put(`daily_${record.playerId}`, dailyRecord);
+      } else {
+        existingDailyRecord.isAuthenticated = record.isAuthenticated;
+        existingDailyRecord.emailVerified = record.emailVerified;
+        existingDailyRecord.characterId = record.characterId;
+        existingDailyRecord.displayName = record.displayName;
+        existingDailyRecord.multiplier = record.multiplier;
+        existingDailyRecord.updatedAt = now;
+        existingDailyRecord.dailyBaseline = dailyBaseline;
+        this.keepBestCategoryStats(existingDailyRecord, existingDailyRecord, record);
+
+        this.dailyScores.set(record.playerId, existingDailyRecord);
+        await this.storage.put(`daily_${record.playerId}`, existingDailyRecord);
+      }
+
+      // All-time leaderboard (never resets)
       if (!existingAllTimeRecord || record.score > existingAllTimeRecord.score) {
         // New high score or no existing record - update everything
-        this.alltimeScores.set(record.playerId, record);
-        await this.storage.put(`alltime_${record.playerId}`, record);
+        const alltimeRecord = { ...record, lastReportedScore: record.score };
+        this.keepBestCategoryStats(alltimeRecord, existingAllTimeRecord, record);
+        this.alltimeScores.set(record.playerId, alltimeRecord);
+        await this.storage.put(`alltime_${record.playerId}`, alltimeRecord);
       } else {
         // Existing high score is better, but we MUST update metadata (auth, verified, character)
         // otherwise verified users might be hidden if their high score was set before verification
@@ -277,7 +350,10 @@ export default class Leaderboard {
         existingAllTimeRecord.emailVerified = record.emailVerified;
         existingAllTimeRecord.characterId = record.characterId;
         existingAllTimeRecord.displayName = record.displayName; // Update display name
+        existingAllTimeRecord.multiplier = record.multiplier; // MVP 18
         existingAllTimeRecord.updatedAt = now; // Update timestamp to show activity
+        existingAllTimeRecord.lastReportedScore = record.score; // MVP 18: Next day's daily baseline
+        this.keepBestCategoryStats(existingAllTimeRecord, existingAllTimeRecord, record);
 
         // We don't change the score, but we save the updated metadata
         this.alltimeScores.set(record.playerId, existingAllTimeRecord);
@@ -329,11 +405,11 @@ export default class Leaderboard {
       // MVP 9: Reset weekly leaderboard only (preserve all-time and metadata)
       this.scores.clear();
 
-      // Delete only weekly scores (not alltime_ prefixed or _metadata)
+      // Delete only weekly scores (not alltime_/daily_ prefixed or _metadata)
       const keysToDelete: string[] = [];
       const allKeys = await this.storage.list();
       for (const key of allKeys.keys()) {
-        if (!key.startsWith('alltime_') && !key.startsWith('_')) {
+        if (!key.startsWith('alltime_') && !key.startsWith('daily_') && !key.startsWith('_')) {
           keysToDelete.push(key);
         }
       }
@@ -343,7 +419,8 @@ export default class Leaderboard {
       const newMetadata: LeaderboardMetadata = {
         lastResetAt: Date.now(),
         resetCount: (this.metadata?.resetCount || 0) + 1,
-        createdAt: this.metadata?.createdAt || Date.now()
+        createdAt: this.metadata?.createdAt || Date.now(),
+        lastDailyResetAt: this.metadata?.lastDailyResetAt
       };
       this.metadata = newMetadata;
       await this.storage.put('_metadata', newMetadata);
@@ -373,7 +450,7 @@ export default class Leaderboard {
    * MVP 9: Archive current leaderboard to KV storage
    * INDUSTRY STANDARD: Keep historical data for analysis and rewards
    */
-  private async archiveCurrentLeaderboard(resetType: 'manual' | 'weekly' | 'monthly', adminNote?: string): Promise<string> {
+  private async archiveCurrentLeaderboard(resetType: ResetType, adminNote?: string): Promise<string> {
     if (!this.env.LEADERBOARD_ARCHIVES) {
       console.warn(`⚠️ KV namespace not configured, skipping archive`);
       return 'no-archive';
@@ -383,11 +460,12 @@ export default class Leaderboard {
     const isoDate = new Date(timestamp).toISOString().split('T')[0]; // YYYY-MM-DD
     const archiveKey = `${resetType}-${isoDate}-${timestamp}`;
 
+    const scoresMap = resetType === 'daily' ? this.dailyScores : this.scores;
     const archive: LeaderboardArchive = {
       timestamp,
       resetType,
-      playerCount: this.scores.size,
-      topPlayers: this.getTopPlayers(100), // Archive top 100
+      playerCount: scoresMap.size,
+      topPlayers: this.getTopPlayers(100, scoresMap), // Archive top 100
       adminNote
     };
 
@@ -399,7 +477,7 @@ export default class Leaderboard {
     console.log(`📦 Archived leaderboard: ${archiveKey} (${archive.playerCount} players)`);
 
     // Clean up old archives (keep last N)
-    await this.cleanupOldArchives();
+    await this.cleanupOldArchives(resetType);
 
     return archiveKey;
   }
@@ -516,12 +594,13 @@ export default class Leaderboard {
 
   /**
    * MVP 9: Clean up old archives (keep last N)
+   * MVP 18: Per reset type, so daily archives don't push out the weekly ones
    */
-  private async cleanupOldArchives(): Promise<void> {
+  private async cleanupOldArchives(resetType: ResetType): Promise<void> {
     if (!this.env.LEADERBOARD_ARCHIVES) return;
 
     const limit = parseInt(this.env.LEADERBOARD_ARCHIVE_LIMIT || "12");
-    const list = await this.env.LEADERBOARD_ARCHIVES.list();
+    const list = await this.env.LEADERBOARD_ARCHIVES.list({ prefix: `${resetType}-` });
 
     if (list.keys.length > limit) {
       // Sort by name (which includes timestamp)
@@ -555,11 +634,11 @@ export default class Leaderboard {
       // MVP 9: Reset weekly leaderboard only (preserve all-time and metadata)
       this.scores.clear();
 
-      // Delete only weekly scores (not alltime_ prefixed or _metadata)
+      // Delete only weekly scores (not alltime_/daily_ prefixed or _metadata)
       const keysToDelete: string[] = [];
       const allKeys = await this.storage.list();
       for (const key of allKeys.keys()) {
-        if (!key.startsWith('alltime_') && !key.startsWith('_')) {
+        if (!key.startsWith('alltime_') && !key.startsWith('daily_') && !key.startsWith('_')) {
           keysToDelete.push(key);
         }
       }
@@ -569,7 +648,8 @@ export default class Leaderboard {
       const newMetadata: LeaderboardMetadata = {
         lastResetAt: Date.now(),
         resetCount: (this.metadata?.resetCount || 0) + 1,
-        createdAt: this.metadata?.createdAt || Date.now()
+        createdAt: this.metadata?.createdAt || Date.now(),
+        lastDailyResetAt: this.metadata?.lastDailyResetAt
       };
       this.metadata = newMetadata;
       await this.storage.put('_metadata', newMetadata);
@@ -580,6 +660,114 @@ export default class Leaderboard {
     }
   }
 
+  /**
+   * MVP 18: Daily reset handler (called by the daily 08:00 UTC cron)
+   * Archives the daily board as resetType 'daily', then clears it (weekly and all-time untouched)
+   */
+  private async handleDailyReset(request: Request): Promise<Response> {
+    // SECURITY: Require admin authentication
+    const adminSecret = request.headers.get("X-Admin-Secret");
+
+    if (!adminSecret || adminSecret !== this.env.ADMIN_SECRET) {
+      console.warn(`⚠️ Unauthorized daily reset attempt`);
+      return new Response(JSON.stringify({
+        error: "Unauthorized - invalid admin secret"
+      }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    if (this.env.LEADERBOARD_RESET_ENABLED !== "true") {
+      console.log(`ℹ️ Daily reset disabled (LEADERBOARD_RESET_ENABLED=false)`);
+      return new Response(JSON.stringify({
+        success: false,
+        message: "Scheduled resets disabled"
+      }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    try {
+      const archiveKey = await this.archiveCurrentLeaderboard('daily');
+
+      this.dailyScores.clear();
+      const dailyKeys = await this.storage.list({ prefix: 'daily_' });
+      await Promise.all(Array.from(dailyKeys.keys()).map(key => this.storage.delete(key)));
+
+      const newMetadata: LeaderboardMetadata = {
+        lastResetAt: this.metadata?.lastResetAt || 0,
+        resetCount: this.metadata?.resetCount || 0,
+        createdAt: this.metadata?.createdAt || Date.now(),
+        lastDailyResetAt: Date.now()
+      };
+      this.metadata = newMetadata;
+      await this.storage.put('_metadata', newMetadata);
+
+      console.log(`✅ Daily leaderboard reset (archived as: ${archiveKey})`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: "Daily leaderboard reset and archived",
+        archiveKey
+      }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      console.error(`❌ Daily reset error:`, error);
+      return new Response(JSON.stringify({
+        error: "Failed to reset daily leaderboard"
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+
+  /**
+   * MVP 18: Scores map for a ?type= query (unknown types fall back to weekly)
+   */
+  private getScoresMap(type: string): Map<string, ScoreRecord> {
+    if (type === "alltime") return this.alltimeScores;
+    if (type === "daily") return this.dailyScores;
+    return this.scores;
+  }
+
+  /**
+   * MVP 18: Category for a ?category= query (unknown categories fall back to score)
+   */
+  private getCategory(url: URL): string {
+    const category = url.searchParams.get("category") || "score";
+    return Object.prototype.hasOwnProperty.call(LEADERBOARD_CATEGORIES, category) ? category : "score";
+  }
+
+  /**
+   * MVP 18: Keep the best category stats on a board record
+   * Counters restart every forest cycle, so a lower report must not wipe out an earlier best
+   * K/D keeps the knockouts and deaths of one report together (maxing them separately would pair unrelated cycles)
+   */
+  private keepBestCategoryStats(target: ScoreRecord, previous: ScoreRecord | undefined, reported: ScoreRecord): void {
+    const reportedKnockouts = reported.knockouts || 0;
+    const reportedDeaths = reported.deaths || 0;
+    const previousKnockouts = previous?.kdKnockouts || 0;
+    const previousDeaths = previous?.kdDeaths || 0;
+
+    target.walnuts = {
+      hidden: Math.max(previous?.walnuts?.hidden || 0, reported.walnuts?.hidden || 0),
+      found: Math.max(previous?.walnuts?.found || 0, reported.walnuts?.found || 0)
+    };
+    target.knockouts = Math.max(previous?.knockouts || 0, reportedKnockouts);
+    target.treesGrown = Math.max(previous?.treesGrown || 0, reported.treesGrown || 0);
+
+    if (getKdRatio(reportedKnockouts, reportedDeaths) > getKdRatio(previousKnockouts, previousDeaths)) {
+      target.kdKnockouts = reportedKnockouts;
+      target.kdDeaths = reportedDeaths;
+    } else {
+      target.kdKnockouts = previousKnockouts;
+      target.kdDeaths = previousDeaths;
+    }
+  }
+
   // Get top players by score (MVP 9: Support both weekly and all-time)
   /**
    * MVP 16: Enhanced getTopPlayers with authentication filtering
@@ -588,11 +776,12 @@ export default class Leaderboard {
    * @param options - Filtering options
    *   - requireAuth: Only include authenticated players
    *   - authOnlyForTopN: First N positions restricted to authenticated players
+   *   - category: MVP 18 - rank by a category stat instead of score (players at 0 are left off)
    */
   private getTopPlayers(
     limit: number = 10,
     scoresMap: Map<string, ScoreRecord> = this.scores,
-    options?: { requireAuth?: boolean; authOnlyForTopN?: number }
+    options?: { requireAuth?: boolean; authOnlyForTopN?: number; category?: string }
   ): Array<{
     playerId: string;
     score: number;
@@ -602,16 +791,24 @@ export default class Leaderboard {
     emailVerified?: boolean;
     characterId?: string;
     displayName?: string;
+    multiplier?: number;
+    value: number;
   }> {
     let players = Array.from(scoresMap.values());
+    const getValue = LEADERBOARD_CATEGORIES[options?.category || "score"];
 
     // Apply authentication filter if required
     if (options?.requireAuth) {
       players = players.filter(p => p.isAuthenticated);
     }
 
-    // Sort by score
-    players.sort((a, b) => b.score - a.score);
+    // MVP 18: Category boards only list players who have done the thing
+    if (options?.category && options.category !== "score") {
+      players = players.filter(p => getValue(p) > 0);
+    }
+
+    // Sort by score (or category stat)
+    players.sort((a, b) => getValue(b) - getValue(a));
 
     // Apply top N authenticated filter if specified
     if (options?.authOnlyForTopN) {
@@ -637,7 +834,9 @@ export default class Leaderboard {
       isAuthenticated: record.isAuthenticated,
       emailVerified: record.emailVerified,
       characterId: record.characterId,
-      displayName: record.displayName || record.playerId
+      displayName: record.displayName || record.playerId,
+      multiplier: record.multiplier || 1.0, // MVP 18
+      value: getValue(record) // MVP 18: Stat this board is ranked by
     }));
 
     return sortedPlayers;
@@ -647,16 +846,22 @@ export default class Leaderboard {
   private getPlayerRank(
     playerId: string,
     scoresMap: Map<string, ScoreRecord> = this.scores,
-    options?: { requireAuth?: boolean }
+    options?: { requireAuth?: boolean; category?: string }
   ): number {
     let players = Array.from(scoresMap.values());
+    const getValue = LEADERBOARD_CATEGORIES[options?.category || "score"];
 
     // Apply authentication filter if required
     if (options?.requireAuth) {
       players = players.filter(p => p.isAuthenticated);
     }
 
-    const sortedScores = players.sort((a, b) => b.score - a.score);
+    // MVP 18: Same filter as getTopPlayers - no rank on a category board without the stat
+    if (options?.category && options.category !== "score") {
+      players = players.filter(p => getValue(p) > 0);
+    }
+
+    const sortedScores = players.sort((a, b) => getValue(b) - getValue(a));
 
     const rank = sortedScores.findIndex(record => record.playerId === playerId);
     return rank >= 0 ? rank + 1 : -1;
@@ -666,9 +871,9 @@ export default class Leaderboard {
   private async loadScores(): Promise<void> {
     try {
       const scoresMap = await this.storage.list<ScoreRecord>({ prefix: '' });
-      // Filter out metadata and alltime scores
+      // Filter out metadata, alltime and daily scores
       for (const [key, value] of scoresMap) {
-        if (!key.startsWith('_') && !key.startsWith('alltime_')) {
+        if (!key.startsWith('_') && !key.startsWith('alltime_') && !key.startsWith('daily_')) {
           this.scores.set(key, value);
         }
       }
@@ -691,6 +896,20 @@ export default class Leaderboard {
     }
   }
 
+  // MVP 18: Load daily scores from storage
+  private async loadDailyScores(): Promise<void> {
+    try {
+      const dailyScoresMap = await this.storage.list<ScoreRecord>({ prefix: 'daily_' });
+      for (const [key, value] of dailyScoresMap) {
+        // Remove the 'daily_' prefix when storing in map
+        const playerId = key.replace('daily_', '');
+        this.dailyScores.set(playerId, value);
+      }
+    } catch (error) {
+      console.error('Error loading daily scores from storage:', error);
+    }
+  }
+
   // Load metadata from storage
   private async loadMetadata(): Promise<void> {
     try {
@@ -74,6 +74,7 @@ interface Walnut {
   origin: 'game' | 'player';
   immunePlayerId?: string; // MVP 8: Player who can't pick up this walnut (hit by projectile)
   immuneUntil?: number; // MVP 8: Timestamp when immunity expires (1.5 seconds after hit)
+  isDecoy?: boolean; // MVP 18: DecoyNut power-up (NPCs ignore decoys)
 }
 
 export class NPCManager {
@@ -199,9 +200,10 @@ export class NPCManager {
     const distance = 20 + Math.random() * 40; // 20-60 units from center
     const position: Vector3 = {
       x: Math.cos(angle) * distance,
-      y: 2,
+      y: 0,
       z: Math.sin(angle) * distance
     };
+    position.y = this.forestManager.getTerrainHeight(position.x, position.z); // MVP 18: True ground height
 
     // Random aggression level
     // MVP 8: Increased aggression for very active combat
@@ -307,11 +309,9 @@ export class NPCManager {
 
     // MVP 7.1: Batch broadcast all NPC updates in single message
     // Reduces broadcasts from N messages to 1 message (~90% reduction)
+    // MVP 18: Sent with the next snapshot tick to players whose area of interest holds each NPC
     if (npcUpdates.length > 0) {
-      this.forestManager.broadcastToAll({
-        type: 'npc_updates_batch',
-        npcs: npcUpdates
-      });
+      this.forestManager.recordNPCStates(npcUpdates);
     }
 
     // Check if we need to despawn NPCs (player count check)
@@ -362,6 +362,7 @@ export class NPCManager {
 
     for (const walnut of this.forestManager.mapState) {
       if (walnut.found) continue; // Skip already found walnuts
+      if (walnut.isDecoy) continue; // MVP 18: Decoys are traps for players, not NPCs
 
       // MVP 8: Check if THIS NPC is immune to this specific walnut (was hit by it)
       if (walnut.immunePlayerId === npc.id && walnut.immuneUntil) {
@@ -900,8 +901,8 @@ export class NPCManager {
     // Clamp to world bounds
     npc.position = this.clampToWorldBounds(npc.position);
 
-    // Set Y position (ground level for now, terrain matching in future)
-    npc.position.y = 2;
+    // MVP 18: Follow true terrain height (shared with client)
+    npc.position.y = this.forestManager.getTerrainHeight(npc.position.x, npc.position.z);
   }
 
   /**
@@ -982,6 +983,13 @@ export class NPCManager {
       targetId: 'squirrelId' in target ? target.squirrelId : target.id,
       timestamp: Date.now()
     });
+
+    // MVP 18: Server decides the hit/landing spot (same throw/aim heights as client handleNPCThrow)
+    this.forestManager.launchProjectile(
+      npc.id,
+      { x: npc.position.x, y: npc.position.y + 1.5, z: npc.position.z },
+      { x: predictedPosition.x, y: predictedPosition.y + 1.0, z: predictedPosition.z }
+    );
   }
 
   /**
@@ -1024,18 +1032,17 @@ export class NPCManager {
   }
 
   /**
-   * Broadcast NPC update to all players
+   * Queue NPC update for the next snapshot (MVP 18: only players interested in this NPC receive it)
    */
   private broadcastNPCUpdate(npc: NPC): void {
-    this.forestManager.broadcastToAll({
-      type: 'npc_update',
+    this.forestManager.recordNPCStates([{
       npcId: npc.id,
       position: npc.position,
       rotationY: npc.rotationY,
       velocity: npc.velocity,
       animation: npc.animation,
       behavior: npc.currentBehavior
-    });
+    }]);
   }
 
   /**
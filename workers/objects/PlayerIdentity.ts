@@ -4,6 +4,7 @@ import { TokenGenerator } from '../utils/TokenGenerator';
 import { EmailService } from '../services/EmailService';
 import { generateTokenPair, generateTokenId, verifyRefreshToken } from '../services/AuthService';
 import type { EnvWithBindings } from './registry';
+import { RAID_LOG } from '../constants';
 
 /**
  * PlayerIdentityData - Stored data for each username
@@ -48,6 +49,19 @@ export interface PlayerIdentityData {
   titleName: string;      // Rank Name
 }
 
+/**
+ * RaidLogEntry - One of this player's hidden walnuts dug up by someone else
+ * MVP 18: Stored newest-last under the 'raids' key (separate from 'player' so stat syncs don't rewrite it)
+ */
+export interface RaidLogEntry {
+  walnutId: string;
+  hiddenIn: 'buried' | 'bush';
+  finderName: string;
+  points: number;     // Points the finder got for it
+  forestId: string;
+  timestamp: number;
+}
+
 /**
  * PlayerIdentity - Durable Object for username → identity mapping
  *
@@ -110,6 +124,13 @@ export class PlayerIdentity extends DurableObject {
         case 'getStats':
           return await this.handleGetStats(request);
 
+        // MVP 18: Raid log
+        case 'recordRaid':
+          return await this.handleRecordRaid(request);
+
+        case 'getRaids':
+          return await this.handleGetRaids(request);
+
         // MVP 16: Authentication methods
         case 'signup':
           return await this.handleSignup(request);
@@ -435,6 +456,94 @@ export class PlayerIdentity extends DurableObject {
     });
   }
 
+  /**
+   * MVP 18: Append a raid to this player's raid log (internal use - called by ForestManager)
+   */
+  private async handleRecordRaid(request: Request): Promise<Response> {
+    // Internal only - the public /identity route refuses this action, the secret covers any other path in
+    const adminSecret = request.headers.get('X-Admin-Secret');
+    if (!adminSecret || adminSecret !== this.env.ADMIN_SECRET) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const raid = this.parseRaidLogEntry(await request.json());
+    if (!raid) {
+      return Response.json({ error: 'Invalid raid entry' }, { status: 400 });
+    }
+
+    const data = await this.ctx.storage.get<PlayerIdentityData>('player');
+
+    if (!data) {
+      return Response.json({ error: 'Identity not found' }, { status: 404 });
+    }
+
+    const raids = await this.ctx.storage.get<RaidLogEntry[]>('raids') || [];
+    raids.push(raid);
+    if (raids.length > RAID_LOG.MAX_ENTRIES) {
+      raids.splice(0, raids.length - RAID_LOG.MAX_ENTRIES);
+    }
+    await this.ctx.storage.put('raids', raids);
+
+    return Response.json({ success: true });
+  }
+
+  /**
+   * MVP 18: Validate a recordRaid body and copy only the known fields (null if malformed)
+   */
+  private parseRaidLogEntry(body: unknown): RaidLogEntry | null {
+    const raid = body as Partial<RaidLogEntry> | null;
+    const isShortString = (value: unknown): value is string =>
+      typeof value === 'string' && value.length > 0 && value.length <= 128;
+
+    if (
+      !raid ||
+      !isShortString(raid.walnutId) ||
+      !isShortString(raid.finderName) ||
+      !isShortString(raid.forestId) ||
+      (raid.hiddenIn !== 'buried' && raid.hiddenIn !== 'bush') ||
+      typeof raid.points !== 'number' || !Number.isFinite(raid.points) || raid.points < 0 ||
+      typeof raid.timestamp !== 'number' || !Number.isFinite(raid.timestamp)
+    ) {
+      return null;
+    }
+
+    return {
+      walnutId: raid.walnutId,
+      hiddenIn: raid.hiddenIn,
+      finderName: raid.finderName,
+      points: raid.points,
+      forestId: raid.forestId,
+      timestamp: raid.timestamp
+    };
+  }
+
+  /**
+   * MVP 18: Get this player's raid log, newest first
+   * POST with body: { sessionToken } - only sessions linked to the username may read it
+   */
+  private async handleGetRaids(request: Request): Promise<Response> {
+    const body = await request.json() as { sessionToken: string };
+    const sessionToken = body.sessionToken;
+
+    if (!sessionToken) {
+      return Response.json({ error: 'sessionToken required' }, { status: 400 });
+    }
+
+    const data = await this.ctx.storage.get<PlayerIdentityData>('player');
+
+    if (!data) {
+      return Response.json({ error: 'Identity not found' }, { status: 404 });
+    }
+
+    if (!data.sessionTokens.includes(sessionToken)) {
+      return Response.json({ error: 'Session not linked to this username' }, { status: 403 });
+    }
+
+    const raids = await this.ctx.storage.get<RaidLogEntry[]>('raids') || [];
+
+    return Response.json({ raids: raids.slice().reverse() });
+  }
+
   /**
    * Handle signup request (create authenticated account)
    * POST with body: { email, username, password }
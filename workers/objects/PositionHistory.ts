@@ -0,0 +1,81 @@
+// MVP 18: Position History - short ring buffer of timestamped positions for lag compensation
+// Hit checks rewind targets to where the shooter saw them (server time minus latency + client render delay)
+
+interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface PositionSample {
+  time: number; // Server receive time (ms)
+  x: number;
+  y: number;
+  z: number;
+}
+
+export class PositionHistory {
+  private samples: PositionSample[];
+  private head = 0; // Next write index
+  private count = 0;
+
+  constructor(private readonly capacity: number) {
+    this.samples = new Array(capacity);
+  }
+
+  /**
+   * Record a position at a server timestamp (oldest sample is overwritten when full)
+   */
+  record(time: number, position: Vector3): void {
+    this.samples[this.head] = { time, x: position.x, y: position.y, z: position.z };
+    this.head = (this.head + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  /**
+   * Position at `time`, interpolated between the surrounding samples
+   * Clamps to the oldest/newest sample outside the recorded window; null if nothing was recorded
+   */
+  sample(time: number): Vector3 | null {
+    if (this.count === 0) {
+      return null;
+    }
+
+    // Walk from newest to oldest
+    let newer = this.get(0);
+    if (time >= newer.time) {
+      return { x: newer.x, y: newer.y, z: newer.z };
+    }
+
+    for (let i = 1; i < this.count; i++) {
+      const older = this.get(i);
+      if (time >= older.time) {
+        const span = newer.time - older.time;
+        const alpha = span > 0 ? (time - older.time) / span : 1;
+        return {
+          x: older.x + (newer.x - older.x) * alpha,
+          y: older.y + (newer.y - older.y) * alpha,
+          z: older.z + (newer.z - older.z) * alpha
+        };
+      }
+      newer = older;
+    }
+
+    return { x: newer.x, y: newer.y, z: newer.z };
+  }
+
+  /**
+   * Forget all samples (respawn/teleport - don't interpolate across the jump)
+   */
+  clear(): void {
+    this.head = 0;
+    this.count = 0;
+  }
+
+  /**
+   * Sample `age` steps back from the newest (0 = newest)
+   */
+  private get(age: number): PositionSample {
+    return this.samples[(this.head - 1 - age + this.capacity) % this.capacity];
+  }
+}
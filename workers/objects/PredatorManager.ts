@@ -47,11 +47,23 @@ interface PlayerData {
   isCarefree?: boolean; // MVP 15: Carefree mode (ignored by predators)
 }
 
+// MVP 18: Attack resolved by ForestManager against server-side health/inventory
+export interface PredatorAttackEvent {
+  predatorId: string;
+  predatorType: Predator['type'];
+  targetId: string;
+  isPlayer: boolean; // false = NPC
+  damage: number; // HP to remove
+  stealAmount: number; // Walnuts to steal (aerial only, 0 for ground)
+  position: Vector3; // Predator position at time of attack
+}
+
 export class PredatorManager {
   private predators: Map<string, Predator> = new Map();
   private nextPredatorId = 0;
   private lastSpawnCheck = 0;
   private onPredatorFlee?: () => void; // MVP 13: Callback for flee tracking
+  private onPredatorAttack?: (event: PredatorAttackEvent) => void; // MVP 18: ForestManager applies damage/steals
 
   // Configuration constants
   private readonly MAX_PREDATORS = 2; // 2 active predators max
@@ -63,6 +75,7 @@ export class PredatorManager {
   private readonly AERIAL_SPEED = 6.5; // Moderate speed (reduced from 8.0)
   private readonly AERIAL_ATTACK_COOLDOWN = 45000; // 45s between attacks (increased from 30s)
   private readonly AERIAL_STEAL_AMOUNT = 2; // Steal 1-2 walnuts
+  private readonly AERIAL_DAMAGE = 10; // Peck damage on a dive
   private readonly AERIAL_CRUISE_HEIGHT = 2.5; // Base cruise height (low enough to hit - player priority)
   private readonly AERIAL_DIVE_HEIGHT = 1.8; // Attack dive height (very vulnerable during dives)
   private readonly AERIAL_BOBBING_AMPLITUDE = 0.4; // Sine wave bobbing range (minimal for easy targeting)
@@ -462,16 +475,17 @@ export class PredatorManager {
     // Execute attack
     predator.lastAttackTime = now;
 
-    if (isAerial) {
-      // Aerial: Steal walnuts
-      const stealAmount = Math.min(
-        target.inventory,
-        Math.floor(Math.random() * this.AERIAL_STEAL_AMOUNT) + 1
-      );
-      // Note: Actual inventory decrement happens in ForestManager
-    } else {
-      // Ground: Deal damage
-      // Note: Actual damage happens in ForestManager
+    // MVP 18: Emit attack - ForestManager applies it to server state (inventory may have changed since targeting)
+    if (this.onPredatorAttack) {
+      this.onPredatorAttack({
+        predatorId: predator.id,
+        predatorType: predator.type,
+        targetId: target.id,
+        isPlayer: target.isPlayer !== false,
+        damage: isAerial ? this.AERIAL_DAMAGE : this.GROUND_DAMAGE,
+        stealAmount: isAerial ? Math.floor(Math.random() * this.AERIAL_STEAL_AMOUNT) + 1 : 0,
+        position: { ...predator.position }
+      });
     }
 
     // After attack, return to patrol
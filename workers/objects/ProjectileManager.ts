@@ -0,0 +1,177 @@
+// MVP 18: Projectile Manager - server-simulated walnut throws
+// Flies every thrown walnut along the same arc the clients render (shared/ProjectilePhysics.ts)
+// and decides hits and landing spots against server-tracked positions.
+//
+// - Trajectory is analytic (from, velocity, t) so the 200ms alarm can catch up in small sub-steps
+// - First ground contact ends the flight (client-side bounces/rolling are visual only)
+// - Trees and rocks are not simulated - walnuts fly through them on the server
+
+import {
+  PROJECTILE_GRAVITY,
+  PROJECTILE_HIT_RADIUS,
+  PROJECTILE_MAX_LIFETIME,
+  PROJECTILE_WALNUT_RADIUS,
+  getArcPosition,
+  getArcVelocity
+} from '../shared/ProjectilePhysics';
+import { PositionHistory } from './PositionHistory';
+
+interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface Projectile {
+  id: string;
+  ownerId: string; // Player or NPC who threw it
+  from: Vector3;
+  velocity: Vector3;
+  launchTime: number;
+  simulatedTime: number; // Seconds of flight already checked
+  rewindMs: number; // MVP 18: Lag compensation - targets are checked this far in the past
+}
+
+// Anything a walnut can hit (ForestManager filters out dead/invulnerable entities)
+export interface ProjectileTarget {
+  id: string;
+  kind: 'player' | 'npc' | 'predator';
+  position: Vector3; // Current position
+  history?: PositionHistory; // Recent positions for lag compensation (falls back to position)
+}
+
+// MVP 18: Flight outcome resolved by ForestManager (damage, annoyance, ground walnut)
+export interface ProjectileResult {
+  projectileId: string;
+  ownerId: string;
+  target: ProjectileTarget | null; // null = missed (landed or timed out)
+  position: Vector3; // Walnut position at impact
+}
+
+export class ProjectileManager {
+  private projectiles: Map<string, Projectile> = new Map();
+  private nextProjectileId = 0;
+  private onProjectileResolved?: (result: ProjectileResult) => void; // MVP 18: ForestManager applies the outcome
+
+  // Simulation step (matches a 60fps client frame)
+  private readonly SIM_STEP = 1 / 60;
+
+  constructor() {
+  }
+
+  /**
+   * Launch a walnut from one position toward an aim point
+   * @param rewindMs - Check targets where the thrower saw them (thrower's view time = now - rewindMs)
+   * @returns Projectile ID (sent to clients with the throw event)
+   */
+  launch(ownerId: string, from: Vector3, to: Vector3, rewindMs: number = 0, now: number = Date.now()): string {
+    const id = `projectile-${this.nextProjectileId++}`;
+    this.projectiles.set(id, {
+      id,
+      ownerId,
+      from: { x: from.x, y: from.y, z: from.z },
+      velocity: getArcVelocity(from, to),
+      launchTime: now,
+      simulatedTime: 0,
+      rewindMs
+    });
+    return id;
+  }
+
+  /**
+   * Advance every projectile to `now` - called from ForestManager alarm loop
+   */
+  update(
+    now: number,
+    targets: ProjectileTarget[],
+    getTerrainHeight: (x: number, z: number) => number
+  ): void {
+    const resolved: ProjectileResult[] = [];
+
+    this.projectiles.forEach((projectile, id) => {
+      const result = this.simulate(projectile, now, targets, getTerrainHeight);
+      if (result) {
+        resolved.push(result);
+        this.projectiles.delete(id);
+      }
+    });
+
+    if (this.onProjectileResolved) {
+      for (const result of resolved) {
+        this.onProjectileResolved(result);
+      }
+    }
+  }
+
+  /**
+   * Step one projectile from where it was last checked up to `now`
+   * @returns Result if the projectile hit something, landed or timed out
+   */
+  private simulate(
+    projectile: Projectile,
+    now: number,
+    targets: ProjectileTarget[],
+    getTerrainHeight: (x: number, z: number) => number
+  ): ProjectileResult | null {
+    const elapsed = Math.min((now - projectile.launchTime) / 1000, PROJECTILE_MAX_LIFETIME);
+
+    while (projectile.simulatedTime < elapsed) {
+      const t = Math.min(projectile.simulatedTime + this.SIM_STEP, elapsed);
+      projectile.simulatedTime = t;
+      const position = getArcPosition(projectile.from, projectile.velocity, t);
+
+      // Hit check first (same as client: hits can happen right at ground level)
+      // MVP 18: The thrower sees this point of the flight rewindMs behind server time
+      const viewTime = projectile.launchTime + t * 1000 - projectile.rewindMs;
+      for (const target of targets) {
+        if (target.id === projectile.ownerId) continue; // Don't hit self
+        const targetPosition = target.history?.sample(viewTime) ?? target.position;
+        if (this.getDistance(position, targetPosition) <= PROJECTILE_HIT_RADIUS) {
+          return { projectileId: projectile.id, ownerId: projectile.ownerId, target, position };
+        }
+      }
+
+      // Landed - only while descending so throws from low positions still leave the ground
+      const groundY = getTerrainHeight(position.x, position.z) + PROJECTILE_WALNUT_RADIUS;
+      const verticalVelocity = projectile.velocity.y + PROJECTILE_GRAVITY * t;
+      if (position.y <= groundY && verticalVelocity < 0) {
+        return {
+          projectileId: projectile.id,
+          ownerId: projectile.ownerId,
+          target: null,
+          position: { x: position.x, y: groundY, z: position.z }
+        };
+      }
+    }
+
+    // Timed out in the air (client treats this as a miss too)
+    if (elapsed >= PROJECTILE_MAX_LIFETIME) {
+      const position = getArcPosition(projectile.from, projectile.velocity, elapsed);
+      return {
+        projectileId: projectile.id,
+        ownerId: projectile.ownerId,
+        target: null,
+        position: { x: position.x, y: getTerrainHeight(position.x, position.z) + PROJECTILE_WALNUT_RADIUS, z: position.z }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get active projectile count
+   */
+  getCount(): number {
+    return this.projectiles.size;
+  }
+
+  /**
+   * Calculate 3D distance between two positions
+   */
+  private getDistance(a: Vector3, b: Vector3): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const dz = b.z - a.z;
+    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+}
@@ -0,0 +1,74 @@
+// MVP 18: Spatial Grid - uniform XZ grid for "who is near this point" queries
+// Interest management rebuilds it every sweep so lookups cost O(local density) instead of O(population)
+
+interface GridPosition {
+  x: number;
+  z: number;
+}
+
+interface GridEntry<T> {
+  x: number;
+  z: number;
+  item: T;
+}
+
+export class SpatialGrid<T> {
+  private cells: Map<string, GridEntry<T>[]> = new Map();
+
+  constructor(private readonly cellSize: number) {
+  }
+
+  /**
+   * Add an item at a position (items are not moved - clear and re-insert to update)
+   */
+  insert(position: GridPosition, item: T): void {
+    const key = this.getCellKey(Math.floor(position.x / this.cellSize), Math.floor(position.z / this.cellSize));
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = [];
+      this.cells.set(key, cell);
+    }
+    cell.push({ x: position.x, z: position.z, item });
+  }
+
+  /**
+   * Items within `radius` (horizontal distance) of a position
+   * Only the cells overlapping the query circle are visited
+   */
+  query(position: GridPosition, radius: number): T[] {
+    const results: T[] = [];
+    const radiusSq = radius * radius;
+    const minX = Math.floor((position.x - radius) / this.cellSize);
+    const maxX = Math.floor((position.x + radius) / this.cellSize);
+    const minZ = Math.floor((position.z - radius) / this.cellSize);
+    const maxZ = Math.floor((position.z + radius) / this.cellSize);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cz = minZ; cz <= maxZ; cz++) {
+        const cell = this.cells.get(this.getCellKey(cx, cz));
+        if (!cell) continue;
+
+        for (const entry of cell) {
+          const dx = entry.x - position.x;
+          const dz = entry.z - position.z;
+          if (dx * dx + dz * dz <= radiusSq) {
+            results.push(entry.item);
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Remove every item
+   */
+  clear(): void {
+    this.cells.clear();
+  }
+
+  private getCellKey(cx: number, cz: number): string {
+    return `${cx},${cz}`;
+  }
+}
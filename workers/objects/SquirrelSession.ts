@@ -35,6 +35,33 @@ interface PlayerStats {
   score: number;
 }
 
+// MVP 18: Settlement owed to a player who was offline at cycle end ("while you were away")
+// Kept here rather than on the forest shard so it can be claimed from whichever shard the player joins next
+export interface SettlementRecord {
+  squirrelId: string;
+  unfoundWalnuts: number; // Player walnuts still hidden at cycle end
+  unfoundBonus: number; // unfoundWalnuts * POINTS.BONUS_UNFOUND
+  firstFinderBonus: number; // POINTS.FIRST_FINDER if first to FIRST_FINDER_FIND_COUNT finds
+  totalPoints: number;
+  cycles: number; // Cycles settled while away (records merge)
+  settledAt: number;
+}
+
+/**
+ * MVP 18: Combine two settlements owed to the same player
+ */
+export function mergeSettlements(a: SettlementRecord, b: SettlementRecord): SettlementRecord {
+  return {
+    squirrelId: a.squirrelId,
+    unfoundWalnuts: a.unfoundWalnuts + b.unfoundWalnuts,
+    unfoundBonus: a.unfoundBonus + b.unfoundBonus,
+    firstFinderBonus: a.firstFinderBonus + b.firstFinderBonus,
+    totalPoints: a.totalPoints + b.totalPoints,
+    cycles: a.cycles + b.cycles,
+    settledAt: Math.max(a.settledAt, b.settledAt)
+  };
+}
+
 export default class SquirrelSession {
   private state: DurableObjectState;
   private sessionState: SessionState | null = null;
@@ -74,6 +101,15 @@ export default class SquirrelSession {
         return await this.handleDisconnect(request);
       }
 
+      // MVP 18: Cycle settlements for offline players (added by any forest shard, claimed on next join)
+      if (pathname === "/settlement" && request.method === "POST") {
+        return await this.handleAddSettlement(request);
+      }
+
+      if (pathname === "/claim-settlement" && request.method === "POST") {
+        return await this.handleClaimSettlement(request);
+      }
+
       return new Response("Not Found", { status: 404 });
     } catch (error) {
       console.error("SquirrelSession error:", error);
@@ -360,4 +396,79 @@ export default class SquirrelSession {
       });
     }
   }
+
+  // MVP 18: Add one forest's cycle settlement (merges with anything still unclaimed)
+  private async handleAddSettlement(request: Request): Promise<Response> {
+    try {
+      const data = await request.json() as { squirrelId: string; unfoundWalnuts: number; unfoundBonus: number; firstFinderBonus: number };
+
+      if (!data.squirrelId ||
+          !Number.isFinite(data.unfoundWalnuts) || data.unfoundWalnuts < 0 ||
+          !Number.isFinite(data.unfoundBonus) || data.unfoundBonus < 0 ||
+          !Number.isFinite(data.firstFinderBonus) || data.firstFinderBonus < 0) {
+        return new Response(JSON.stringify({ error: "Invalid request" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const key = `settlement:${data.squirrelId}`;
+      const existing = await this.state.storage.get<SettlementRecord>(key);
+      const now = Date.now();
+
+      // Every shard settles the same daily cycle - only the first one counts as a new cycle
+      const sameCycle = !!existing && new Date(existing.settledAt).toISOString().slice(0, 10) === new Date(now).toISOString().slice(0, 10);
+      const added: SettlementRecord = {
+        squirrelId: data.squirrelId,
+        unfoundWalnuts: data.unfoundWalnuts,
+        unfoundBonus: data.unfoundBonus,
+        firstFinderBonus: data.firstFinderBonus,
+        totalPoints: data.unfoundBonus + data.firstFinderBonus,
+        cycles: sameCycle ? 0 : 1,
+        settledAt: now
+      };
+      const record = existing ? mergeSettlements(existing, added) : added;
+      await this.state.storage.put(key, record);
+
+      return new Response(JSON.stringify({ success: true, settlement: record }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      console.error("Error adding settlement:", error);
+      return new Response(JSON.stringify({ error: "Failed to add settlement" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+
+  // MVP 18: Hand over (and forget) the settlement owed to a returning player
+  private async handleClaimSettlement(request: Request): Promise<Response> {
+    try {
+      const data = await request.json() as { squirrelId: string };
+
+      if (!data.squirrelId) {
+        return new Response(JSON.stringify({ error: "Invalid request" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const key = `settlement:${data.squirrelId}`;
+      const record = await this.state.storage.get<SettlementRecord>(key);
+      if (record) {
+        await this.state.storage.delete(key);
+      }
+
+      return new Response(JSON.stringify({ settlement: record || null }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      console.error("Error claiming settlement:", error);
+      return new Response(JSON.stringify({ error: "Failed to claim settlement" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
 }
\ No newline at end of file
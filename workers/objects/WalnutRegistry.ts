@@ -1,5 +1,7 @@
 // Simplified WalnutRegistry - Basic walnut storage and retrieval
 
+import { TREE_GROWTH } from '../constants';
+
 interface DurableObjectState {
   storage: DurableObjectStorage;
   id: DurableObjectId;
@@ -27,6 +29,9 @@ interface Walnut {
   found: boolean;
   timestamp: number;
   grownIntoTree?: boolean; // MVP 9: Track if walnut has grown into tree
+  foundBy?: string; // MVP 18: Finder's squirrelId
+  foundByName?: string; // MVP 18: Finder's username (shown in the owner's stash journal)
+  foundAt?: number;
 }
 
 export default class WalnutRegistry {
@@ -98,10 +103,32 @@ export default class WalnutRegistry {
       });
     }
 
+    // MVP 18: Get one owner's player-hidden walnuts for this cycle (stash journal)
+    if (path.endsWith("/owner") && request.method === "GET") {
+      const ownerId = url.searchParams.get("ownerId");
+      if (!ownerId) {
+        return new Response(JSON.stringify({
+          error: "Missing ownerId"
+        }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const walnutArray = Array.from(this.walnuts.values())
+        .filter(walnut => walnut.origin === 'player' && walnut.ownerId === ownerId);
+      return new Response(JSON.stringify({
+        walnuts: walnutArray,
+        count: walnutArray.length
+      }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
     // Find walnut by ID
     if (path.endsWith("/find") && request.method === "POST") {
       try {
-        const { walnutId, playerId } = await request.json() as { walnutId: string; playerId: string };
+        const { walnutId, playerId, playerName } = await request.json() as { walnutId: string; playerId: string; playerName?: string };
 
         if (!walnutId || !playerId) {
           return new Response(JSON.stringify({
@@ -124,6 +151,9 @@ export default class WalnutRegistry {
 
         // Mark as found
         walnut.found = true;
+        walnut.foundBy = playerId;
+        walnut.foundByName = playerName;
+        walnut.foundAt = Date.now();
         this.walnuts.set(walnutId, walnut);
         await this.storage.put(walnutId, walnut);
 
@@ -150,7 +180,6 @@ export default class WalnutRegistry {
     // MVP 9: Check for walnuts ready to grow into trees
     if (path.endsWith("/check-growth") && request.method === "POST") {
       try {
-        const GROWTH_TIME_MS = 60 * 1000; // 1 minute
         const now = Date.now();
         const readyToGrow: Walnut[] = [];
 
@@ -160,7 +189,7 @@ export default class WalnutRegistry {
             walnut.origin === 'player' &&
             !walnut.found &&
             !walnut.grownIntoTree &&
-            (now - walnut.timestamp >= GROWTH_TIME_MS)
+            (now - walnut.timestamp >= TREE_GROWTH.GROWTH_TIME)
           ) {
             readyToGrow.push(walnut);
           }
@@ -225,6 +254,39 @@ export default class WalnutRegistry {
       }
     }
 
+    // MVP 18: End-of-cycle settlement - count unfound player walnuts per owner, then start a fresh cycle
+    if (path.endsWith("/settle") && request.method === "POST") {
+      try {
+        const unfoundByOwner: Record<string, number> = {};
+        let totalUnfound = 0;
+
+        for (const walnut of this.walnuts.values()) {
+          if (walnut.origin === 'player' && !walnut.found && !walnut.grownIntoTree) {
+            unfoundByOwner[walnut.ownerId] = (unfoundByOwner[walnut.ownerId] || 0) + 1;
+            totalUnfound++;
+          }
+        }
+
+        // Cycle is over - settled walnuts must never be credited twice
+        await this.storage.deleteAll();
+        this.walnuts.clear();
+
+        return new Response(JSON.stringify({
+          unfoundByOwner,
+          totalUnfound
+        }), {
+          headers: { "Content-Type": "application/json" }
+        });
+      } catch (error) {
+        return new Response(JSON.stringify({
+          error: "Failed to settle walnuts"
+        }), {
+          status: 500,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+    }
+
     return new Response("Not Found", { status: 404 });
   }
 
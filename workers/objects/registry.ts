@@ -1,6 +1,6 @@
 // Centralized registry for Durable Object access
 
-export type DOName = 'forest' | 'squirrel' | 'walnuts' | 'leaderboard';
+export type DOName = 'forest' | 'squirrel' | 'walnuts' | 'leaderboard' | 'lobby';
 
 export interface EnvWithBindings {
   // Durable Object bindings
@@ -9,6 +9,7 @@ export interface EnvWithBindings {
   WALNUTS: DurableObjectNamespace;
   LEADERBOARD: DurableObjectNamespace;
   PLAYER_IDENTITY: DurableObjectNamespace; // MVP 6: Player identity management
+  FOREST_LOBBY: DurableObjectNamespace; // MVP 18: Forest shard matchmaking
 
   // KV Namespaces
   EMAIL_INDEX: KVNamespace; // MVP 16: Email uniqueness index for authentication
@@ -42,6 +43,8 @@ export function getObjectId(
       return env.WALNUTS.idFromName(key);
     case 'leaderboard':
       return env.LEADERBOARD.idFromName(key);
+    case 'lobby':
+      return env.FOREST_LOBBY.idFromName(key);
     default:
       throw new Error(`Unknown DO name: ${name}`);
   }
@@ -63,6 +66,8 @@ export function getObjectInstance(
       return env.WALNUTS.get(id);
     case 'leaderboard':
       return env.LEADERBOARD.get(id);
+    case 'lobby':
+      return env.FOREST_LOBBY.get(id);
     default:
       throw new Error(`Unknown DO name: ${name}`);
   }
@@ -0,0 +1,733 @@
+/**
+ * MVP 18: Binary WebSocket Protocol
+ *
+ * Compact binary encoding for the high-frequency messages:
+ * - player_update (client → server and server → clients, 10-20 Hz)
+ * - npc_updates_batch (server → clients, 5 Hz)
+ * - predators_update (server → clients, 5 Hz)
+ * - snapshot (server → clients, 5 Hz - fixed-tick player/NPC deltas, version 2+)
+ * Everything else stays JSON.
+ *
+ * ⚠️ IMPORTANT: MANUAL SYNC REQUIRED ⚠️
+ * This file exists in TWO locations:
+ * - workers/shared/BinaryProtocol.ts (MASTER - source of truth)
+ * - client/src/shared/BinaryProtocol.ts (COPY - must manually sync)
+ *
+ * When you modify this file, you MUST copy changes to the other location.
+ * Both files must stay identical or clients will fail to decode server frames.
+ * Any change to the wire format MUST bump BINARY_PROTOCOL_VERSION.
+ *
+ * Design:
+ * - Positions/velocities quantized to int16 centimeters (±327 units, 0.01 precision)
+ * - Rotation quantized to int16 over [-π, π]
+ * - Entity ids and small enums (animation, behavior, predator state...) interned to uint16.
+ *   New strings are defined inline the first time each codec sends them, so every
+ *   connection needs its own BinaryCodec instance (one per socket, on both ends).
+ * - Decoded messages have exactly the same shape as the JSON messages, so message
+ *   handlers don't care which encoding was used.
+ * - encode() returns null for anything it can't represent exactly (unknown fields,
+ *   long strings, wrong types) - caller sends JSON instead.
+ *
+ * Frame layout:
+ *   [u8 version][u8 opcode][u8 flags]
+ *   [u16 definitionCount] ([u16 index][u8 byteLength][utf8 bytes]) * definitionCount
+ *   [payload...]
+ */
+
+import { ClientMessageOf, NpcState, PlayerState, PredatorState, ServerMessageOf } from './MessageSchema';
+
+/**
+ * Current wire format version (negotiated on /ws connect, 0 = JSON only)
+ */
+export const BINARY_PROTOCOL_VERSION = 2;
+
+/**
+ * Versions this build can encode/decode (newest last)
+ */
+export const SUPPORTED_BINARY_PROTOCOL_VERSIONS: readonly number[] = [1, 2];
+
+/**
+ * Message types that have a binary encoding
+ */
+export const BINARY_MESSAGE_TYPES: readonly string[] = ['player_update', 'npc_updates_batch', 'predators_update', 'snapshot'];
+
+/**
+ * Messages with a binary encoding (shapes from MessageSchema.ts)
+ * player_update goes both ways - client frames have no squirrelId, server frames always do
+ */
+export type BinaryMessage =
+  | ClientMessageOf<'player_update'>
+  | ServerMessageOf<'player_update'>
+  | ServerMessageOf<'npc_updates_batch'>
+  | ServerMessageOf<'predators_update'>
+  | ServerMessageOf<'snapshot'>;
+
+// Player fields as laid out on the wire (player_update and snapshot entries)
+type PlayerFields = Partial<PlayerState> & Pick<PlayerState, 'position' | 'rotationY'>;
+
+const OPCODES = {
+  PLAYER_UPDATE: 1,
+  NPC_UPDATES_BATCH: 2,
+  PREDATORS_UPDATE: 3,
+  SNAPSHOT: 4 // Version 2+
+} as const;
+
+const SNAPSHOT_MIN_VERSION = 2;
+
+// Frame flags
+const FRAME_FLAG_RESET_STRINGS = 1 << 0; // Sender cleared its string table - receiver must too
+
+// player_update field flags (u16)
+const PLAYER_HAS_SQUIRREL_ID = 1 << 0;
+const PLAYER_HAS_VELOCITY = 1 << 1;
+const PLAYER_HAS_ANIMATION = 1 << 2;
+const PLAYER_HAS_ANIMATION_START = 1 << 3;
+const PLAYER_HAS_MOVE_TYPE = 1 << 4;
+const PLAYER_HAS_TIMESTAMP = 1 << 5;
+const PLAYER_HAS_CHARACTER_ID = 1 << 6;
+const PLAYER_HAS_HEALTH = 1 << 7;
+const PLAYER_HAS_SCORE = 1 << 8;
+const PLAYER_HAS_ACCESSORY = 1 << 9;
+const PLAYER_HAS_CAREFREE = 1 << 10;
+const PLAYER_IS_CAREFREE = 1 << 11;
+
+// npc_updates_batch per-NPC flags (u8)
+const NPC_HAS_VELOCITY = 1 << 0;
+const NPC_HAS_ANIMATION = 1 << 1;
+const NPC_HAS_BEHAVIOR = 1 << 2;
+const NPC_HAS_HEALTH = 1 << 3;
+const NPC_HAS_ACCESSORY = 1 << 4;
+
+// predators_update per-predator flags (u8)
+const PREDATOR_HAS_TARGET = 1 << 0;
+const PREDATOR_TARGET_NULL = 1 << 1; // targetId: null (distinct from absent)
+
+const POSITION_SCALE = 100; // int16 centimeters
+const INT16_MAX = 32767;
+const MAX_INTERNED_STRINGS = 0xffff;
+const STRING_TABLE_HEADROOM = 4096; // Reset the table early so one message never overflows it
+const MAX_STRING_BYTES = 255;
+const MAX_BATCH_SIZE = 0xffff;
+
+const PLAYER_UPDATE_KEYS = new Set([
+  'type', 'squirrelId', 'position', 'rotationY', 'velocity', 'animation', 'animationStartTime',
+  'moveType', 'timestamp', 'characterId', 'health', 'score', 'accessoryId', 'isCarefree'
+]);
+const NPC_KEYS = new Set(['npcId', 'position', 'rotationY', 'velocity', 'animation', 'behavior', 'health', 'accessoryId']);
+const PREDATOR_KEYS = new Set(['id', 'type', 'position', 'rotationY', 'state', 'targetId']);
+const SNAPSHOT_KEYS = new Set(['type', 'seq', 'serverTime', 'players', 'npcs']);
+
+/**
+ * Thrown internally when a message can't be represented - encode() turns it into null
+ */
+class UnencodableMessage extends Error {}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Pick the highest binary protocol version both sides support
+ *
+ * @param requested - Comma-separated versions offered by the client (e.g. "1"), or null
+ * @returns Agreed version, or 0 to stay on JSON
+ */
+export function negotiateProtocolVersion(requested: string | null | undefined): number {
+  if (!requested) {
+    return 0;
+  }
+  const offered = requested.split(',').map(value => Number(value.trim()));
+  const common = SUPPORTED_BINARY_PROTOCOL_VERSIONS.filter(version => offered.includes(version));
+  return common.length > 0 ? Math.max(...common) : 0;
+}
+
+export function isBinaryMessageType(type: unknown): boolean {
+  return typeof type === 'string' && BINARY_MESSAGE_TYPES.includes(type);
+}
+
+// Growable little-endian byte writer
+class ByteWriter {
+  private buffer = new ArrayBuffer(256);
+  private view = new DataView(this.buffer);
+  private bytes = new Uint8Array(this.buffer);
+  length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.byteLength) {
+      return;
+    }
+    let size = this.buffer.byteLength * 2;
+    while (size < this.length + extra) {
+      size *= 2;
+    }
+    const next = new ArrayBuffer(size);
+    new Uint8Array(next).set(this.bytes.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next);
+    this.bytes = new Uint8Array(next);
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.length, value, true);
+    this.length += 2;
+  }
+
+  i16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.length, value, true);
+    this.length += 2;
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.length, value, true);
+    this.length += 4;
+  }
+
+  f32(value: number): void {
+    this.ensure(4);
+    this.view.setFloat32(this.length, value, true);
+    this.length += 4;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  raw(data: Uint8Array): void {
+    this.ensure(data.length);
+    this.bytes.set(data, this.length);
+    this.length += data.length;
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Little-endian byte reader (DataView throws RangeError on truncated frames)
+class ByteReader {
+  private view: DataView;
+  private bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+    this.bytes = new Uint8Array(buffer);
+  }
+
+  u8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  i16(): number {
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  i32(): number {
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f32(): number {
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  utf8(length: number): string {
+    if (this.offset + length > this.bytes.length) {
+      throw new RangeError('Binary frame truncated');
+    }
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+function requireNumber(value: unknown): number {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw new UnencodableMessage();
+  }
+  return value;
+}
+
+function requireObject(value: unknown): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    throw new UnencodableMessage();
+  }
+  return value as Record<string, unknown>;
+}
+
+// Fields we don't know how to encode would be silently dropped - fall back to JSON instead
+function requireKnownKeys(value: object, keys: Set<string>): void {
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (fieldValue !== undefined && !keys.has(key)) {
+      throw new UnencodableMessage();
+    }
+  }
+}
+
+function quantize(value: number, scale: number): number {
+  return Math.max(-INT16_MAX, Math.min(INT16_MAX, Math.round(value * scale)));
+}
+
+// Wrap to [-π, π] so every angle fits the int16 range
+function quantizeAngle(radians: number): number {
+  const wrapped = Math.atan2(Math.sin(radians), Math.cos(radians));
+  return Math.round(wrapped / Math.PI * INT16_MAX);
+}
+
+function dequantizeAngle(value: number): number {
+  return value / INT16_MAX * Math.PI;
+}
+
+/**
+ * Per-connection binary encoder/decoder
+ * Holds the interned string tables for one socket (send and receive sides are independent)
+ */
+export class BinaryCodec {
+  private encodeStrings = new Map<string, number>();
+  private decodeStrings = new Map<number, string>();
+  private pendingDefinitions: Array<{ index: number; value: string; bytes: Uint8Array }> = [];
+
+  /**
+   * Encode a hot-path message
+   *
+   * @returns Binary frame, or null if the message should be sent as JSON
+   */
+  encode(message: BinaryMessage, version: number = BINARY_PROTOCOL_VERSION): ArrayBuffer | null {
+    if (!SUPPORTED_BINARY_PROTOCOL_VERSIONS.includes(version) || !message || !isBinaryMessageType(message.type)) {
+      return null;
+    }
+    if (message.type === 'snapshot' && version < SNAPSHOT_MIN_VERSION) {
+      return null;
+    }
+
+    let frameFlags = 0;
+    if (this.encodeStrings.size >= MAX_INTERNED_STRINGS - STRING_TABLE_HEADROOM) {
+      // Long-lived connection churned through lots of ids - start a fresh table
+      this.encodeStrings.clear();
+      frameFlags |= FRAME_FLAG_RESET_STRINGS;
+    }
+
+    const payload = new ByteWriter();
+    this.pendingDefinitions = [];
+    let opcode: number;
+
+    try {
+      switch (message.type) {
+        case 'player_update':
+          opcode = OPCODES.PLAYER_UPDATE;
+          this.writePlayerUpdate(payload, message);
+          break;
+        case 'npc_updates_batch':
+          opcode = OPCODES.NPC_UPDATES_BATCH;
+          this.writeNpcBatch(payload, message);
+          break;
+        case 'snapshot':
+          opcode = OPCODES.SNAPSHOT;
+          this.writeSnapshot(payload, message);
+          break;
+        case 'predators_update':
+          opcode = OPCODES.PREDATORS_UPDATE;
+          this.writePredators(payload, message);
+          break;
+        default:
+          return null;
+      }
+    } catch (error) {
+      if (!(error instanceof UnencodableMessage)) {
+        throw error;
+      }
+      // Roll back strings interned by this message - the receiver never saw them
+      for (const definition of this.pendingDefinitions) {
+        this.encodeStrings.delete(definition.value);
+      }
+      this.pendingDefinitions = [];
+      return null;
+    }
+
+    const frame = new ByteWriter();
+    frame.u8(version);
+    frame.u8(opcode);
+    frame.u8(frameFlags);
+    frame.u16(this.pendingDefinitions.length);
+    for (const definition of this.pendingDefinitions) {
+      frame.u16(definition.index);
+      frame.u8(definition.bytes.length);
+      frame.raw(definition.bytes);
+    }
+    frame.raw(new Uint8Array(payload.toArrayBuffer()));
+    this.pendingDefinitions = [];
+
+    return frame.toArrayBuffer();
+  }
+
+  /**
+   * Decode a binary frame back into the equivalent JSON message object
+   * Throws on unknown versions/opcodes or malformed frames
+   */
+  decode(buffer: ArrayBuffer): BinaryMessage {
+    const reader = new ByteReader(buffer);
+    const version = reader.u8();
+    if (!SUPPORTED_BINARY_PROTOCOL_VERSIONS.includes(version)) {
+      throw new Error(`Unsupported binary protocol version ${version}`);
+    }
+
+    const opcode = reader.u8();
+    const frameFlags = reader.u8();
+    if (frameFlags & FRAME_FLAG_RESET_STRINGS) {
+      this.decodeStrings.clear();
+    }
+
+    const definitionCount = reader.u16();
+    for (let i = 0; i < definitionCount; i++) {
+      const index = reader.u16();
+      const length = reader.u8();
+      this.decodeStrings.set(index, reader.utf8(length));
+    }
+
+    switch (opcode) {
+      case OPCODES.PLAYER_UPDATE:
+        return this.readPlayerUpdate(reader);
+      case OPCODES.NPC_UPDATES_BATCH:
+        return this.readNpcBatch(reader);
+      case OPCODES.PREDATORS_UPDATE:
+        return this.readPredators(reader);
+      case OPCODES.SNAPSHOT:
+        if (version < SNAPSHOT_MIN_VERSION) {
+          throw new Error(`Binary opcode ${opcode} needs protocol version ${SNAPSHOT_MIN_VERSION}`);
+        }
+        return this.readSnapshot(reader);
+      default:
+        throw new Error(`Unknown binary opcode ${opcode}`);
+    }
+  }
+
+  // ========================================
+  // Strings (interned ids / enums)
+  // ========================================
+
+  private writeString(writer: ByteWriter, value: unknown): void {
+    if (typeof value !== 'string') {
+      throw new UnencodableMessage();
+    }
+
+    let index = this.encodeStrings.get(value);
+    if (index === undefined) {
+      const bytes = textEncoder.encode(value);
+      if (bytes.length > MAX_STRING_BYTES || this.encodeStrings.size >= MAX_INTERNED_STRINGS) {
+        throw new UnencodableMessage();
+      }
+      index = this.encodeStrings.size;
+      this.encodeStrings.set(value, index);
+      this.pendingDefinitions.push({ index, value, bytes });
+    }
+    writer.u16(index);
+  }
+
+  private readString(reader: ByteReader): string {
+    const index = reader.u16();
+    const value = this.decodeStrings.get(index);
+    if (value === undefined) {
+      throw new Error(`Unknown interned string ${index}`);
+    }
+    return value;
+  }
+
+  // ========================================
+  // Vectors
+  // ========================================
+
+  private writeVector3(writer: ByteWriter, value: unknown): void {
+    const vector = requireObject(value);
+    writer.i16(quantize(requireNumber(vector.x), POSITION_SCALE));
+    writer.i16(quantize(requireNumber(vector.y), POSITION_SCALE));
+    writer.i16(quantize(requireNumber(vector.z), POSITION_SCALE));
+  }
+
+  private readVector3(reader: ByteReader): { x: number; y: number; z: number } {
+    return {
+      x: reader.i16() / POSITION_SCALE,
+      y: reader.i16() / POSITION_SCALE,
+      z: reader.i16() / POSITION_SCALE
+    };
+  }
+
+  // ========================================
+  // player_update
+  // ========================================
+
+  private writePlayerUpdate(writer: ByteWriter, message: Partial<PlayerState> & { type?: string }): void {
+    requireKnownKeys(message, PLAYER_UPDATE_KEYS);
+
+    let flags = 0;
+    if (message.squirrelId !== undefined) flags |= PLAYER_HAS_SQUIRREL_ID;
+    if (message.velocity !== undefined) flags |= PLAYER_HAS_VELOCITY;
+    if (message.animation !== undefined) flags |= PLAYER_HAS_ANIMATION;
+    if (message.animationStartTime !== undefined) flags |= PLAYER_HAS_ANIMATION_START;
+    if (message.moveType !== undefined) flags |= PLAYER_HAS_MOVE_TYPE;
+    if (message.timestamp !== undefined) flags |= PLAYER_HAS_TIMESTAMP;
+    if (message.characterId !== undefined) flags |= PLAYER_HAS_CHARACTER_ID;
+    if (message.health !== undefined) flags |= PLAYER_HAS_HEALTH;
+    if (message.score !== undefined) flags |= PLAYER_HAS_SCORE;
+    if (message.accessoryId !== undefined) flags |= PLAYER_HAS_ACCESSORY;
+    if (message.isCarefree !== undefined) {
+      if (typeof message.isCarefree !== 'boolean') {
+        throw new UnencodableMessage();
+      }
+      flags |= PLAYER_HAS_CAREFREE;
+      if (message.isCarefree) flags |= PLAYER_IS_CAREFREE;
+    }
+
+    writer.u16(flags);
+    this.writeVector3(writer, message.position);
+    writer.i16(quantizeAngle(requireNumber(message.rotationY)));
+
+    if (flags & PLAYER_HAS_SQUIRREL_ID) this.writeString(writer, message.squirrelId);
+    if (flags & PLAYER_HAS_VELOCITY) this.writeVector3(writer, message.velocity);
+    if (flags & PLAYER_HAS_ANIMATION) this.writeString(writer, message.animation);
+    if (flags & PLAYER_HAS_ANIMATION_START) writer.f64(requireNumber(message.animationStartTime));
+    if (flags & PLAYER_HAS_MOVE_TYPE) this.writeString(writer, message.moveType);
+    if (flags & PLAYER_HAS_TIMESTAMP) writer.f64(requireNumber(message.timestamp));
+    if (flags & PLAYER_HAS_CHARACTER_ID) this.writeString(writer, message.characterId);
+    if (flags & PLAYER_HAS_HEALTH) writer.f32(requireNumber(message.health));
+    if (flags & PLAYER_HAS_SCORE) {
+      const score = requireNumber(message.score);
+      if (!Number.isInteger(score) || Math.abs(score) > 0x7fffffff) {
+        throw new UnencodableMessage();
+      }
+      writer.i32(score);
+    }
+    if (flags & PLAYER_HAS_ACCESSORY) this.writeString(writer, message.accessoryId);
+  }
+
+  private readPlayerUpdate(reader: ByteReader): BinaryMessage {
+    return { type: 'player_update', ...this.readPlayerFields(reader) };
+  }
+
+  private readPlayerFields(reader: ByteReader): PlayerFields {
+    const flags = reader.u16();
+    const message: PlayerFields = {
+      position: this.readVector3(reader),
+      rotationY: dequantizeAngle(reader.i16())
+    };
+
+    if (flags & PLAYER_HAS_SQUIRREL_ID) message.squirrelId = this.readString(reader);
+    if (flags & PLAYER_HAS_VELOCITY) message.velocity = this.readVector3(reader);
+    if (flags & PLAYER_HAS_ANIMATION) message.animation = this.readString(reader);
+    if (flags & PLAYER_HAS_ANIMATION_START) message.animationStartTime = reader.f64();
+    if (flags & PLAYER_HAS_MOVE_TYPE) message.moveType = this.readString(reader);
+    if (flags & PLAYER_HAS_TIMESTAMP) message.timestamp = reader.f64();
+    if (flags & PLAYER_HAS_CHARACTER_ID) message.characterId = this.readString(reader);
+    if (flags & PLAYER_HAS_HEALTH) message.health = reader.f32();
+    if (flags & PLAYER_HAS_SCORE) message.score = reader.i32();
+    if (flags & PLAYER_HAS_ACCESSORY) message.accessoryId = this.readString(reader);
+    if (flags & PLAYER_HAS_CAREFREE) message.isCarefree = (flags & PLAYER_IS_CAREFREE) !== 0;
+
+    return message;
+  }
+
+  // ========================================
+  // npc_updates_batch
+  // ========================================
+
+  private writeNpcBatch(writer: ByteWriter, message: ServerMessageOf<'npc_updates_batch'>): void {
+    requireKnownKeys(message, new Set(['type', 'npcs']));
+    this.writeNpcs(writer, message.npcs);
+  }
+
+  private readNpcBatch(reader: ByteReader): ServerMessageOf<'npc_updates_batch'> {
+    return { type: 'npc_updates_batch', npcs: this.readNpcs(reader) };
+  }
+
+  private writeNpcs(writer: ByteWriter, npcs: unknown): void {
+    if (!Array.isArray(npcs) || npcs.length > MAX_BATCH_SIZE) {
+      throw new UnencodableMessage();
+    }
+
+    writer.u16(npcs.length);
+    for (const value of npcs) {
+      const npc = requireObject(value);
+      requireKnownKeys(npc, NPC_KEYS);
+
+      let flags = 0;
+      if (npc.velocity !== undefined) flags |= NPC_HAS_VELOCITY;
+      if (npc.animation !== undefined) flags |= NPC_HAS_ANIMATION;
+      if (npc.behavior !== undefined) flags |= NPC_HAS_BEHAVIOR;
+      if (npc.health !== undefined) flags |= NPC_HAS_HEALTH;
+      if (npc.accessoryId !== undefined) flags |= NPC_HAS_ACCESSORY;
+
+      writer.u8(flags);
+      this.writeString(writer, npc.npcId);
+      this.writeVector3(writer, npc.position);
+      writer.i16(quantizeAngle(requireNumber(npc.rotationY)));
+
+      if (flags & NPC_HAS_VELOCITY) {
+        // NPC velocity is 2D (x/z only)
+        const velocity = requireObject(npc.velocity);
+        requireKnownKeys(velocity, new Set(['x', 'z']));
+        writer.i16(quantize(requireNumber(velocity.x), POSITION_SCALE));
+        writer.i16(quantize(requireNumber(velocity.z), POSITION_SCALE));
+      }
+      if (flags & NPC_HAS_ANIMATION) this.writeString(writer, npc.animation);
+      if (flags & NPC_HAS_BEHAVIOR) this.writeString(writer, npc.behavior);
+      if (flags & NPC_HAS_HEALTH) writer.f32(requireNumber(npc.health));
+      if (flags & NPC_HAS_ACCESSORY) this.writeString(writer, npc.accessoryId);
+    }
+  }
+
+  private readNpcs(reader: ByteReader): NpcState[] {
+    const count = reader.u16();
+    const npcs: NpcState[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const flags = reader.u8();
+      const npc: NpcState = {
+        npcId: this.readString(reader),
+        position: this.readVector3(reader),
+        rotationY: dequantizeAngle(reader.i16())
+      };
+
+      if (flags & NPC_HAS_VELOCITY) {
+        npc.velocity = {
+          x: reader.i16() / POSITION_SCALE,
+          z: reader.i16() / POSITION_SCALE
+        };
+      }
+      if (flags & NPC_HAS_ANIMATION) npc.animation = this.readString(reader);
+      if (flags & NPC_HAS_BEHAVIOR) npc.behavior = this.readString(reader);
+      if (flags & NPC_HAS_HEALTH) npc.health = reader.f32();
+      if (flags & NPC_HAS_ACCESSORY) npc.accessoryId = this.readString(reader);
+
+      npcs.push(npc);
+    }
+
+    return npcs;
+  }
+
+  // ========================================
+  // predators_update
+  // ========================================
+
+  private writePredators(writer: ByteWriter, message: ServerMessageOf<'predators_update'>): void {
+    requireKnownKeys(message, new Set(['type', 'predators']));
+    if (!Array.isArray(message.predators) || message.predators.length > MAX_BATCH_SIZE) {
+      throw new UnencodableMessage();
+    }
+
+    writer.u16(message.predators.length);
+    for (const value of message.predators) {
+      const predator = requireObject(value);
+      requireKnownKeys(predator, PREDATOR_KEYS);
+
+      let flags = 0;
+      if (predator.targetId === null) flags |= PREDATOR_TARGET_NULL;
+      else if (predator.targetId !== undefined) flags |= PREDATOR_HAS_TARGET;
+
+      writer.u8(flags);
+      this.writeString(writer, predator.id);
+      this.writeString(writer, predator.type);
+      this.writeVector3(writer, predator.position);
+      writer.i16(quantizeAngle(requireNumber(predator.rotationY)));
+      this.writeString(writer, predator.state);
+      if (flags & PREDATOR_HAS_TARGET) this.writeString(writer, predator.targetId);
+    }
+  }
+
+  private readPredators(reader: ByteReader): ServerMessageOf<'predators_update'> {
+    const count = reader.u16();
+    const predators: PredatorState[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const flags = reader.u8();
+      const predator: PredatorState = {
+        id: this.readString(reader),
+        type: this.readString(reader),
+        position: this.readVector3(reader),
+        rotationY: dequantizeAngle(reader.i16()),
+        state: this.readString(reader)
+      };
+
+      if (flags & PREDATOR_HAS_TARGET) predator.targetId = this.readString(reader);
+      else if (flags & PREDATOR_TARGET_NULL) predator.targetId = null;
+
+      predators.push(predator);
+    }
+
+    return { type: 'predators_update', predators };
+  }
+
+  // ========================================
+  // snapshot (version 2+)
+  // ========================================
+
+  private writeSnapshot(writer: ByteWriter, message: ServerMessageOf<'snapshot'>): void {
+    requireKnownKeys(message, SNAPSHOT_KEYS);
+    const seq = requireNumber(message.seq);
+    if (!Number.isInteger(seq) || seq < 0 || seq > 0x7fffffff) {
+      throw new UnencodableMessage();
+    }
+    if (!Array.isArray(message.players) || message.players.length > MAX_BATCH_SIZE) {
+      throw new UnencodableMessage();
+    }
+
+    writer.i32(seq);
+    writer.f64(requireNumber(message.serverTime));
+
+    // Players use the player_update layout (without the type field, always with a squirrelId)
+    writer.u16(message.players.length);
+    for (const value of message.players) {
+      const player = requireObject(value);
+      if (player.type !== undefined || player.squirrelId === undefined) {
+        throw new UnencodableMessage();
+      }
+      this.writePlayerUpdate(writer, player);
+    }
+
+    this.writeNpcs(writer, message.npcs);
+  }
+
+  private readSnapshot(reader: ByteReader): ServerMessageOf<'snapshot'> {
+    const seq = reader.i32();
+    const serverTime = reader.f64();
+
+    const count = reader.u16();
+    const players: PlayerState[] = [];
+    for (let i = 0; i < count; i++) {
+      const { squirrelId, ...player } = this.readPlayerFields(reader);
+      if (squirrelId === undefined) {
+        throw new Error('Snapshot player without a squirrelId');
+      }
+      players.push({ squirrelId, ...player });
+    }
+
+    return { type: 'snapshot', seq, serverTime, players, npcs: this.readNpcs(reader) };
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * MVP 18: Walnut Projectile Physics
+ *
+ * Arc parameters and trajectory math shared by the client ProjectileManager
+ * (rendering) and the server ProjectileManager (hit/miss decisions).
+ *
+ * ⚠️ IMPORTANT: MANUAL SYNC REQUIRED ⚠️
+ * This file exists in TWO locations:
+ * - workers/shared/ProjectilePhysics.ts (MASTER - source of truth)
+ * - client/src/shared/ProjectilePhysics.ts (COPY - must manually sync)
+ *
+ * When you modify this file, you MUST copy changes to the other location.
+ * Both files must stay identical or thrown walnuts will land in different places.
+ *
+ * Design:
+ * - Plain math only (no THREE.js, DOM or Workers APIs)
+ * - Every throw flies for PROJECTILE_FLIGHT_TIME, so the arc is fully defined by from/to
+ * - Ground bounces/rolling are client-side visuals only; the server uses the first ground contact
+ */
+
+export interface ProjectileVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Gravity in m/s²
+ */
+export const PROJECTILE_GRAVITY = -9.8;
+
+/**
+ * Time for a throw to reach its aim point in seconds (faster = flatter trajectory for easier hits)
+ */
+export const PROJECTILE_FLIGHT_TIME = 0.5;
+
+/**
+ * Distance from an entity position that counts as a hit (increased for easier hits)
+ */
+export const PROJECTILE_HIT_RADIUS = 0.8;
+
+/**
+ * Projectiles still flying after this many seconds are cleaned up
+ */
+export const PROJECTILE_MAX_LIFETIME = 5.0;
+
+/**
+ * Walnut radius (matches ground walnut size)
+ */
+export const PROJECTILE_WALNUT_RADIUS = 0.06;
+
+/**
+ * Calculate initial velocity to reach `to` from `from` with an arc trajectory
+ * vy = (dy - 0.5 * g * t²) / t
+ */
+export function getArcVelocity(
+  from: ProjectileVector,
+  to: ProjectileVector,
+  flightTime: number = PROJECTILE_FLIGHT_TIME
+): ProjectileVector {
+  return {
+    x: (to.x - from.x) / flightTime,
+    y: (to.y - from.y - 0.5 * PROJECTILE_GRAVITY * flightTime * flightTime) / flightTime,
+    z: (to.z - from.z) / flightTime
+  };
+}
+
+/**
+ * Position along the arc `t` seconds after launch
+ */
+export function getArcPosition(
+  from: ProjectileVector,
+  velocity: ProjectileVector,
+  t: number
+): ProjectileVector {
+  return {
+    x: from.x + velocity.x * t,
+    y: from.y + velocity.y * t + 0.5 * PROJECTILE_GRAVITY * t * t,
+    z: from.z + velocity.z * t
+  };
+}
@@ -10,6 +10,25 @@ export type WalnutOrigin = "game" | "player";
  */
 export type HidingMethod = "buried" | "bush";
 
+/**
+ * Power-up names (see DEFAULT_POWERUPS / POWERUP_CONFIG)
+ */
+export type PowerUpType = "ScentSniff" | "FastDig" | "DecoyNut";
+
+/**
+ * Server-side power-up state for a connected player
+ */
+export interface PowerUpState {
+  /** Uses remaining until the daily reset */
+  charges: number;
+
+  /** Unix timestamp (milliseconds) when the power-up can be used again */
+  cooldownUntil: number;
+
+  /** Unix timestamp (milliseconds) when the active effect ends (0 = not active) */
+  activeUntil: number;
+}
+
 /**
  * Interface representing a walnut in the game
  * Used for storing, hiding, and finding walnuts across the forest
@@ -114,6 +133,7 @@ export interface Env {
   WALNUTS: DurableObjectNamespace;
   LEADERBOARD: DurableObjectNamespace;
   PLAYER_IDENTITY: DurableObjectNamespace;
+  FOREST_LOBBY: DurableObjectNamespace; // MVP 18: Forest shard matchmaking
   TURNSTILE_SECRET: string; // Cloudflare Turnstile secret key
   RATE_LIMITER?: RateLimitBinding; // Rate limiting binding (optional for local dev)
   ADMIN_SECRET?: string; // MVP 13: Admin API authentication